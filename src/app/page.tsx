@@ -16,7 +16,11 @@ import {
   FileData,
   excludeNegative,
   extractNegativePrompt,
+  renderPrompt,
+  type MergeDiagnostic,
+  type ProvenanceMap,
 } from '@/lib/yaml-utils';
+import { rewriteLoadedFiles, updateReferencesAfterMove } from '@/lib/template-references';
 import { Snippet, snippetAPI } from '@/lib/snippet-api';
 import {
   dictionaryAPI,
@@ -37,24 +41,30 @@ import {
   loadOllamaSettings,
   getActiveWorkflow,
   getEnhancerSystemPrompt,
+  saveActiveWorkflowId,
   DEFAULT_PANEL_SIZES,
   type ComfyUISettings,
   type OllamaSettings,
   type LayoutMode,
 } from '@/lib/storage';
-import { ComfyUIClient } from '@/lib/comfyui-api';
 import { OllamaClient } from '@/lib/ollama-api';
-import { imageAPI } from '@/lib/image-api';
-import { getComfyUIPath, joinPath } from '@/lib/tauri-utils';
+import { runGeneration, type RunGenerationResult } from '@/lib/generation-api';
+import type { GenerationProgress } from '@/lib/comfyui-api';
+import type { ImageDetail } from '@/lib/image-api';
 import { SettingsDialog } from '@/components/settings-dialog';
+import { BatchDialog } from '@/components/batch-dialog';
 import * as presetAPI from '@/lib/preset-api';
+import * as batchAPI from '@/lib/batch-api';
 import {
   extractVariablesWithPath,
   resolveVariables,
+  validateVariables,
   VariableDefinition,
   VariableValues,
 } from '@/lib/variable-utils';
-import { VariableForm } from '@/components/variable-form';
+import { deriveJobSeed, hasRandomElements, renderRandomPrompt, type RandomChoices } from '@/lib/random-choices';
+import { getGenerationSettings, resolveGenerationOverrides } from '@/lib/template-generation';
+import { VariableForm, formatVariableIssues } from '@/components/variable-form';
 import { TabBar } from '@/components/tab-bar';
 import { Button } from '@/components/ui/button';
 import { Settings, FileText, PanelTop, PanelBottom, Rows2, Save, RotateCcw } from 'lucide-react';
@@ -75,6 +85,19 @@ function collectAllFolders(items: FileTreeItem[]): string[] {
   return folders;
 }
 
+// 全ファイルのパスを収集
+function collectAllFiles(items: FileTreeItem[]): string[] {
+  const paths: string[] = [];
+  for (const item of items) {
+    if (item.type === 'file') {
+      paths.push(item.path);
+    } else if (item.children) {
+      paths.push(...collectAllFiles(item.children));
+    }
+  }
+  return paths;
+}
+
 // ファイルがツリー内に存在するか確認
 function fileExistsInTree(items: FileTreeItem[], path: string): boolean {
   for (const item of items) {
@@ -119,6 +142,8 @@ export default function Home() {
   // 変数関連
   const [variables, setVariables] = useState<VariableDefinition[]>([]);
   const [variableValuesMap, setVariableValuesMap] = useState<Record<string, VariableValues>>({});
+  // ランダム変数・選択肢・ワイルドカードのシード（空なら生成ごとに新しいシード）
+  const [randomSeed, setRandomSeed] = useState('');
 
   // 設定ダイアログ
   const [settingsOpen, setSettingsOpen] = useState(false);
@@ -127,6 +152,16 @@ export default function Home() {
   // マージ結果（変数解決前）
   const [mergedYamlRaw, setMergedYamlRaw] = useState('');
   const [isYamlValid, setIsYamlValid] = useState(true);
+  // マージ診断（循環参照・ファイルなし・パースエラーなど）
+  const [mergeDiagnostics, setMergeDiagnostics] = useState<MergeDiagnostic[]>([]);
+  // マージ結果の各キーの出どころ（どのファイルが書き込んだか）
+  const [mergeProvenance, setMergeProvenance] = useState<ProvenanceMap>({});
+  // テンプレートの _generation ブロック（ワークフローの上書き値）
+  const [generationSettings, setGenerationSettings] = useState<Record<string, unknown> | undefined>(undefined);
+  // _layers の when 条件で使われている変数名
+  const [conditionVariableNames, setConditionVariableNames] = useState<string[]>([]);
+  // エディタで表示する行（出どころのクリックで該当ファイル・行へ移動）
+  const [revealRequest, setRevealRequest] = useState<{ file: string; line: number; nonce: number } | null>(null);
   // ネガティブプロンプト（マージ結果から抽出）
   const [negativePrompt, setNegativePrompt] = useState('');
 
@@ -161,6 +196,18 @@ export default function Home() {
   // 生成関連
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationError, setGenerationError] = useState<string | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+
+  // バッチ生成キュー
+  const [batches, setBatches] = useState<batchAPI.Batch[]>([]);
+  const [batchDialogOpen, setBatchDialogOpen] = useState(false);
+  const [runningBatchJobId, setRunningBatchJobId] = useState<string | null>(null);
+  // ギャラリーの再読み込み用（バッチのジョブが終わるたびに増える）
+  const [galleryRefreshKey, setGalleryRefreshKey] = useState(0);
+  const batchRunnerActiveRef = useRef(false);
+  // 実行中のバッチジョブの中断用
+  const batchJobAbortRef = useRef<{ batchId: string; controller: AbortController } | null>(null);
 
   // PromptPanelのタブ状態
   const [promptActiveTab, setPromptActiveTab] = useState<PromptTab>('prompt');
@@ -355,6 +402,23 @@ export default function Home() {
           setEnhanceEnabled(savedEnhanceEnabled === 'true');
         }
 
+        // 起動時のマイグレーション・整合性チェック・保存期間を過ぎたゴミ箱の画像の削除
+        import('@/lib/db/migration').then(async ({ runStartupMigrations }) => {
+          const trashPurge = await runStartupMigrations();
+          // 整合性チェックで行方不明の画像がゴミ箱に移ることもあるので一覧は常に読み直す
+          setGalleryRefreshKey((k) => k + 1);
+          if (!trashPurge || trashPurge.deleted === 0) return;
+          const { formatBytes } = await import('@/lib/image-api');
+          const { showInfo } = await import('@/lib/dialog');
+          const { default: i18n } = await import('@/lib/i18n');
+          await showInfo(i18n.t('trash.autoPurged', {
+            count: trashPurge.deleted,
+            size: formatBytes(trashPurge.freedBytes),
+          }));
+        }).catch((error) => {
+          console.error('[Migration] Startup tasks failed:', error);
+        });
+
         initialized.current = true;
       } catch (error) {
         console.error('Failed to load files:', error);
@@ -402,12 +466,58 @@ export default function Home() {
     filesRef.current = files;
   }, [files]);
 
+  // 変数値のrefを保持（マージ処理内で最新値を参照するため）
+  const currentVariableValuesRef = useRef(currentVariableValues);
+  useEffect(() => {
+    currentVariableValuesRef.current = currentVariableValues;
+  }, [currentVariableValues]);
+
+  // when 条件で使われている変数の値（変わったときだけ再マージする）
+  const conditionValuesKey = useMemo(
+    () => JSON.stringify(conditionVariableNames.map((name) => currentVariableValues[name] ?? null)),
+    [conditionVariableNames, currentVariableValues]
+  );
+
+  // 各ペインのエディタに表示する診断（そのファイルで見つかったもののみ）
+  const leftDiagnostics = useMemo(
+    () => mergeDiagnostics.filter((d) => d.file === activeTab),
+    [mergeDiagnostics, activeTab]
+  );
+  const rightDiagnostics = useMemo(
+    () => mergeDiagnostics.filter((d) => d.file === activeRightTab),
+    [mergeDiagnostics, activeRightTab]
+  );
+
   // 変数解決済みのマージ結果（表示用、negativeも含む）
+  // ランダムに選ぶ変数は生成時に決まるので ${...} のまま表示
   const mergedYaml = useMemo(
-    () => cleanYamlString(resolveVariables(mergedYamlRaw, currentVariableValues)),
+    () => cleanYamlString(resolveVariables(mergedYamlRaw, currentVariableValues, { keepRandom: true })),
     [mergedYamlRaw, currentVariableValues]
   );
 
+  // マージ結果のオブジェクト（ランダム要素の判定・生成時の抽選用）
+  const mergedData = useMemo(() => {
+    if (!mergedYamlRaw) return null;
+    try {
+      const parsed = yaml.load(mergedYamlRaw);
+      return parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+    } catch {
+      return null;
+    }
+  }, [mergedYamlRaw]);
+
+  // テンプレートが指定する上書き値（生成パネルの表示用。生成時は抽選後の値で解決し直す）
+  const templateOverrides = useMemo(() => {
+    const activeWorkflow = comfySettings ? getActiveWorkflow(comfySettings) : null;
+    return resolveGenerationOverrides(generationSettings, currentVariableValues, activeWorkflow?.overrides ?? []);
+  }, [comfySettings, generationSettings, currentVariableValues]);
+
+  // 生成時に選ぶランダム要素があるか
+  const hasRandom = useMemo(
+    () => !!mergedData && hasRandomElements(mergedData, currentVariableValues),
+    [mergedData, currentVariableValues]
+  );
+
   // エンハンス・生成用（negativeを除外）
   const mergedYamlForPrompt = useMemo(() => {
     if (!mergedYaml) return '';
@@ -423,7 +533,7 @@ export default function Home() {
 
   // 変数解決済みのネガティブプロンプト
   const resolvedNegativePrompt = useMemo(
-    () => resolveVariables(negativePrompt, currentVariableValues),
+    () => resolveVariables(negativePrompt, currentVariableValues, { keepRandom: true }),
     [negativePrompt, currentVariableValues]
   );
 
@@ -487,6 +597,18 @@ export default function Home() {
     }
   }, [ollamaSettings, mergedYamlForPrompt]);
 
+  // ファイルパス一覧（補完用）
+  const allFilePaths = useMemo(() => collectAllFiles(fileTree), [fileTree]);
+
+  // ファイル読み込み関数（非同期マージ用）
+  const readFileForMerge = useCallback(async (path: string): Promise<string | null> => {
+    try {
+      return await fileAPI.readFile(path);
+    } catch {
+      return null;
+    }
+  }, []);
+
   // 画像生成
   const handleGenerate = useCallback(async () => {
     if (!comfySettings?.enabled || !mergedYamlForPrompt) return;
@@ -497,31 +619,66 @@ export default function Home() {
       return;
     }
 
+    // 型注釈に合わない変数の値があれば生成しない
+    const variableIssues = validateVariables(variables, currentVariableValues);
+    if (variableIssues.length > 0) {
+      setGenerationError(`${t('variables.invalidValues')}\n${formatVariableIssues(t, variableIssues)}`);
+      return;
+    }
+
     // Galleryタブに切り替え
     setPromptActiveTab('gallery');
 
     setIsGenerating(true);
     setGenerationError(null);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
 
     try {
-      let promptToUse = mergedYamlForPrompt;
+      // ランダム要素があれば抽選したプロンプトを使う
+      let basePrompt = mergedYamlForPrompt;
+      let baseNegativePrompt = resolvedNegativePrompt;
+      let randomChoices: RandomChoices | undefined;
+      let valuesToUse = currentVariableValues;
+      if (hasRandom && mergedData) {
+        const cache: FileData = { ...filesRef.current, [currentFilePath]: currentContent };
+        const rendered = await renderRandomPrompt(mergedData, currentVariableValues, {
+          seed: randomSeed ? Number(randomSeed) : undefined,
+          dictionaryCache,
+          // 選んだ値で条件を評価し直す
+          remerge: async (values) => (await resolveAndMergeAsync(currentFilePath, cache, readFileForMerge, {
+            fileList: allFilePaths,
+            variables: values,
+          })).data,
+        });
+        basePrompt = rendered.prompt;
+        baseNegativePrompt = rendered.negativePrompt;
+        randomChoices = rendered.randomChoices;
+        valuesToUse = rendered.values;
+      }
+      // テンプレートの _generation は生成パネルの値より優先
+      const templateValues = resolveGenerationOverrides(generationSettings, valuesToUse, activeWorkflow.overrides).values;
+
+      let promptToUse = basePrompt;
+      let enhancer: { enhancerPresetId?: string; enhancerModel?: string } = {};
 
       // エンハンスが有効な場合
       if (enhanceEnabled && ollamaSettings?.enabled) {
         const currentPresetId = ollamaSettings.activePresetId || '';
         const lastConfig = lastEnhancedConfigRef.current;
         const isCacheValid = enhancedPrompt &&
-          lastConfig.yaml === mergedYamlForPrompt &&
+          lastConfig.yaml === basePrompt &&
           lastConfig.presetId === currentPresetId;
 
         if (isCacheValid) {
           promptToUse = enhancedPrompt;
+          enhancer = { enhancerPresetId: currentPresetId, enhancerModel: ollamaSettings.model };
         } else {
           const client = new OllamaClient(ollamaSettings.baseUrl);
           const systemPrompt = getEnhancerSystemPrompt(ollamaSettings);
 
           const enhanceResult = await client.generate(
-            mergedYamlForPrompt,
+            basePrompt,
             ollamaSettings.model,
             systemPrompt,
             { temperature: ollamaSettings.temperature }
@@ -529,86 +686,50 @@ export default function Home() {
 
           if (enhanceResult.success) {
             promptToUse = enhanceResult.content;
+            enhancer = { enhancerPresetId: currentPresetId, enhancerModel: ollamaSettings.model };
             setEnhancedPrompt(enhanceResult.content);
             lastEnhancedConfigRef.current = {
-              yaml: mergedYamlForPrompt,
+              yaml: basePrompt,
               presetId: currentPresetId,
             };
           }
         }
       }
 
-      // ワークフローを取得
-      const { readTextFile, exists } = await import('@tauri-apps/plugin-fs');
-      const comfyuiDir = await getComfyUIPath();
-      const workflowPath = await joinPath(comfyuiDir, activeWorkflow.file);
-
-      if (!(await exists(workflowPath))) {
-        throw new Error(`Workflow file not found: ${activeWorkflow.file}`);
-      }
+      // エンハンス中にキャンセルされた場合
+      if (controller.signal.aborted) return;
 
-      const content = await readTextFile(workflowPath);
-      const workflow: Record<string, unknown> = JSON.parse(content);
-
-      // overridesに生成パネルで入力された値を反映
-      const effectiveOverrides = activeWorkflow.overrides.map(override => {
-        const key = `${override.nodeId}.${override.property}`;
-        if (key in overrideValues) {
-          return { ...override, value: overrideValues[key] };
-        }
-        return override;
-      });
-
-      // 生成
-      const client = new ComfyUIClient(comfySettings.url);
-      const result = await client.generate({
-        workflow,
+      // 生成して保存（キャンセル時は何も保存されない）
+      await runGeneration({
+        settings: comfySettings,
+        workflow: activeWorkflow,
         prompt: promptToUse,
-        promptNodeId: activeWorkflow.promptNodeId,
-        promptProperty: activeWorkflow.promptProperty,
-        samplerNodeId: activeWorkflow.samplerNodeId,
-        samplerProperty: activeWorkflow.samplerProperty,
-        negativePrompt: resolvedNegativePrompt || undefined,
-        negativeNodeId: activeWorkflow.negativeNodeId,
-        negativeProperty: activeWorkflow.negativeProperty,
-        overrides: effectiveOverrides,
+        negativePrompt: baseNegativePrompt || undefined,
+        overrideValues: { ...overrideValues, ...templateValues },
+        variables: currentVariableValues,
+        provenance: {
+          templatePath: currentFilePath || undefined,
+          rawYaml: currentContent,
+          mergedYaml: basePrompt,
+          randomChoices,
+          ...enhancer,
+        },
+        onProgress: setGenerationProgress,
+        signal: controller.signal,
       });
-
-      if (result.success && result.images.length > 0) {
-
-        // パラメーターをオブジェクトに変換
-        const parametersObj: Record<string, unknown> = {};
-        for (const override of effectiveOverrides) {
-          if (override.nodeId && override.property && override.value !== '') {
-            parametersObj[override.property] = override.value;
-          }
-        }
-
-        for (const imageUrl of result.images) {
-          try {
-            await imageAPI.save({
-              imageUrl,
-              prompt: promptToUse,
-              workflowId: activeWorkflow.id,
-              seed: result.seed,
-              negativePrompt: resolvedNegativePrompt || undefined,
-              parameters: Object.keys(parametersObj).length > 0 ? parametersObj : undefined,
-            });
-          } catch {
-            // Ignore save errors for individual images
-          }
-        }
-      } else if (!result.success) {
-        setGenerationError(result.error || 'Generation failed');
-      } else {
-        setGenerationError('No images returned from ComfyUI');
-      }
     } catch (error) {
       setGenerationError(error instanceof Error ? error.message : 'Unknown error');
     } finally {
+      generationAbortRef.current = null;
       setIsGenerating(false);
+      setGenerationProgress(null);
     }
-  }, [comfySettings, ollamaSettings, mergedYamlForPrompt, enhanceEnabled, enhancedPrompt, resolvedNegativePrompt, overrideValues, t]);
+  }, [comfySettings, ollamaSettings, mergedYamlForPrompt, enhanceEnabled, enhancedPrompt, resolvedNegativePrompt, overrideValues, variables, currentVariableValues, currentFilePath, currentContent, readFileForMerge, allFilePaths, hasRandom, mergedData, generationSettings, randomSeed, dictionaryCache, t]);
+
+  // 生成をキャンセル
+  const handleCancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
 
   // 生成可能かどうか
   const canGenerate = useMemo(() => {
@@ -621,37 +742,16 @@ export default function Home() {
     return !!(ollamaSettings?.enabled && ollamaSettings?.model && mergedYamlForPrompt);
   }, [ollamaSettings, mergedYamlForPrompt]);
 
-  // ファイルパス一覧（補完用）
-  const allFilePaths = useMemo(() => {
-    const collectFiles = (items: FileTreeItem[]): string[] => {
-      const paths: string[] = [];
-      for (const item of items) {
-        if (item.type === 'file') {
-          paths.push(item.path);
-        } else if (item.children) {
-          paths.push(...collectFiles(item.children));
-        }
-      }
-      return paths;
-    };
-    return collectFiles(fileTree);
-  }, [fileTree]);
-
-  // ファイル読み込み関数（非同期マージ用）
-  const readFileForMerge = useCallback(async (path: string): Promise<string | null> => {
-    try {
-      return await fileAPI.readFile(path);
-    } catch {
-      return null;
-    }
-  }, []);
-
   // マージ結果とプロンプトテキスト（非同期で計算）
   // マージ後のYAMLから変数を抽出
   useEffect(() => {
     if (!currentFilePath || !currentContent) {
       setMergedYamlRaw('');
       setIsYamlValid(true);
+      setMergeDiagnostics([]);
+      setMergeProvenance({});
+      setGenerationSettings(undefined);
+      setConditionVariableNames([]);
       setVariables([]);
       setNegativePrompt('');
       return;
@@ -664,13 +764,25 @@ export default function Home() {
         // 参照ファイル用のキャッシュ（メイン状態とは別管理）
         // 現在のファイルは生のコンテンツを使用（変数解決前）
         const tempCache: FileData = { ...filesRef.current, [currentFilePath]: currentContent };
-        const merged = await resolveAndMergeAsync(currentFilePath, tempCache, readFileForMerge);
+        const { data: merged, provenance, diagnostics, conditionVariables } = await resolveAndMergeAsync(
+          currentFilePath,
+          tempCache,
+          readFileForMerge,
+          { fileList: allFilePaths, variables: currentVariableValuesRef.current }
+        );
 
         if (cancelled) return;
 
-        // 空オブジェクトが返ってきた場合はパースエラーの可能性
-        const isEmpty = Object.keys(merged).length === 0 && currentContent.trim() !== '';
-        if (isEmpty) {
+        setMergeDiagnostics(diagnostics);
+        setMergeProvenance(provenance);
+        setGenerationSettings(getGenerationSettings(merged));
+        setConditionVariableNames(conditionVariables.map((v) => v.name));
+
+        // 編集中のファイル自体がパースできない場合は無効
+        const hasOwnParseError = diagnostics.some(
+          (d) => d.kind === 'parse' && d.file === currentFilePath
+        );
+        if (hasOwnParseError) {
           setMergedYamlRaw('');
           setIsYamlValid(false);
           setNegativePrompt('');
@@ -688,6 +800,12 @@ export default function Home() {
         // マージ後のYAMLオブジェクトから変数を抽出（パス情報付き）
         // ※ negativeも含めた元のmergedから抽出（negative内の変数も対応）
         const vars = extractVariablesWithPath(merged);
+        // when 条件だけで使われている変数も入力できるようにする
+        for (const variable of conditionVariables) {
+          if (!vars.some((v) => v.name === variable.name)) {
+            vars.push(variable);
+          }
+        }
         setVariables(vars);
 
         // 新しい変数があればデフォルト値で初期化（タブごとに管理）
@@ -712,10 +830,13 @@ export default function Home() {
 
         setMergedYamlRaw(yamlStr);
         setIsYamlValid(true);
-      } catch {
+      } catch (error) {
         if (cancelled) return;
+        console.error('Failed to merge templates:', error);
         setMergedYamlRaw('');
         setIsYamlValid(false);
+        setMergeDiagnostics([]);
+        setMergeProvenance({});
         setNegativePrompt('');
         // 変数リストは維持（invalidでも前回の変数を表示し続ける）
       }
@@ -724,7 +845,229 @@ export default function Home() {
     return () => {
       cancelled = true;
     };
-  }, [currentFilePath, currentContent, readFileForMerge]);
+  }, [currentFilePath, currentContent, readFileForMerge, allFilePaths, conditionValuesKey]);
+
+  // 設定のref（バッチ処理中に設定が変わっても最新値を使うため）
+  const comfySettingsRef = useRef(comfySettings);
+  const ollamaSettingsRef = useRef(ollamaSettings);
+  useEffect(() => {
+    comfySettingsRef.current = comfySettings;
+    ollamaSettingsRef.current = ollamaSettings;
+  }, [comfySettings, ollamaSettings]);
+
+  // バッチ一覧を再読み込み
+  const refreshBatches = useCallback(async () => {
+    try {
+      setBatches(await batchAPI.listBatches());
+    } catch (error) {
+      console.error('Failed to load batches:', error);
+    }
+  }, []);
+
+  // バッチの1ジョブを実行（プロンプトはキュー追加時に確定済み）
+  const runBatchJob = useCallback(async (
+    batch: batchAPI.Batch,
+    job: batchAPI.BatchJob,
+    signal: AbortSignal
+  ): Promise<RunGenerationResult> => {
+    const settings = comfySettingsRef.current;
+    if (!settings) throw new Error('ComfyUI is not configured');
+    const workflow = settings.workflows.find((w) => w.id === batch.workflowId) ?? getActiveWorkflow(settings);
+    if (!workflow) throw new Error(t('main.noWorkflowSelected'));
+
+    let prompt = job.prompt;
+    let enhancer: { enhancerPresetId?: string; enhancerModel?: string } = {};
+    const ollama = ollamaSettingsRef.current;
+    if (batch.enhance && ollama?.enabled && ollama.model) {
+      const client = new OllamaClient(ollama.baseUrl);
+      const enhanceResult = await client.generate(
+        job.prompt,
+        ollama.model,
+        getEnhancerSystemPrompt(ollama),
+        { temperature: ollama.temperature }
+      );
+      if (enhanceResult.success) {
+        prompt = enhanceResult.content;
+        enhancer = { enhancerPresetId: ollama.activePresetId || undefined, enhancerModel: ollama.model };
+      }
+    }
+    if (signal.aborted) {
+      return { imageIds: [], cancelled: true };
+    }
+
+    return runGeneration({
+      settings,
+      workflow,
+      prompt,
+      negativePrompt: job.negativePrompt,
+      overrideValues: { ...batch.overrideValues, ...job.overrideValues },
+      seed: job.seed,
+      variables: job.values,
+      batchId: batch.id,
+      batchJobId: job.id,
+      provenance: {
+        templatePath: batch.templatePath,
+        rawYaml: batch.templateContent,
+        mergedYaml: job.prompt,
+        randomChoices: job.randomChoices,
+        ...enhancer,
+      },
+      onProgress: setGenerationProgress,
+      signal,
+    });
+  }, [t]);
+
+  // キューを先頭から順に処理（既に処理中なら何もしない）
+  const processBatchQueue = useCallback(async () => {
+    if (batchRunnerActiveRef.current) return;
+    batchRunnerActiveRef.current = true;
+    try {
+      // ComfyUIが無効になったら残りは実行待ちのまま止める
+      while (comfySettingsRef.current?.enabled) {
+        const next = await batchAPI.getNextPendingJob();
+        if (!next) break;
+
+        const { batch, job } = next;
+        await batchAPI.updateJobStatus(job.id, 'running');
+        setRunningBatchJobId(job.id);
+        await refreshBatches();
+
+        const controller = new AbortController();
+        batchJobAbortRef.current = { batchId: batch.id, controller };
+        try {
+          const result = await runBatchJob(batch, job, controller.signal);
+          await batchAPI.updateJobStatus(job.id, result.cancelled ? 'cancelled' : 'completed');
+        } catch (error) {
+          await batchAPI.updateJobStatus(
+            job.id,
+            'failed',
+            error instanceof Error ? error.message : 'Unknown error'
+          );
+        } finally {
+          batchJobAbortRef.current = null;
+          setGenerationProgress(null);
+        }
+        setGalleryRefreshKey((k) => k + 1);
+      }
+    } catch (error) {
+      console.error('Failed to process batch queue:', error);
+    } finally {
+      batchRunnerActiveRef.current = false;
+      setRunningBatchJobId(null);
+      await refreshBatches();
+    }
+  }, [refreshBatches, runBatchJob]);
+
+  // 起動時: 中断されたバッチを一時停止状態で復元
+  useEffect(() => {
+    batchAPI.recoverInterruptedBatches()
+      .catch((error) => console.error('Failed to recover batches:', error))
+      .finally(refreshBatches);
+  }, [refreshBatches]);
+
+  // バッチをキューに追加（組み合わせごとにマージしてプロンプトを確定）
+  const handleEnqueueBatch = useCallback(async (config: batchAPI.BatchConfig) => {
+    const workflow = comfySettings ? getActiveWorkflow(comfySettings) : null;
+    if (!currentFilePath || !currentContent) return;
+    if (!workflow) {
+      setGenerationError(t('main.noWorkflowSelected'));
+      return;
+    }
+
+    try {
+      const presets = config.axes.some((axis) => axis.type === 'preset')
+        ? await presetAPI.getPresets(currentFilePath)
+        : [];
+      const combinations = batchAPI.expandBatchCombinations(config, currentVariableValues, presets);
+      // 型注釈に合わない値を含む組み合わせがあればキューに入れない
+      for (const combination of combinations) {
+        const variableIssues = validateVariables(variables, combination.values);
+        if (variableIssues.length > 0) {
+          setGenerationError(`${t('variables.invalidValues')}\n${formatVariableIssues(t, variableIssues)}`);
+          return;
+        }
+      }
+      const cache: FileData = { ...filesRef.current, [currentFilePath]: currentContent };
+
+      const jobs: batchAPI.BatchJobInput[] = [];
+      for (const [index, combination] of combinations.entries()) {
+        // when 条件付きのレイヤーがあるので、組み合わせごとにマージし直す
+        const { data } = await resolveAndMergeAsync(currentFilePath, cache, readFileForMerge, {
+          fileList: allFilePaths,
+          variables: combination.values,
+        });
+        // テンプレートの _generation もジョブごとに解決（プリセット・変数の軸で値が変わる）
+        const generation = getGenerationSettings(data);
+        // ランダム要素はジョブごとに抽選（シード指定時はジョブの番号を混ぜたシードで選ぶ）
+        if (hasRandomElements(data, combination.values)) {
+          const { prompt, negativePrompt, values, randomChoices } = await renderRandomPrompt(data, combination.values, {
+            seed: randomSeed ? deriveJobSeed(Number(randomSeed), index) : undefined,
+            dictionaryCache,
+            remerge: async (picked) => (await resolveAndMergeAsync(currentFilePath, cache, readFileForMerge, {
+              fileList: allFilePaths,
+              variables: picked,
+            })).data,
+          });
+          const jobOverrides = resolveGenerationOverrides(generation, values, workflow.overrides).values;
+          jobs.push({ ...combination, prompt, negativePrompt, randomChoices, overrideValues: jobOverrides });
+        } else {
+          const jobOverrides = resolveGenerationOverrides(generation, combination.values, workflow.overrides).values;
+          jobs.push({ ...combination, ...renderPrompt(data, combination.values), overrideValues: jobOverrides });
+        }
+      }
+      if (jobs.length === 0) return;
+
+      await batchAPI.createBatch(
+        {
+          templatePath: currentFilePath,
+          templateContent: currentContent,
+          config,
+          workflowId: workflow.id,
+          overrideValues,
+          enhance: enhanceEnabled && !!ollamaSettings?.enabled,
+        },
+        jobs
+      );
+      await refreshBatches();
+      setPromptActiveTab('gallery');
+      processBatchQueue();
+    } catch (error) {
+      setGenerationError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  }, [comfySettings, ollamaSettings, currentFilePath, currentContent, variables, currentVariableValues, readFileForMerge, allFilePaths, overrideValues, enhanceEnabled, randomSeed, dictionaryCache, refreshBatches, processBatchQueue, t]);
+
+  // バッチの一時停止・再開・キャンセル・再実行・削除
+  const handleBatchAction = useCallback(async (batchId: string, action: batchAPI.BatchAction) => {
+    try {
+      switch (action) {
+        case 'pause':
+          await batchAPI.setBatchStatus(batchId, 'paused');
+          break;
+        case 'resume':
+          await batchAPI.setBatchStatus(batchId, 'running');
+          break;
+        case 'cancel':
+          await batchAPI.setBatchStatus(batchId, 'cancelled');
+          // 実行中のジョブも中断
+          if (batchJobAbortRef.current?.batchId === batchId) {
+            batchJobAbortRef.current.controller.abort();
+          }
+          break;
+        case 'retry':
+          await batchAPI.retryBatch(batchId);
+          break;
+        case 'delete':
+          await batchAPI.deleteBatch(batchId);
+          break;
+      }
+      await refreshBatches();
+      if (action === 'resume' || action === 'retry') {
+        processBatchQueue();
+      }
+    } catch (error) {
+      console.error('Failed to update batch:', error);
+    }
+  }, [refreshBatches, processBatchQueue]);
 
   // ファイル選択ハンドラ（タブを開く）
   const handleFileSelect = useCallback(async (path: string) => {
@@ -757,6 +1100,70 @@ export default function Home() {
     }
   }, [openTabs]);
 
+  // 出どころのファイル・行をエディタで開く
+  const handleNavigateToSource = useCallback(async (file: string, line?: number) => {
+    if (splitView && rightTabs.includes(file)) {
+      setActiveRightTab(file);
+      setFocusedPane('right');
+    } else {
+      await handleFileSelect(file);
+      setFocusedPane('left');
+    }
+    if (line !== undefined) {
+      setRevealRequest((prev) => ({ file, line, nonce: (prev?.nonce ?? 0) + 1 }));
+    }
+  }, [splitView, rightTabs, handleFileSelect]);
+
+  // 画像の生成条件をエディタに復元（テンプレートを開き、変数値とプロパティ上書きを戻す）
+  const handleRestoreFromImage = useCallback(async (detail: ImageDetail) => {
+    const path = detail.templatePath;
+    if (!path) return;
+
+    const { showError, showWarning } = await import('@/lib/dialog');
+    let content: string;
+    try {
+      content = files[path] ?? await fileAPI.readFile(path);
+    } catch {
+      await showError(t('imageViewer.templateNotFound', { path }));
+      return;
+    }
+
+    // 変数値（テンプレートにない変数はマージ時に取り除かれる）
+    if (detail.variables) {
+      const values = detail.variables;
+      setVariableValuesMap((prev) => ({ ...prev, [path]: values }));
+    }
+    if (detail.overrideValues) {
+      setOverrideValues(detail.overrideValues);
+    }
+    // 同じシードならランダム要素も同じ値を選ぶ
+    setRandomSeed(detail.randomChoices ? String(detail.randomChoices.seed) : '');
+
+    // 生成に使ったワークフローを選択
+    const workflowId = detail.workflowId;
+    if (workflowId && comfySettings?.activeWorkflowId !== workflowId &&
+        comfySettings?.workflows.some((w) => w.id === workflowId)) {
+      await saveActiveWorkflowId(workflowId);
+      setComfySettings(await fetchComfyUISettings());
+      setSettingsKey((k) => k + 1);
+    }
+
+    await handleFileSelect(path);
+    setFocusedPane('left');
+    setPromptActiveTab('prompt');
+
+    // 生成後にテンプレートが変更されている場合は知らせる
+    if (detail.rawYaml !== undefined && detail.rawYaml !== content) {
+      await showWarning(t('imageViewer.templateChanged'));
+    }
+  }, [files, comfySettings, handleFileSelect, t]);
+
+  // 取り込んだ画像からテンプレートが復元されたらファイルツリーを再読み込み
+  const handleTemplatesRestored = useCallback(async () => {
+    const tree = await fileAPI.listFiles();
+    setFileTree(tree);
+  }, []);
+
   // タブを閉じるハンドラ
   const handleCloseTab = useCallback(async (path: string) => {
     // 未保存なら確認
@@ -1121,21 +1528,16 @@ export default function Home() {
       const tree = await fileAPI.listFiles();
       setFileTree(tree);
 
-      // キャッシュを更新（移動元を削除し、移動先を追加）
-      setFiles((prev) => {
-        const next: Record<string, string> = {};
-        for (const [key, value] of Object.entries(prev)) {
-          if (key === from) {
-            next[newPath] = value;
-          } else if (key.startsWith(from + '/')) {
-            const relativePath = key.substring(from.length);
-            next[newPath + relativePath] = value;
-          } else {
-            next[key] = value;
-          }
-        }
-        return next;
-      });
+      // 他のテンプレートからの参照（_base / _layers）を書き換え
+      const references = await updateReferencesAfterMove(from, newPath, collectAllFiles(tree));
+
+      // キャッシュを更新（移動元を削除し、移動先を追加、未保存のタブも含めて参照を書き換え）
+      setFiles((prev) => rewriteLoadedFiles(prev, from, newPath));
+
+      if (references.failed.length > 0) {
+        const { showError } = await import('@/lib/dialog');
+        await showError(t('fileTree.referenceUpdateFailed', { files: references.failed.join('\n') }));
+      }
 
       // タブのパスを更新
       const newTabs = openTabs.map((t) => {
@@ -1311,21 +1713,16 @@ export default function Home() {
     const tree = await fileAPI.listFiles();
     setFileTree(tree);
 
-    // キャッシュを更新
-    setFiles((prev) => {
-      const next: Record<string, string> = {};
-      for (const [key, value] of Object.entries(prev)) {
-        if (key === path) {
-          next[newPath] = value;
-        } else if (key.startsWith(path + '/')) {
-          const relativePath = key.substring(path.length);
-          next[newPath + relativePath] = value;
-        } else {
-          next[key] = value;
-        }
-      }
-      return next;
-    });
+    // 他のテンプレートからの参照（_base / _layers）を書き換え
+    const references = await updateReferencesAfterMove(path, newPath, collectAllFiles(tree));
+
+    // キャッシュを更新（移動元を削除し、移動先を追加、未保存のタブも含めて参照を書き換え）
+    setFiles((prev) => rewriteLoadedFiles(prev, path, newPath));
+
+    if (references.failed.length > 0) {
+      const { showError } = await import('@/lib/dialog');
+      await showError(t('fileTree.referenceUpdateFailed', { files: references.failed.join('\n') }));
+    }
 
     // タブのパスを更新
     const newTabs = openTabs.map((t) => {
@@ -1399,7 +1796,7 @@ export default function Home() {
       }
       return next;
     });
-  }, [openTabs, activeTab]);
+  }, [openTabs, activeTab, t]);
 
   // エディタ変更ハンドラ
   const handleEditorChange = useCallback(
@@ -1780,6 +2177,8 @@ export default function Home() {
                     }
                   }}
                   onGenerate={handleGenerate}
+                  diagnostics={leftDiagnostics}
+                  revealLine={revealRequest?.file === activeTab ? revealRequest : undefined}
                 />
               ) : (
                 <div className="flex items-center justify-center h-full text-gray-500">
@@ -1849,6 +2248,8 @@ export default function Home() {
                       }
                     }}
                     onGenerate={handleGenerate}
+                    diagnostics={rightDiagnostics}
+                    revealLine={revealRequest?.file === activeRightTab ? revealRequest : undefined}
                   />
                 ) : (
                   <div className="flex items-center justify-center h-full text-gray-500">
@@ -1908,6 +2309,9 @@ export default function Home() {
             onChange={handleVariableValuesChange}
             dictionaryCache={dictionaryCache}
             isYamlValid={isYamlValid}
+            hasRandomElements={hasRandom}
+            randomSeed={randomSeed}
+            onRandomSeedChange={setRandomSeed}
           />
         </div>
         {/* Variable Panel Resize Handle */}
@@ -1926,6 +2330,9 @@ export default function Home() {
             currentFileName={currentFileName}
             mergedYaml={mergedYaml}
             isYamlValid={isYamlValid}
+            diagnostics={mergeDiagnostics}
+            provenance={mergeProvenance}
+            onNavigateToSource={handleNavigateToSource}
             enhancedPrompt={enhancedPrompt}
             onEnhancedPromptChange={setEnhancedPrompt}
             isEnhancing={isEnhancing}
@@ -1933,6 +2340,10 @@ export default function Home() {
             onClearEnhanceError={() => setEnhanceError(null)}
             comfyEnabled={comfySettings?.enabled || false}
             isGenerating={isGenerating}
+            batches={batches}
+            galleryRefreshKey={galleryRefreshKey}
+            onRestoreImage={handleRestoreFromImage}
+            onTemplatesRestored={handleTemplatesRestored}
           />
         </div>
         {/* Generation Panel Resize Handle */}
@@ -1955,19 +2366,35 @@ export default function Home() {
             isGenerating={isGenerating}
             isEnhancing={isEnhancing}
             onGenerate={handleGenerate}
+            onCancelGeneration={handleCancelGeneration}
+            generationProgress={generationProgress}
             generationError={generationError}
             onClearError={() => setGenerationError(null)}
             canGenerate={canGenerate}
             canEnhance={canEnhance}
             overrideValues={overrideValues}
+            templateOverrides={templateOverrides}
             onOverrideValuesChange={setOverrideValues}
             onWorkflowChange={() => fetchComfyUISettings().then(setComfySettings)}
             onPresetChange={() => fetchOllamaSettings().then(setOllamaSettings)}
+            batches={batches}
+            runningBatchJobId={runningBatchJobId}
+            onOpenBatch={() => setBatchDialogOpen(true)}
+            onBatchAction={handleBatchAction}
           />
         </div>
       </div>
       )}
 
+      {/* Batch Dialog */}
+      <BatchDialog
+        open={batchDialogOpen}
+        onOpenChange={setBatchDialogOpen}
+        templatePath={currentFilePath}
+        variables={variables}
+        onSubmit={handleEnqueueBatch}
+      />
+
       {/* Settings Dialog */}
       <SettingsDialog
         open={settingsOpen}
@@ -1988,6 +2415,7 @@ export default function Home() {
             console.error('Failed to reload dictionary:', e);
           }
         }}
+        onGalleryChange={() => setGalleryRefreshKey((k) => k + 1)}
       />
     </div>
   );
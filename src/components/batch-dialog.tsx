@@ -0,0 +1,375 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Plus, X } from 'lucide-react';
+import * as presetAPI from '@/lib/preset-api';
+import {
+  MAX_BATCH_AXES,
+  countCombinations,
+  createSeedValues,
+  type BatchAxis,
+  type BatchAxisType,
+  type BatchConfig,
+  type BatchMode,
+} from '@/lib/batch-api';
+import { validateVariableValue, type VariableDefinition, type VariableValidationIssue } from '@/lib/variable-utils';
+import { formatVariableIssues } from './variable-form';
+
+interface BatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  templatePath: string | null;
+  variables: VariableDefinition[];
+  onSubmit: (config: BatchConfig) => Promise<void>;
+}
+
+// 軸の入力状態（送信時に BatchAxis に変換）
+interface AxisDraft {
+  type: BatchAxisType;
+  name: string;          // variable: 変数名
+  valuesText: string;    // variable: カンマまたは改行区切りの値
+  presetNames: string[]; // preset: 選択したプリセット
+  seedCount: string;     // seed: 個数
+  seedStart: string;     // seed: 開始値（空ならランダム）
+}
+
+const AXIS_LABELS = ['X', 'Y', 'Z'];
+
+function createAxisDraft(variables: VariableDefinition[]): AxisDraft {
+  return {
+    type: variables.length > 0 ? 'variable' : 'seed',
+    name: variables[0]?.name ?? '',
+    valuesText: '',
+    presetNames: [],
+    seedCount: '4',
+    seedStart: '',
+  };
+}
+
+function parseValues(text: string): string[] {
+  return text.split(/[,\n]/).map((v) => v.trim()).filter((v) => v !== '');
+}
+
+function toAxis(draft: AxisDraft): BatchAxis {
+  switch (draft.type) {
+    case 'variable':
+      return { type: 'variable', name: draft.name, values: parseValues(draft.valuesText) };
+    case 'preset':
+      return { type: 'preset', values: draft.presetNames };
+    case 'seed': {
+      const start = draft.seedStart.trim() === '' ? undefined : Number(draft.seedStart);
+      return {
+        type: 'seed',
+        values: createSeedValues(Number(draft.seedCount) || 0, Number.isFinite(start) ? start : undefined),
+      };
+    }
+  }
+}
+
+export function BatchDialog({ open, onOpenChange, ...props }: BatchDialogProps) {
+  // 開くたびにフォームをマウントし直して入力をリセットする
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      {open && <BatchDialogForm {...props} onClose={() => onOpenChange(false)} />}
+    </Dialog>
+  );
+}
+
+interface BatchDialogFormProps extends Omit<BatchDialogProps, 'open' | 'onOpenChange'> {
+  onClose: () => void;
+}
+
+function BatchDialogForm({ templatePath, variables, onSubmit, onClose }: BatchDialogFormProps) {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<BatchMode>('matrix');
+  // 開いたときの変数で最初の軸を作る（変数が変わっても入力中の軸はそのまま）
+  const [axes, setAxes] = useState<AxisDraft[]>(() => [createAxisDraft(variables)]);
+  const [sampleCount, setSampleCount] = useState('8');
+  const [fixedSeed, setFixedSeed] = useState('');
+  const [presets, setPresets] = useState<presetAPI.Preset[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // プリセットを読み込む
+  useEffect(() => {
+    if (!templatePath) return;
+    presetAPI.getPresets(templatePath)
+      .then(setPresets)
+      .catch((e) => console.error('Failed to load presets:', e));
+  }, [templatePath]);
+
+  // シード軸は毎回ランダムな開始値になるので、件数の計算にだけ使う
+  const combinationCount = useMemo(() => countCombinations(axes.map(toAxis)), [axes]);
+  const jobCount = mode === 'random'
+    ? Math.min(Number(sampleCount) || 0, combinationCount)
+    : combinationCount;
+
+  const updateAxis = (index: number, patch: Partial<AxisDraft>) => {
+    setAxes((prev) => prev.map((axis, i) => (i === index ? { ...axis, ...patch } : axis)));
+  };
+
+  const togglePreset = (index: number, name: string, checked: boolean) => {
+    const axis = axes[index];
+    const presetNames = checked
+      ? [...axis.presetNames, name]
+      : axis.presetNames.filter((n) => n !== name);
+    updateAxis(index, { presetNames });
+  };
+
+  const handleSubmit = async () => {
+    const batchAxes = axes.map(toAxis);
+    if (batchAxes.some((axis) => axis.values.length === 0 || (axis.type === 'variable' && !axis.name))) {
+      setError(t('batch.emptyAxis'));
+      return;
+    }
+    // 型注釈のある変数は軸の値も検証
+    const issues: VariableValidationIssue[] = [];
+    for (const axis of batchAxes) {
+      const variable = axis.type === 'variable' ? variables.find((v) => v.name === axis.name) : undefined;
+      if (!variable) continue;
+      for (const value of axis.values) {
+        const error = validateVariableValue(variable, value);
+        if (error) issues.push({ name: variable.name, value, error });
+      }
+    }
+    if (issues.length > 0) {
+      setError(`${t('variables.invalidValues')}\n${formatVariableIssues(t, issues)}`);
+      return;
+    }
+    if (jobCount === 0) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const seed = fixedSeed.trim() === '' ? undefined : Number(fixedSeed);
+      await onSubmit({
+        mode,
+        axes: batchAxes,
+        sampleCount: mode === 'random' ? Number(sampleCount) || 0 : undefined,
+        fixedSeed: Number.isFinite(seed) ? seed : undefined,
+      });
+      onClose();
+    } catch (e) {
+      console.error('Failed to create batch:', e);
+      setError(t('batch.createFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasSeedAxis = axes.some((axis) => axis.type === 'seed');
+
+  return (
+    <DialogContent className="max-w-lg bg-[#252526] border-[#454545]">
+      <DialogHeader>
+        <DialogTitle className="text-[#cccccc]">{t('batch.title')}</DialogTitle>
+      </DialogHeader>
+
+      <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+        {/* モード */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-xs text-[#888] mb-1 block">{t('batch.mode')}</Label>
+            <Select value={mode} onValueChange={(v) => setMode(v as BatchMode)}>
+              <SelectTrigger className="w-full h-8 text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-[#252526] border-[#333]">
+                <SelectItem value="matrix" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+                  {t('batch.modeMatrix')}
+                </SelectItem>
+                <SelectItem value="random" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+                  {t('batch.modeRandom')}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === 'random' ? (
+            <div>
+              <Label className="text-xs text-[#888] mb-1 block">{t('batch.sampleCount')}</Label>
+              <Input
+                type="number"
+                min={1}
+                value={sampleCount}
+                onChange={(e) => setSampleCount(e.target.value)}
+                className="h-8 text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]"
+              />
+            </div>
+          ) : !hasSeedAxis && (
+            <div>
+              <Label className="text-xs text-[#888] mb-1 block">{t('batch.fixedSeed')}</Label>
+              <Input
+                type="number"
+                value={fixedSeed}
+                onChange={(e) => setFixedSeed(e.target.value)}
+                placeholder={t('batch.randomSeed')}
+                className="h-8 text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]"
+              />
+            </div>
+          )}
+        </div>
+
+        {/* 軸 */}
+        {axes.map((axis, index) => (
+          <div key={index} className="space-y-2 p-2 rounded border border-[#333]">
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-medium text-[#569cd6] w-4">{AXIS_LABELS[index]}</span>
+              <Select
+                value={axis.type}
+                onValueChange={(v) => updateAxis(index, { type: v as BatchAxisType })}
+              >
+                <SelectTrigger className="w-28 h-7 text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#252526] border-[#333]">
+                  <SelectItem value="variable" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+                    {t('batch.axisVariable')}
+                  </SelectItem>
+                  <SelectItem value="preset" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+                    {t('batch.axisPreset')}
+                  </SelectItem>
+                  <SelectItem value="seed" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+                    {t('batch.axisSeed')}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+              {axis.type === 'variable' && (
+                <Select value={axis.name} onValueChange={(v) => updateAxis(index, { name: v })}>
+                  <SelectTrigger className="flex-1 h-7 text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]">
+                    <SelectValue placeholder={t('batch.selectVariable')} />
+                  </SelectTrigger>
+                  <SelectContent className="bg-[#252526] border-[#333]">
+                    {variables.map((v) => (
+                      <SelectItem
+                        key={v.name}
+                        value={v.name}
+                        className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+                      >
+                        {v.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <div className="flex-1" />
+              {axes.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+                  onClick={() => setAxes((prev) => prev.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+
+            {axis.type === 'variable' && (
+              <Textarea
+                value={axis.valuesText}
+                onChange={(e) => updateAxis(index, { valuesText: e.target.value })}
+                placeholder={variables.find((v) => v.name === axis.name)?.options?.join(', ') ?? t('batch.valuesPlaceholder')}
+                className="min-h-[60px] text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]"
+              />
+            )}
+
+            {axis.type === 'preset' && (
+              presets.length === 0 ? (
+                <p className="text-xs text-[#888]">{t('batch.noPresets')}</p>
+              ) : (
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {presets.map((preset) => (
+                    <label key={preset.id} className="flex items-center gap-1.5 text-xs text-[#d4d4d4] cursor-pointer">
+                      <Checkbox
+                        checked={axis.presetNames.includes(preset.name)}
+                        onCheckedChange={(checked) => togglePreset(index, preset.name, checked === true)}
+                      />
+                      {preset.name}
+                    </label>
+                  ))}
+                </div>
+              )
+            )}
+
+            {axis.type === 'seed' && (
+              <div className="grid grid-cols-2 gap-2">
+                <Input
+                  type="number"
+                  min={1}
+                  value={axis.seedCount}
+                  onChange={(e) => updateAxis(index, { seedCount: e.target.value })}
+                  placeholder={t('batch.seedCount')}
+                  className="h-7 text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]"
+                />
+                <Input
+                  type="number"
+                  value={axis.seedStart}
+                  onChange={(e) => updateAxis(index, { seedStart: e.target.value })}
+                  placeholder={t('batch.seedStart')}
+                  className="h-7 text-xs bg-[#3c3c3c] border-[#454545] text-[#cccccc]"
+                />
+              </div>
+            )}
+          </div>
+        ))}
+
+        {axes.length < MAX_BATCH_AXES && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-[#d4d4d4] hover:text-white hover:bg-[#3c3c3c]"
+            onClick={() => setAxes((prev) => [...prev, createAxisDraft(variables)])}
+          >
+            <Plus className="h-3.5 w-3.5 mr-1" />
+            {t('batch.addAxis')}
+          </Button>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-400 whitespace-pre-line">{error}</p>
+        )}
+      </div>
+
+      <DialogFooter className="items-center">
+        <span className="text-xs text-[#888] mr-auto">
+          {t('batch.jobCount', { count: jobCount })}
+        </span>
+        <Button
+          variant="ghost"
+          onClick={onClose}
+          className="text-[#cccccc] hover:bg-[#3c3c3c]"
+        >
+          {t('common.cancel')}
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={isSubmitting || jobCount === 0}
+          className="bg-[#0e639c] hover:bg-[#1177bb] text-white"
+        >
+          {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {t('batch.enqueue')}
+        </Button>
+      </DialogFooter>
+    </DialogContent>
+  );
+}
@@ -0,0 +1,199 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2, XCircle } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { type ImageInfo } from './image-viewer';
+import { getThumbnailDisplayUrl } from '@/lib/image-api';
+import * as batchAPI from '@/lib/batch-api';
+
+interface BatchGridProps {
+  batches: batchAPI.Batch[];
+  refreshKey: number;
+  onSelectImage: (image: ImageInfo, images: ImageInfo[]) => void;
+}
+
+function GridCell({
+  job,
+  onSelect,
+}: {
+  job?: batchAPI.BatchJob;
+  onSelect: (image: batchAPI.BatchJobImage) => void;
+}) {
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const image = job?.images[0];
+  const filename = image?.filename;
+
+  useEffect(() => {
+    if (!filename) return;
+    let cancelled = false;
+    getThumbnailDisplayUrl(filename).then((url) => {
+      if (!cancelled) setImageUrl(url);
+    });
+    return () => { cancelled = true; };
+  }, [filename]);
+
+  if (!job) {
+    return <div className="aspect-square bg-[#1e1e1e]/40 rounded" />;
+  }
+
+  if (!image || !imageUrl) {
+    return (
+      <div
+        className="aspect-square bg-[#1e1e1e] rounded flex items-center justify-center"
+        title={job.error}
+      >
+        {job.status === 'failed' ? (
+          <XCircle className="h-4 w-4 text-red-400" />
+        ) : job.status === 'running' || image ? (
+          <Loader2 className="h-4 w-4 animate-spin text-[#888]" />
+        ) : null}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="aspect-square bg-[#1e1e1e] rounded overflow-hidden cursor-pointer hover:ring-2 hover:ring-[#0e639c]"
+      onClick={() => onSelect(image)}
+      title={job.labels.join(' / ')}
+    >
+      <img src={imageUrl} alt={image.id} className="w-full h-full object-cover" loading="lazy" />
+    </div>
+  );
+}
+
+// バッチの結果を X / Y（/ Z）のラベル付きグリッドで表示
+export function BatchGrid({ batches, refreshKey, onSelectImage }: BatchGridProps) {
+  const { t } = useTranslation();
+  const [selectedBatchId, setSelectedBatchId] = useState<string>('');
+  const [jobs, setJobs] = useState<batchAPI.BatchJob[]>([]);
+
+  // 未選択なら最新のバッチ
+  const batchId = selectedBatchId && batches.some((b) => b.id === selectedBatchId)
+    ? selectedBatchId
+    : batches[0]?.id ?? '';
+  const batch = batches.find((b) => b.id === batchId);
+
+  useEffect(() => {
+    if (!batchId) return;
+    let cancelled = false;
+    batchAPI.getBatchJobs(batchId)
+      .then((result) => { if (!cancelled) setJobs(result); })
+      .catch((error) => console.error('Failed to load batch jobs:', error));
+    return () => { cancelled = true; };
+  }, [batchId, refreshKey]);
+
+  // 座標 → ジョブ
+  const jobsByCoords = useMemo(() => {
+    const map = new Map<string, batchAPI.BatchJob>();
+    for (const job of jobs) {
+      map.set(job.coords.join(','), job);
+    }
+    return map;
+  }, [jobs]);
+
+  // ビューアーで前後移動できるようにグリッド内の画像を並べる
+  const gridImages = useMemo<ImageInfo[]>(() => jobs.flatMap((job) =>
+    job.images.map((image) => ({
+      id: image.id,
+      filename: image.filename,
+      createdAt: job.completedAt ?? '',
+      prompt: job.prompt,
+    }))
+  ), [jobs]);
+
+  if (batches.length === 0) {
+    return (
+      <div className="p-4 text-center text-xs text-[#888]">{t('batch.noBatches')}</div>
+    );
+  }
+
+  const axes = batch?.config.axes.filter((axis) => axis.values.length > 0) ?? [];
+  const [xAxis, yAxis, zAxis] = axes;
+  const xValues = xAxis?.values ?? [];
+  const yValues = yAxis?.values ?? [''];
+  const zValues = zAxis?.values ?? [''];
+
+  const axisName = (axis?: batchAPI.BatchAxis) =>
+    !axis ? '' : axis.type === 'variable' ? axis.name ?? '' : t(`batch.axis${axis.type === 'preset' ? 'Preset' : 'Seed'}`);
+
+  const handleSelect = (image: batchAPI.BatchJobImage) => {
+    const info = gridImages.find((img) => img.id === image.id);
+    if (info) onSelectImage(info, gridImages);
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex-shrink-0 px-3 py-2 border-b border-[#333] flex items-center gap-2">
+        <Select value={batchId} onValueChange={setSelectedBatchId}>
+          <SelectTrigger className="h-7 flex-1 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-[#252526] border-[#333]">
+            {batches.map((b) => (
+              <SelectItem
+                key={b.id}
+                value={b.id}
+                className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+              >
+                {b.templatePath.split('/').pop()} · {new Date(b.createdAt).toLocaleString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex-1 overflow-auto p-3 space-y-4">
+        {zValues.map((zValue, z) => (
+          <div key={z} className="space-y-1">
+            {zAxis && (
+              <div className="text-xs text-[#569cd6]">
+                {axisName(zAxis)}: {zValue}
+              </div>
+            )}
+            <div
+              className="grid gap-1 items-center"
+              style={{ gridTemplateColumns: `auto repeat(${xValues.length}, minmax(64px, 1fr))` }}
+            >
+              {/* X 軸ラベル */}
+              <div className="text-[10px] text-[#666]">
+                {axisName(yAxis)}{yAxis && ' \\ '}{axisName(xAxis)}
+              </div>
+              {xValues.map((xValue, x) => (
+                <div key={x} className="text-[10px] text-[#d4d4d4] text-center truncate" title={xValue}>
+                  {xValue}
+                </div>
+              ))}
+
+              {yValues.map((yValue, y) => (
+                <div key={y} className="contents">
+                  <div className="text-[10px] text-[#d4d4d4] pr-1 max-w-[96px] truncate" title={yValue}>
+                    {yValue}
+                  </div>
+                  {xValues.map((_, x) => {
+                    const coords = [x, ...(yAxis ? [y] : []), ...(zAxis ? [z] : [])];
+                    return (
+                      <GridCell
+                        key={x}
+                        job={jobsByCoords.get(coords.join(','))}
+                        onSelect={handleSelect}
+                      />
+                    );
+                  })}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import {
+  Pause,
+  Play,
+  Square,
+  RotateCcw,
+  Trash2,
+  ChevronRight,
+  ChevronDown,
+  Loader2,
+  CheckCircle2,
+  XCircle,
+  Circle,
+} from 'lucide-react';
+import * as batchAPI from '@/lib/batch-api';
+
+interface BatchQueueProps {
+  batches: batchAPI.Batch[];
+  runningJobId: string | null;
+  onAction: (batchId: string, action: batchAPI.BatchAction) => void;
+}
+
+function JobStatusIcon({ status }: { status: batchAPI.BatchJobStatus }) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-3 w-3 animate-spin text-[#569cd6] flex-shrink-0" />;
+    case 'completed':
+      return <CheckCircle2 className="h-3 w-3 text-green-500 flex-shrink-0" />;
+    case 'failed':
+      return <XCircle className="h-3 w-3 text-red-400 flex-shrink-0" />;
+    case 'cancelled':
+      return <XCircle className="h-3 w-3 text-[#666] flex-shrink-0" />;
+    default:
+      return <Circle className="h-3 w-3 text-[#666] flex-shrink-0" />;
+  }
+}
+
+// 1つのバッチ（展開するとジョブ一覧を表示）
+function BatchItem({
+  batch,
+  runningJobId,
+  onAction,
+}: {
+  batch: batchAPI.Batch;
+  runningJobId: string | null;
+  onAction: (action: batchAPI.BatchAction) => void;
+}) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState(false);
+  const [jobs, setJobs] = useState<batchAPI.BatchJob[]>([]);
+
+  // 展開中はカウントが変わるたびにジョブを読み直す
+  const countsKey = JSON.stringify(batch.counts);
+  useEffect(() => {
+    if (!expanded) return;
+    let cancelled = false;
+    batchAPI.getBatchJobs(batch.id)
+      .then((result) => { if (!cancelled) setJobs(result); })
+      .catch((error) => console.error('Failed to load batch jobs:', error));
+    return () => { cancelled = true; };
+  }, [expanded, batch.id, countsKey, runningJobId]);
+
+  const done = batch.counts.completed + batch.counts.failed + batch.counts.cancelled;
+  const percent = batch.total > 0 ? Math.round((done / batch.total) * 100) : 0;
+  const templateName = batch.templatePath.split('/').pop() || batch.templatePath;
+  const canRetry = batch.counts.failed > 0 || batch.counts.cancelled > 0;
+
+  return (
+    <div className="flex flex-col gap-1 p-2 rounded border border-[#333]">
+      <div className="flex items-center gap-1 min-w-0">
+        <button
+          className="flex items-center gap-1 min-w-0 flex-1 text-left"
+          onClick={() => setExpanded((prev) => !prev)}
+        >
+          {expanded ? (
+            <ChevronDown className="h-3 w-3 text-[#888] flex-shrink-0" />
+          ) : (
+            <ChevronRight className="h-3 w-3 text-[#888] flex-shrink-0" />
+          )}
+          <span className="text-xs text-[#d4d4d4] truncate" title={batch.templatePath}>
+            {templateName}
+          </span>
+        </button>
+        <span className="text-[10px] text-[#888] flex-shrink-0">
+          {t(`batch.status.${batch.status}`)}
+        </span>
+
+        {batch.status === 'running' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 text-[#888] hover:text-white"
+            onClick={() => onAction('pause')}
+            title={t('batch.pause')}
+          >
+            <Pause className="h-3 w-3" />
+          </Button>
+        )}
+        {batch.status === 'paused' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 text-[#888] hover:text-white"
+            onClick={() => onAction('resume')}
+            title={t('batch.resume')}
+          >
+            <Play className="h-3 w-3" />
+          </Button>
+        )}
+        {(batch.status === 'running' || batch.status === 'paused') && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 text-[#888] hover:text-white"
+            onClick={() => onAction('cancel')}
+            title={t('batch.cancel')}
+          >
+            <Square className="h-3 w-3" />
+          </Button>
+        )}
+        {(batch.status === 'completed' || batch.status === 'cancelled') && canRetry && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 text-[#888] hover:text-white"
+            onClick={() => onAction('retry')}
+            title={t('batch.retry')}
+          >
+            <RotateCcw className="h-3 w-3" />
+          </Button>
+        )}
+        {batch.status !== 'running' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 text-[#888] hover:text-red-400"
+            onClick={() => onAction('delete')}
+            title={t('common.delete')}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      {/* 進捗 */}
+      <div className="h-1 bg-[#3c3c3c] rounded overflow-hidden">
+        <div className="h-full bg-[#094771]" style={{ width: `${percent}%` }} />
+      </div>
+      <span className="text-[10px] text-[#888]">
+        {t('batch.progress', { done, total: batch.total })}
+        {batch.counts.failed > 0 && (
+          <span className="text-red-400"> · {t('batch.failedCount', { count: batch.counts.failed })}</span>
+        )}
+      </span>
+
+      {/* ジョブ一覧 */}
+      {expanded && (
+        <ul className="mt-1 space-y-0.5 max-h-48 overflow-y-auto">
+          {jobs.map((job) => (
+            <li key={job.id} className="flex items-center gap-1.5 text-[10px] min-w-0" title={job.error}>
+              <JobStatusIcon status={job.status} />
+              <span className="text-[#d4d4d4] truncate">{job.labels.join(' / ')}</span>
+              {job.error && <span className="text-red-400 truncate">{job.error}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// 生成パネルに表示するバッチキュー
+export function BatchQueue({ batches, runningJobId, onAction }: BatchQueueProps) {
+  const { t } = useTranslation();
+
+  if (batches.length === 0) return null;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <span className="text-xs uppercase text-[#666] font-medium">{t('batch.queue')}</span>
+      {batches.map((batch) => (
+        <BatchItem
+          key={batch.id}
+          batch={batch}
+          runningJobId={runningJobId}
+          onAction={(action) => onAction(batch.id, action)}
+        />
+      ))}
+    </div>
+  );
+}
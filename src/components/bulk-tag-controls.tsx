@@ -0,0 +1,73 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Tag } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { imageAPI } from '@/lib/image-api';
+
+interface BulkTagControlsProps {
+  imageIds: Set<string>;
+  onTagsChange: () => void;
+}
+
+// 選択中の画像にタグを付ける / 外す
+export function BulkTagControls({ imageIds, onTagsChange }: BulkTagControlsProps) {
+  const { t } = useTranslation();
+  const [tag, setTag] = useState('');
+
+  const handleBulkTag = useCallback(async (mode: 'add' | 'remove') => {
+    const name = tag.trim();
+    if (imageIds.size === 0 || !name) return;
+
+    try {
+      const ids = Array.from(imageIds);
+      if (mode === 'add') {
+        await imageAPI.addTags(ids, [name]);
+      } else {
+        await imageAPI.removeTags(ids, [name]);
+      }
+      setTag('');
+      onTagsChange();
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+    }
+  }, [tag, imageIds, onTagsChange]);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Input
+        value={tag}
+        onChange={(e) => setTag(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            handleBulkTag('add');
+          }
+        }}
+        placeholder={t('gallery.tagPlaceholder')}
+        className="h-6 w-28 px-1.5 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4] placeholder:text-[#888]"
+      />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-[#d4d4d4] hover:text-white hover:bg-[#3c3c3c]"
+        onClick={() => handleBulkTag('add')}
+        disabled={imageIds.size === 0 || !tag.trim()}
+      >
+        <Tag className="h-3 w-3 mr-1" />
+        {t('gallery.addTag')}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-[#d4d4d4] hover:text-white hover:bg-[#3c3c3c]"
+        onClick={() => handleBulkTag('remove')}
+        disabled={imageIds.size === 0 || !tag.trim()}
+      >
+        {t('gallery.removeTag')}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,283 @@
+'use client';
+
+import { useState, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FileArchive, FolderOutput, FolderPlus, Library, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  deleteCollection,
+  exportCollection,
+  getCollectionExportFileName,
+  type Collection,
+  type CollectionExportFormat,
+} from '@/lib/collection-api';
+
+const NEW_COLLECTION_VALUE = '__new__';
+const ALL_IMAGES_VALUE = '__all__';
+
+interface CollectionSelectProps {
+  collections: Collection[];
+  collectionId?: number; // 表示中のコレクション（undefined: すべての画像）
+  onSelect: (value: string) => void; // コレクションのID、'__all__' または '__new__'
+}
+
+// 表示するコレクションの選択（先頭にすべての画像、末尾に新規作成）
+export function CollectionSelect({ collections, collectionId, onSelect }: CollectionSelectProps) {
+  const { t } = useTranslation();
+  const isCollectionActive = collections.some((collection) => collection.id === collectionId);
+
+  return (
+    <Select value={collectionId !== undefined ? String(collectionId) : ALL_IMAGES_VALUE} onValueChange={onSelect}>
+      <SelectTrigger
+        className={`h-7 w-32 ml-2 text-xs bg-[#3c3c3c] border-[#555] ${isCollectionActive ? 'text-white' : 'text-[#d4d4d4]'}`}
+        title={t('collections.title')}
+      >
+        <Library className="h-3 w-3 flex-shrink-0 text-[#888]" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-[#252526] border-[#333]">
+        <SelectItem value={ALL_IMAGES_VALUE} className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+          {t('collections.allImages')}
+        </SelectItem>
+        {collections.map((collection) => (
+          <SelectItem
+            key={collection.id}
+            value={String(collection.id)}
+            className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+          >
+            {collection.name} ({collection.imageCount})
+          </SelectItem>
+        ))}
+        <SelectItem value={NEW_COLLECTION_VALUE} className="text-xs text-[#888] focus:bg-[#094771] focus:text-white">
+          {t('collections.new')}
+        </SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface CollectionBarProps {
+  collection: Collection;
+  showReorderHint: boolean;
+  onRename: () => void;
+  onDeleted: () => void;
+}
+
+// 表示中のコレクションの操作（名前変更・書き出し・削除）
+export function CollectionBar({ collection, showReorderHint, onRename, onDeleted }: CollectionBarProps) {
+  const { t } = useTranslation();
+
+  // フォルダ（画像 + manifest.json）または zip に書き出す
+  const handleExport = useCallback(async (format: CollectionExportFormat) => {
+    try {
+      const { open, save } = await import('@tauri-apps/plugin-dialog');
+      const destination = format === 'zip'
+        ? await save({
+          defaultPath: getCollectionExportFileName(collection.name),
+          filters: [{ name: 'ZIP', extensions: ['zip'] }],
+        })
+        : await open({ directory: true, multiple: false });
+      if (!destination || typeof destination !== 'string') return;
+
+      const result = await exportCollection(collection.id, format, destination);
+      const { showInfo } = await import('@/lib/dialog');
+      await showInfo([
+        t('collections.exportDone', { count: result.exported, path: result.path }),
+        result.missing > 0 ? t('collections.exportMissing', { count: result.missing }) : '',
+      ].filter(Boolean).join('\n'));
+    } catch (error) {
+      console.error('Failed to export collection:', error);
+      const { showError } = await import('@/lib/dialog');
+      await showError(t('collections.exportFailed'));
+    }
+  }, [collection, t]);
+
+  const handleDelete = useCallback(async () => {
+    const { showConfirm } = await import('@/lib/dialog');
+    if (!await showConfirm(t('collections.deleteConfirm', { name: collection.name }))) return;
+    try {
+      await deleteCollection(collection.id);
+      onDeleted();
+    } catch (error) {
+      console.error('Failed to delete collection:', error);
+    }
+  }, [collection, onDeleted, t]);
+
+  return (
+    <div className="flex-shrink-0 px-3 py-1.5 border-b border-[#333] flex items-center gap-2">
+      <Library className="h-3.5 w-3.5 text-[#0e639c]" />
+      <span className="text-xs text-white truncate">{collection.name}</span>
+      {showReorderHint && (
+        <span className="text-[10px] text-[#666] truncate">{t('collections.reorderHint')}</span>
+      )}
+      <div className="flex-1" />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+        onClick={onRename}
+        title={t('collections.rename')}
+      >
+        <Pencil className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+        onClick={() => handleExport('folder')}
+        disabled={collection.imageCount === 0}
+        title={t('collections.exportFolder')}
+      >
+        <FolderOutput className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+        onClick={() => handleExport('zip')}
+        disabled={collection.imageCount === 0}
+        title={t('collections.exportZip')}
+      >
+        <FileArchive className="h-3 w-3" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-[#888] hover:text-red-400 hover:bg-[#3c3c3c]"
+        onClick={handleDelete}
+        title={t('collections.delete')}
+      >
+        <Trash2 className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
+
+interface AddToCollectionSelectProps {
+  collections: Collection[];
+  excludeIds?: number[]; // 追加済みのコレクション
+  disabled?: boolean;
+  className?: string;
+  onSelect: (collectionId: number) => void;
+  onCreate: () => void;
+}
+
+// 「コレクションに追加」メニュー（末尾に新規作成）
+export function AddToCollectionSelect({
+  collections,
+  excludeIds = [],
+  disabled,
+  className,
+  onSelect,
+  onCreate,
+}: AddToCollectionSelectProps) {
+  const { t } = useTranslation();
+  const available = collections.filter((collection) => !excludeIds.includes(collection.id));
+
+  return (
+    <Select
+      value=""
+      onValueChange={(v) => {
+        if (v === NEW_COLLECTION_VALUE) {
+          onCreate();
+        } else {
+          onSelect(Number(v));
+        }
+      }}
+      disabled={disabled}
+    >
+      <SelectTrigger
+        className={`h-6 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4] ${className ?? 'w-36'}`}
+        title={t('collections.addTo')}
+      >
+        <FolderPlus className="h-3 w-3 flex-shrink-0 text-[#888]" />
+        <SelectValue placeholder={t('collections.addTo')} />
+      </SelectTrigger>
+      <SelectContent className="bg-[#252526] border-[#333]">
+        {available.map((collection) => (
+          <SelectItem
+            key={collection.id}
+            value={String(collection.id)}
+            className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+          >
+            {collection.name}
+          </SelectItem>
+        ))}
+        <SelectItem
+          value={NEW_COLLECTION_VALUE}
+          className="text-xs text-[#888] focus:bg-[#094771] focus:text-white"
+        >
+          {t('collections.new')}
+        </SelectItem>
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface CollectionNameDialogProps {
+  title: string;
+  initialName?: string;
+  onClose: () => void;
+  onSubmit: (name: string) => void;
+}
+
+// コレクション名の入力（作成・名前変更）。開くたびにマウントする
+export function CollectionNameDialog({ title, initialName = '', onClose, onSubmit }: CollectionNameDialogProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState(initialName);
+
+  const handleSubmit = () => {
+    if (name.trim()) onSubmit(name.trim());
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="bg-[#252526] border-[#333] text-[#d4d4d4]">
+        <DialogHeader>
+          <DialogTitle className="text-white">{title}</DialogTitle>
+        </DialogHeader>
+        <div className="py-2">
+          <Input
+            autoFocus
+            placeholder={t('collections.name')}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && !e.nativeEvent.isComposing && handleSubmit()}
+            className="bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
+          />
+        </div>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            className="bg-transparent border-[#555] text-[#d4d4d4] hover:bg-[#3c3c3c]"
+          >
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            className="bg-[#0e639c] hover:bg-[#1177bb] text-white"
+            disabled={!name.trim()}
+          >
+            {t('common.save')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
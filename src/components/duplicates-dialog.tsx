@@ -0,0 +1,289 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Heart, Star, Trash2, CheckCircle2 } from 'lucide-react';
+import { imageAPI, getThumbnailDisplayUrl, formatBytes } from '@/lib/image-api';
+import { fetchGallerySettings, saveGallerySettingsAsync } from '@/lib/storage';
+import type { DuplicateGroup, DuplicateImage } from '@/lib/duplicates';
+
+// 選べる最大ハミング距離（64ビット中）
+const DISTANCE_OPTIONS = [0, 2, 4, 6, 8, 10, 12, 16];
+// 一度に表示するグループ数
+const GROUP_PAGE_SIZE = 50;
+
+interface DuplicatesDialogProps {
+  onClose: () => void;
+  onTrashed: (ids: string[]) => void;
+}
+
+function DuplicateThumbnail({
+  image,
+  isKeeper,
+  onClick,
+}: {
+  image: DuplicateImage;
+  isKeeper: boolean;
+  onClick: () => void;
+}) {
+  const { t } = useTranslation();
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getThumbnailDisplayUrl(image.filename).then((url) => {
+      if (!cancelled) setImageUrl(url);
+    });
+    return () => { cancelled = true; };
+  }, [image.filename]);
+
+  return (
+    <button
+      className={`relative w-24 flex-shrink-0 text-left rounded overflow-hidden bg-[#1e1e1e] ${
+        isKeeper ? 'ring-2 ring-green-500' : 'opacity-70 hover:opacity-100'
+      }`}
+      onClick={onClick}
+      title={image.prompt}
+    >
+      <div className="aspect-square flex items-center justify-center">
+        {imageUrl ? (
+          <img src={imageUrl} alt={image.id} className="w-full h-full object-cover" />
+        ) : (
+          <Loader2 className="h-4 w-4 animate-spin text-[#888]" />
+        )}
+      </div>
+      {isKeeper && (
+        <span className="absolute top-1 left-1 px-1 rounded bg-green-600 text-[10px] text-white">
+          {t('duplicates.keep')}
+        </span>
+      )}
+      <div className="px-1 py-0.5 flex items-center gap-1 text-[10px] text-[#888]">
+        {image.favorite && <Heart className="h-2.5 w-2.5 fill-red-500 text-red-500" />}
+        {image.rating && (
+          <span className="flex items-center gap-0.5">
+            <Star className="h-2.5 w-2.5 fill-yellow-400 text-yellow-400" />
+            {image.rating}
+          </span>
+        )}
+        <span className="ml-auto">{image.fileSize ? formatBytes(image.fileSize) : ''}</span>
+      </div>
+    </button>
+  );
+}
+
+// 重複・類似画像の検出（グループごとに1枚を残して残りをゴミ箱へ）
+// 開くたびにマウントしてスキャンする
+export function DuplicatesDialog({ onClose, onTrashed }: DuplicatesDialogProps) {
+  const { t } = useTranslation();
+  const [maxDistance, setMaxDistance] = useState<number | null>(null);
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null);
+  // グループの先頭画像のID → 残す画像のID（未指定なら先頭）
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>({ done: 0, total: 0 });
+  const [isTrashing, setIsTrashing] = useState(false);
+  const [visibleGroupCount, setVisibleGroupCount] = useState(GROUP_PAGE_SIZE);
+
+  const scan = useCallback(async (distance: number) => {
+    setProgress({ done: 0, total: 0 });
+    try {
+      const { findDuplicateGroups } = await import('@/lib/duplicates');
+      setGroups(await findDuplicateGroups(distance, (done, total) => setProgress({ done, total })));
+      setKeepers({});
+      setVisibleGroupCount(GROUP_PAGE_SIZE);
+    } catch (error) {
+      console.error('Failed to find duplicates:', error);
+      setGroups([]);
+    } finally {
+      setProgress(null);
+    }
+  }, []);
+
+  // 保存済みの距離で最初のスキャン
+  useEffect(() => {
+    fetchGallerySettings().then(({ duplicateMaxDistance }) => {
+      setMaxDistance(duplicateMaxDistance);
+      scan(duplicateMaxDistance);
+    });
+  }, [scan]);
+
+  const handleDistanceChange = (value: string) => {
+    const distance = Number(value);
+    setMaxDistance(distance);
+    saveGallerySettingsAsync({ duplicateMaxDistance: distance });
+    scan(distance);
+  };
+
+  const getKeeperId = (group: DuplicateGroup) => keepers[group.images[0].id] ?? group.images[0].id;
+
+  // 指定したグループの残す画像以外をゴミ箱へ
+  const trashOthers = async (targets: DuplicateGroup[]) => {
+    const ids = targets.flatMap((group) => {
+      const keeperId = getKeeperId(group);
+      return group.images.filter((image) => image.id !== keeperId).map((image) => image.id);
+    });
+    if (ids.length === 0) return;
+
+    setIsTrashing(true);
+    try {
+      await imageAPI.bulkDelete(ids);
+      const trashedGroups = new Set(targets);
+      setGroups((prev) => prev?.filter((group) => !trashedGroups.has(group)) ?? null);
+      onTrashed(ids);
+    } catch (error) {
+      console.error('Failed to trash duplicates:', error);
+    } finally {
+      setIsTrashing(false);
+    }
+  };
+
+  const handleTrashAll = async () => {
+    if (!groups) return;
+    const count = groups.reduce((sum, group) => sum + group.images.length - 1, 0);
+    const { showConfirm } = await import('@/lib/dialog');
+    if (!await showConfirm(t('duplicates.confirmTrashAll', { count, groups: groups.length }))) return;
+    await trashOthers(groups);
+  };
+
+  const isBusy = progress !== null || isTrashing;
+  const extraImages = groups?.reduce((sum, group) => sum + group.images.length - 1, 0) ?? 0;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isTrashing && onClose()}>
+      <DialogContent className="!max-w-4xl w-[90vw] h-[80vh] flex flex-col bg-[#252526] border-[#454545] text-[#d4d4d4]">
+        <DialogHeader>
+          <DialogTitle className="text-white">{t('duplicates.title')}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-[#888]">{t('duplicates.distance')}</span>
+          <Select
+            value={maxDistance !== null ? String(maxDistance) : undefined}
+            onValueChange={handleDistanceChange}
+            disabled={isBusy}
+          >
+            <SelectTrigger className="h-7 w-40 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-[#252526] border-[#333]">
+              {DISTANCE_OPTIONS.map((distance) => (
+                <SelectItem
+                  key={distance}
+                  value={String(distance)}
+                  className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+                >
+                  {distance === 0 ? t('duplicates.distanceIdentical') : t('duplicates.distanceBits', { count: distance })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex-1" />
+          {groups && groups.length > 0 && (
+            <>
+              <span className="text-[#888]">
+                {t('duplicates.summary', { groups: groups.length, count: extraImages })}
+              </span>
+              <Button
+                size="sm"
+                className="h-7 text-xs bg-[#0e639c] hover:bg-[#1177bb] text-white"
+                onClick={handleTrashAll}
+                disabled={isBusy}
+              >
+                {t('duplicates.keepBestAll')}
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto space-y-3">
+          {progress ? (
+            <div className="flex items-center gap-2 text-xs text-[#888]">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>
+                {progress.total > 0
+                  ? t('duplicates.hashing', { done: progress.done, total: progress.total })
+                  : t('duplicates.scanning')}
+              </span>
+            </div>
+          ) : groups && groups.length === 0 ? (
+            <div className="flex items-center gap-2 text-xs text-green-400">
+              <CheckCircle2 className="h-4 w-4" />
+              <span>{t('duplicates.none')}</span>
+            </div>
+          ) : (
+            <>
+              {groups?.slice(0, visibleGroupCount).map((group) => {
+                const keeperId = getKeeperId(group);
+                return (
+                  <div key={group.images[0].id} className="border border-[#333] rounded p-2 space-y-2">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="text-[#888] flex-1 truncate">
+                        {t('duplicates.groupSize', { count: group.images.length })}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-red-400 hover:text-red-300 hover:bg-red-900/30"
+                        onClick={() => trashOthers([group])}
+                        disabled={isBusy}
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        {t('duplicates.trashOthers')}
+                      </Button>
+                    </div>
+                    <div className="flex gap-2 overflow-x-auto pb-1">
+                      {group.images.map((image) => (
+                        <DuplicateThumbnail
+                          key={image.id}
+                          image={image}
+                          isKeeper={image.id === keeperId}
+                          onClick={() => setKeepers((prev) => ({ ...prev, [group.images[0].id]: image.id }))}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              {groups && groups.length > visibleGroupCount && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full h-7 text-xs text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+                  onClick={() => setVisibleGroupCount((prev) => prev + GROUP_PAGE_SIZE)}
+                >
+                  {t('duplicates.showMore', { count: groups.length - visibleGroupCount })}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="flex-1 text-[10px] text-[#666]">{t('duplicates.hint')}</span>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isTrashing}
+            className="bg-transparent border-[#555] text-[#d4d4d4] hover:bg-[#3c3c3c]"
+          >
+            {t('common.close')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,276 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { imageAPI, type ImageDetail } from '@/lib/image-api';
+import { fetchGallerySettings, saveGallerySettingsAsync } from '@/lib/storage';
+import {
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  FILENAME_TEMPLATE_TOKENS,
+  canEncodeImageFormat,
+  renderExportFileName,
+  type ImageExportOptions,
+  type ImageExportFormat,
+  type ImageExportSidecar,
+  type ImageExportDestination,
+} from '@/lib/image-export';
+
+// 長辺の上限の選択肢（0: 元のサイズ）
+const MAX_SIZE_OPTIONS = [0, 512, 768, 1024, 1536, 2048];
+const FORMAT_OPTIONS: ImageExportFormat[] = ['original', 'png', 'jpeg', 'webp'];
+const SIDECAR_OPTIONS: ImageExportSidecar[] = ['none', 'json', 'txt', 'csv'];
+const DESTINATION_OPTIONS: ImageExportDestination[] = ['folder', 'zip'];
+
+const SELECT_ITEM_CLASS = 'text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white';
+
+interface ExportImagesDialogProps {
+  imageIds: string[];
+  onClose: () => void;
+}
+
+// 選択した画像の書き出し（ファイル名テンプレート・形式変換・縮小・サイドカー）
+// 開くたびにマウントして前回の設定を読み込む
+export function ExportImagesDialog({ imageIds, onClose }: ExportImagesDialogProps) {
+  const { t } = useTranslation();
+  const [options, setOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+  // ファイル名のプレビューに使う先頭の画像
+  const [previewDetail, setPreviewDetail] = useState<ImageDetail | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [canEncodeWebp] = useState(() => canEncodeImageFormat('webp'));
+
+  useEffect(() => {
+    fetchGallerySettings().then(({ exportOptions }) => {
+      if (exportOptions) setOptions({ ...DEFAULT_IMAGE_EXPORT_OPTIONS, ...exportOptions });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (imageIds.length === 0) return;
+    imageAPI.getDetail(imageIds[0]).then(setPreviewDetail).catch((error) => {
+      console.error('Failed to load image detail:', error);
+    });
+  }, [imageIds]);
+
+  const update = <K extends keyof ImageExportOptions>(key: K, value: ImageExportOptions[K]) => {
+    setOptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const previewName = useMemo(() => {
+    if (!previewDetail) return null;
+    const name = renderExportFileName(options.filenameTemplate, previewDetail, 0, imageIds.length);
+    const ext = options.format === 'original'
+      ? previewDetail.filename.substring(previewDetail.filename.lastIndexOf('.') + 1)
+      : options.format === 'jpeg' ? 'jpg' : options.format;
+    return `${name}.${ext}`;
+  }, [previewDetail, options.filenameTemplate, options.format, imageIds.length]);
+
+  const handleExport = async () => {
+    try {
+      const { open, save } = await import('@tauri-apps/plugin-dialog');
+      const destination = options.destination === 'zip'
+        ? await save({
+          defaultPath: 'imaginr-export.zip',
+          filters: [{ name: 'ZIP', extensions: ['zip'] }],
+        })
+        : await open({ directory: true, multiple: false });
+      if (!destination || typeof destination !== 'string') return;
+
+      saveGallerySettingsAsync({ exportOptions: options });
+      setProgress({ done: 0, total: imageIds.length });
+      const { exportImages } = await import('@/lib/image-export');
+      const result = await exportImages(imageIds, options, destination, (done, total) => setProgress({ done, total }));
+
+      const { showInfo } = await import('@/lib/dialog');
+      await showInfo([
+        t('export.done', { count: result.exported, path: result.path }),
+        result.missing > 0 ? t('export.missing', { count: result.missing }) : '',
+      ].filter(Boolean).join('\n'));
+      onClose();
+    } catch (error) {
+      console.error('Failed to export images:', error);
+      const { showError } = await import('@/lib/dialog');
+      await showError(`${t('export.failed')}\n${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const isBusy = progress !== null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="sm:max-w-lg bg-[#252526] border-[#454545] text-[#d4d4d4]">
+        <DialogHeader>
+          <DialogTitle className="text-white">{t('export.title', { count: imageIds.length })}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 text-xs">
+          {/* 書き出し先 */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t('export.destination')}</Label>
+              <Select
+                value={options.destination}
+                onValueChange={(value) => update('destination', value as ImageExportDestination)}
+                disabled={isBusy}
+              >
+                <SelectTrigger className="h-8 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#252526] border-[#333]">
+                  {DESTINATION_OPTIONS.map((destination) => (
+                    <SelectItem key={destination} value={destination} className={SELECT_ITEM_CLASS}>
+                      {t(`export.destinations.${destination}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t('export.sidecar')}</Label>
+              <Select
+                value={options.sidecar}
+                onValueChange={(value) => update('sidecar', value as ImageExportSidecar)}
+                disabled={isBusy}
+              >
+                <SelectTrigger className="h-8 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#252526] border-[#333]">
+                  {SIDECAR_OPTIONS.map((sidecar) => (
+                    <SelectItem key={sidecar} value={sidecar} className={SELECT_ITEM_CLASS}>
+                      {t(`export.sidecars.${sidecar}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {/* ファイル名 */}
+          <div className="space-y-1.5">
+            <Label htmlFor="export-filename-template" className="text-xs">{t('export.filenameTemplate')}</Label>
+            <Input
+              id="export-filename-template"
+              value={options.filenameTemplate}
+              onChange={(e) => update('filenameTemplate', e.target.value)}
+              placeholder={DEFAULT_IMAGE_EXPORT_OPTIONS.filenameTemplate}
+              disabled={isBusy}
+              className="h-8 text-xs font-mono bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
+            />
+            <div className="flex flex-wrap gap-1">
+              {FILENAME_TEMPLATE_TOKENS.map((token) => (
+                <button
+                  key={token}
+                  className="px-1.5 py-0.5 rounded bg-[#3c3c3c] font-mono text-[10px] text-[#9cdcfe] hover:bg-[#4a4a4a] disabled:opacity-50"
+                  onClick={() => update('filenameTemplate', `${options.filenameTemplate}{${token}}`)}
+                  disabled={isBusy}
+                  title={t(`export.tokens.${token}`)}
+                >
+                  {`{${token}}`}
+                </button>
+              ))}
+            </div>
+            {previewName && (
+              <p className="text-[#888] truncate">
+                {t('export.preview')}: <span className="font-mono text-[#d4d4d4]">{previewName}</span>
+              </p>
+            )}
+          </div>
+
+          {/* 形式・サイズ */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t('export.format')}</Label>
+              <Select
+                value={options.format}
+                onValueChange={(value) => update('format', value as ImageExportFormat)}
+                disabled={isBusy}
+              >
+                <SelectTrigger className="h-8 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#252526] border-[#333]">
+                  {FORMAT_OPTIONS.map((format) => (
+                    <SelectItem
+                      key={format}
+                      value={format}
+                      disabled={format === 'webp' && !canEncodeWebp}
+                      className={SELECT_ITEM_CLASS}
+                    >
+                      {t(`export.formats.${format}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">{t('export.maxSize')}</Label>
+              <Select
+                value={String(options.maxSize)}
+                onValueChange={(value) => update('maxSize', Number(value))}
+                disabled={isBusy}
+              >
+                <SelectTrigger className="h-8 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-[#252526] border-[#333]">
+                  {MAX_SIZE_OPTIONS.map((size) => (
+                    <SelectItem key={size} value={String(size)} className={SELECT_ITEM_CLASS}>
+                      {size === 0 ? t('export.originalSize') : t('export.maxSizePx', { size })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {options.format === 'jpeg' && (
+            <p className="text-[#888]">{t('export.jpegNoMetadata')}</p>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {progress && (
+            <span className="flex-1 flex items-center gap-2 text-xs text-[#888]">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              {t('export.progress', { done: progress.done, total: progress.total })}
+            </span>
+          )}
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isBusy}
+            className="bg-transparent border-[#555] text-[#d4d4d4] hover:bg-[#3c3c3c]"
+          >
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleExport}
+            disabled={isBusy || imageIds.length === 0 || !options.filenameTemplate.trim()}
+            className="bg-[#0e639c] hover:bg-[#1177bb] text-white"
+          >
+            {t('export.export')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
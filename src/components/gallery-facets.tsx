@@ -0,0 +1,151 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronRight, Check } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { imageAPI, type AttributeFacet, type FacetKey, type ImageFilter } from '@/lib/image-api';
+
+interface GalleryFacetsProps {
+  query: string;
+  filter: ImageFilter;
+  refreshKey: number; // 画像の追加・削除で増える
+  onFilterChange: (filter: ImageFilter) => void;
+}
+
+// ギャラリーの属性ファセット（YAMLのキーと値の出現数）
+export function GalleryFacets({ query, filter, refreshKey, onFilterChange }: GalleryFacetsProps) {
+  const { t } = useTranslation();
+  const [facets, setFacets] = useState<FacetKey[]>([]);
+  const [collapsedKeys, setCollapsedKeys] = useState<Set<string>>(new Set());
+
+  const selection = filter.facets ?? [];
+  const facetMode = filter.facetMode ?? 'and';
+
+  // 検索語・絞り込みが変わったら数え直す（入力中の連続実行を避ける）
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      imageAPI.getFacets(query || undefined, filter)
+        .then((result) => { if (!cancelled) setFacets(result); })
+        .catch((error) => console.error('Failed to load facets:', error));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, filter, refreshKey]);
+
+  const isSelected = (key: string, value: string) =>
+    selection.some((facet) => facet.key === key && facet.values.includes(value));
+
+  const handleToggleValue = (key: string, value: string) => {
+    const current = selection.find((facet) => facet.key === key);
+    let next: AttributeFacet[];
+    if (!current) {
+      next = [...selection, { key, values: [value] }];
+    } else {
+      const values = current.values.includes(value)
+        ? current.values.filter((v) => v !== value)
+        : [...current.values, value];
+      next = values.length > 0
+        ? selection.map((facet) => facet.key === key ? { key, values } : facet)
+        : selection.filter((facet) => facet.key !== key);
+    }
+    onFilterChange({ ...filter, facets: next.length > 0 ? next : undefined });
+  };
+
+  const handleToggleCollapse = (key: string) => {
+    setCollapsedKeys((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="flex-shrink-0 px-2 py-1.5 border-b border-[#333] flex items-center gap-1">
+        <span className="text-xs uppercase text-[#666] font-medium flex-1">{t('gallery.facets')}</span>
+        {/* キー同士の組み合わせ（AND / OR） */}
+        <div className="flex rounded overflow-hidden border border-[#555]" title={t('gallery.facetModeDescription')}>
+          {(['and', 'or'] as const).map((mode) => (
+            <button
+              key={mode}
+              className={`px-1.5 text-[10px] uppercase ${
+                facetMode === mode ? 'bg-[#094771] text-white' : 'text-[#888] hover:text-white'
+              }`}
+              onClick={() => onFilterChange({ ...filter, facetMode: mode })}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        {selection.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 px-1.5 text-[10px] text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+            onClick={() => onFilterChange({ ...filter, facets: undefined })}
+          >
+            {t('gallery.clearFilter')}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-1">
+        {facets.length === 0 ? (
+          <div className="p-3 text-center text-[10px] text-[#666]">{t('gallery.noFacets')}</div>
+        ) : (
+          facets.map((facet) => {
+            const collapsed = collapsedKeys.has(facet.key);
+            return (
+              <div key={facet.key} className="px-1 mb-1">
+                <button
+                  className="w-full flex items-center gap-1 px-1 py-0.5 text-left rounded hover:bg-[#2a2d2e]"
+                  onClick={() => handleToggleCollapse(facet.key)}
+                  title={facet.key}
+                >
+                  {collapsed ? (
+                    <ChevronRight className="h-3 w-3 text-[#888] flex-shrink-0" />
+                  ) : (
+                    <ChevronDown className="h-3 w-3 text-[#888] flex-shrink-0" />
+                  )}
+                  <span className="text-[11px] text-[#569cd6] truncate">{facet.key}</span>
+                </button>
+                {!collapsed && (
+                  <ul>
+                    {facet.values.map(({ value, count }) => {
+                      const selected = isSelected(facet.key, value);
+                      return (
+                        <li key={value}>
+                          <button
+                            className={`w-full flex items-center gap-1 pl-5 pr-1 py-0.5 text-left rounded ${
+                              selected ? 'bg-[#094771]/60' : 'hover:bg-[#2a2d2e]'
+                            }`}
+                            onClick={() => handleToggleValue(facet.key, value)}
+                            title={value}
+                          >
+                            <span className="w-3 flex-shrink-0">
+                              {selected && <Check className="h-3 w-3 text-white" />}
+                            </span>
+                            <span className="text-[11px] text-[#d4d4d4] truncate flex-1">{value}</span>
+                            <span className="text-[10px] text-[#888] flex-shrink-0">{count}</span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+'use client';
+
+import { useTranslation } from 'react-i18next';
+import { Heart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ImageFilter, PaginationParams, TagInfo } from '@/lib/image-api';
+
+type GallerySortBy = NonNullable<PaginationParams['sortBy']>;
+
+// お気に入り・評価・タグの絞り込み、または評価順の並びが有効か
+// （属性ファセットとコレクションは別の UI で表示する）
+export function isGalleryFilterActive(filter: ImageFilter, sortBy: GallerySortBy): boolean {
+  return !!(filter.favoriteOnly || filter.minRating || filter.tag)
+    || (sortBy !== 'createdAt' && sortBy !== 'manual');
+}
+
+interface GalleryFilterBarProps {
+  filter: ImageFilter;
+  sortBy: GallerySortBy;
+  tags: TagInfo[];
+  canSortManually: boolean; // コレクション表示中のみ手動の並び順を選べる
+  onFilterChange: (filter: ImageFilter) => void;
+  onSortByChange: (sortBy: GallerySortBy) => void;
+}
+
+// ギャラリーの絞り込みバー（お気に入り・評価・タグ・並び順）
+export function GalleryFilterBar({
+  filter,
+  sortBy,
+  tags,
+  canSortManually,
+  onFilterChange,
+  onSortByChange,
+}: GalleryFilterBarProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="flex-shrink-0 px-3 py-2 border-b border-[#333] flex items-center gap-2">
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`h-6 px-2 text-xs ${filter.favoriteOnly ? 'text-white bg-[#0e639c]/20' : 'text-[#888]'} hover:text-white hover:bg-[#3c3c3c]`}
+        onClick={() => onFilterChange({ ...filter, favoriteOnly: !filter.favoriteOnly })}
+      >
+        <Heart className={`h-3 w-3 mr-1 ${filter.favoriteOnly ? 'fill-red-500 text-red-500' : ''}`} />
+        {t('gallery.favoritesOnly')}
+      </Button>
+      <Select
+        value={filter.minRating ? String(filter.minRating) : 'any'}
+        onValueChange={(v) => onFilterChange({ ...filter, minRating: v === 'any' ? undefined : Number(v) })}
+      >
+        <SelectTrigger className="h-6 w-28 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-[#252526] border-[#333]">
+          <SelectItem value="any" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+            {t('gallery.anyRating')}
+          </SelectItem>
+          {[1, 2, 3, 4, 5].map((value) => (
+            <SelectItem
+              key={value}
+              value={String(value)}
+              className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+            >
+              {t('gallery.minRating', { rating: value })}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select
+        value={filter.tag ?? '__all__'}
+        onValueChange={(v) => onFilterChange({ ...filter, tag: v === '__all__' ? undefined : v })}
+      >
+        <SelectTrigger className="h-6 w-32 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-[#252526] border-[#333]">
+          <SelectItem value="__all__" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+            {t('gallery.allTags')}
+          </SelectItem>
+          {tags.map((tag) => (
+            <SelectItem
+              key={tag.name}
+              value={tag.name}
+              className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+            >
+              {tag.name} ({tag.count})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={sortBy} onValueChange={(v) => onSortByChange(v as GallerySortBy)}>
+        <SelectTrigger className="h-6 w-28 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-[#252526] border-[#333]">
+          <SelectItem value="createdAt" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+            {t('gallery.sortByDate')}
+          </SelectItem>
+          <SelectItem value="rating" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+            {t('gallery.sortByRating')}
+          </SelectItem>
+          {canSortManually && (
+            <SelectItem value="manual" className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white">
+              {t('collections.sortManual')}
+            </SelectItem>
+          )}
+        </SelectContent>
+      </Select>
+      <div className="flex-1" />
+      {isGalleryFilterActive(filter, sortBy) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+          onClick={() => {
+            // 属性ファセットはサイドバー側で解除する
+            onFilterChange({ facets: filter.facets, facetMode: filter.facetMode, collectionId: filter.collectionId });
+            onSortByChange(canSortManually ? 'manual' : 'createdAt');
+          }}
+        >
+          {t('gallery.clearFilter')}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, Bookmark, BookmarkPlus, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import * as collectionAPI from '@/lib/collection-api';
+import { parseGalleryQuery } from '@/lib/gallery-query';
+
+interface GallerySearchBarProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  showSavedSearches: boolean; // 保存した検索の選択・保存ボタンを表示する
+}
+
+// ギャラリーの検索ボックスと保存した検索（スマートコレクション）
+export function GallerySearchBar({ query, onQueryChange, showSavedSearches }: GallerySearchBarProps) {
+  const { t } = useTranslation();
+  const [smartCollections, setSmartCollections] = useState<collectionAPI.SmartCollection[]>([]);
+  const [isSaveSearchOpen, setIsSaveSearchOpen] = useState(false);
+  const [saveSearchName, setSaveSearchName] = useState('');
+
+  // 検索クエリの構文エラー
+  const queryError = useMemo(() => parseGalleryQuery(query).errors[0] ?? null, [query]);
+
+  // スマートコレクション
+  const loadSmartCollections = useCallback(async () => {
+    try {
+      setSmartCollections(await collectionAPI.getSmartCollections());
+    } catch (error) {
+      console.error('Failed to load smart collections:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSmartCollections();
+  }, [loadSmartCollections]);
+
+  const activeSmartCollection = smartCollections.find((c) => c.query === query.trim()) ?? null;
+
+  const handleSaveSearch = useCallback(async () => {
+    const name = saveSearchName.trim();
+    if (!name || !query.trim()) return;
+    try {
+      await collectionAPI.saveSmartCollection(name, query.trim());
+      setIsSaveSearchOpen(false);
+      setSaveSearchName('');
+      await loadSmartCollections();
+    } catch (error) {
+      console.error('Failed to save search:', error);
+    }
+  }, [saveSearchName, query, loadSmartCollections]);
+
+  const handleDeleteSmartCollection = useCallback(async (collection: collectionAPI.SmartCollection) => {
+    const { showConfirm } = await import('@/lib/dialog');
+    if (!await showConfirm(t('gallery.deleteSmartCollectionConfirm', { name: collection.name }))) return;
+    try {
+      await collectionAPI.deleteSmartCollection(collection.id);
+      await loadSmartCollections();
+    } catch (error) {
+      console.error('Failed to delete smart collection:', error);
+    }
+  }, [loadSmartCollections, t]);
+
+  return (
+    <>
+      {/* スマートコレクション（保存した検索） */}
+      {showSavedSearches && smartCollections.length > 0 && (
+        <Select
+          value={activeSmartCollection ? String(activeSmartCollection.id) : ''}
+          onValueChange={(v) => {
+            const collection = smartCollections.find((c) => String(c.id) === v);
+            if (collection) onQueryChange(collection.query);
+          }}
+        >
+          <SelectTrigger
+            className="h-7 w-32 ml-2 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
+            title={t('gallery.smartCollections')}
+          >
+            <Bookmark className="h-3 w-3 flex-shrink-0 text-[#888]" />
+            <SelectValue placeholder={t('gallery.smartCollections')} />
+          </SelectTrigger>
+          <SelectContent className="bg-[#252526] border-[#333]">
+            {smartCollections.map((collection) => (
+              <SelectItem
+                key={collection.id}
+                value={String(collection.id)}
+                className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+              >
+                {collection.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      <div className="relative ml-2">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-[#888]" />
+        <Input
+          value={query}
+          onChange={(e) => onQueryChange(e.target.value)}
+          placeholder={t('common.search')}
+          title={t('gallery.queryHelp')}
+          className={`w-40 pl-7 pr-6 h-7 text-xs bg-[#3c3c3c] text-[#d4d4d4] placeholder:text-[#888] ${
+            queryError ? 'border-red-500' : 'border-[#555]'
+          }`}
+        />
+        {query && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="absolute right-0.5 top-1/2 -translate-y-1/2 h-5 w-5 p-0 text-[#888] hover:text-white"
+            onClick={() => onQueryChange('')}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      {showSavedSearches && (
+        <>
+          {/* 検索の保存・削除 */}
+          {activeSmartCollection ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-[#0e639c] hover:text-red-400 hover:bg-[#3c3c3c]"
+              onClick={() => handleDeleteSmartCollection(activeSmartCollection)}
+              title={t('gallery.deleteSmartCollection')}
+            >
+              <Bookmark className="h-3.5 w-3.5 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+              onClick={() => setIsSaveSearchOpen(true)}
+              disabled={!query.trim() || !!queryError}
+              title={t('gallery.saveSearch')}
+            >
+              <BookmarkPlus className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </>
+      )}
+
+      {/* 検索の保存ダイアログ */}
+      <Dialog open={isSaveSearchOpen} onOpenChange={setIsSaveSearchOpen}>
+        <DialogContent className="bg-[#252526] border-[#333] text-[#d4d4d4]">
+          <DialogHeader>
+            <DialogTitle className="text-white">{t('gallery.saveSearch')}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Input
+              autoFocus
+              placeholder={t('gallery.smartCollectionName')}
+              value={saveSearchName}
+              onChange={(e) => setSaveSearchName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && !e.nativeEvent.isComposing && handleSaveSearch()}
+              className="bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
+            />
+            <pre className="text-xs font-mono text-[#888] whitespace-pre-wrap">{query}</pre>
+          </div>
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => setIsSaveSearchOpen(false)}
+              className="bg-transparent border-[#555] text-[#d4d4d4] hover:bg-[#3c3c3c]"
+            >
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={handleSaveSearch}
+              className="bg-[#0e639c] hover:bg-[#1177bb] text-white"
+              disabled={!saveSearchName.trim()}
+            >
+              {t('common.save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface GalleryQueryErrorProps {
+  query: string;
+}
+
+// 検索クエリの構文エラー（エラーがなければ何も表示しない）
+export function GalleryQueryError({ query }: GalleryQueryErrorProps) {
+  const { t } = useTranslation();
+  const error = useMemo(() => parseGalleryQuery(query).errors[0] ?? null, [query]);
+
+  if (!error) return null;
+
+  return (
+    <div className="flex-shrink-0 px-3 py-1 border-b border-[#333] flex items-center gap-1.5 text-xs text-red-400">
+      <AlertCircle className="h-3 w-3 flex-shrink-0" />
+      <span className="truncate">
+        {t(`gallery.queryError.${error.code}`, { token: error.token })}
+      </span>
+    </div>
+  );
+}
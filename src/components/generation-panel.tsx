@@ -2,7 +2,7 @@
 
 import { useState, useCallback, useEffect, useMemo } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Play, Loader2, AlertCircle, X, Sparkles } from 'lucide-react';
+import { Play, Loader2, AlertCircle, X, Sparkles, Grid3x3, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Input } from '@/components/ui/input';
@@ -13,6 +13,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { BatchQueue } from './batch-queue';
 import {
   fetchComfyUISettings,
   loadComfyUISettings,
@@ -25,6 +26,52 @@ import {
   type OllamaSettings,
   type EnhancerPreset,
 } from '@/lib/storage';
+import type { GenerationProgress } from '@/lib/comfyui-api';
+import type { Batch, BatchAction } from '@/lib/batch-api';
+import type { GenerationOverrides } from '@/lib/template-generation';
+
+// 生成の進捗（キュー位置・実行中のノード・ステップ・プレビュー）
+function GenerationProgressView({ progress }: { progress: GenerationProgress }) {
+  const { t } = useTranslation();
+
+  let label: string;
+  if (progress.status === 'connecting') {
+    label = t('generation.connecting');
+  } else if (progress.status === 'queued') {
+    label = progress.queuePosition
+      ? t('generation.queuedAt', { position: progress.queuePosition })
+      : t('generation.queued');
+  } else {
+    label = progress.currentNode ?? t('generation.generating');
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2 text-xs min-w-0">
+        <span className="text-[#d4d4d4] truncate" title={label}>{label}</span>
+        {progress.step !== undefined && progress.maxSteps !== undefined && (
+          <span className="text-[#888] flex-shrink-0">
+            {t('generation.steps', { step: progress.step, max: progress.maxSteps })}
+          </span>
+        )}
+      </div>
+      <div className="h-1.5 bg-[#3c3c3c] rounded overflow-hidden">
+        {progress.progress !== undefined ? (
+          <div className="h-full bg-[#094771] transition-[width]" style={{ width: `${progress.progress}%` }} />
+        ) : (
+          <div className="h-full w-1/3 bg-[#094771]/60 animate-pulse" />
+        )}
+      </div>
+      {progress.previewUrl && (
+        <img
+          src={progress.previewUrl}
+          alt={t('generation.preview')}
+          className="w-full rounded border border-[#333] bg-[#1e1e1e]"
+        />
+      )}
+    </div>
+  );
+}
 
 interface GenerationPanelProps {
   // 現在のファイル名
@@ -40,6 +87,8 @@ interface GenerationPanelProps {
   isGenerating: boolean;
   isEnhancing: boolean;
   onGenerate: () => void;
+  onCancelGeneration: () => void;
+  generationProgress: GenerationProgress | null;
   generationError: string | null;
   onClearError: () => void;
 
@@ -50,12 +99,20 @@ interface GenerationPanelProps {
   // プロパティ上書き
   overrideValues: Record<string, string | number>;
   onOverrideValuesChange: (values: Record<string, string | number>) => void;
+  // テンプレートの _generation で決まる上書き値（入力より優先）
+  templateOverrides?: GenerationOverrides;
 
   // ワークフロー変更通知
   onWorkflowChange?: () => void;
 
   // プリセット変更通知
   onPresetChange?: () => void;
+
+  // バッチ生成
+  batches: Batch[];
+  runningBatchJobId: string | null;
+  onOpenBatch: () => void;
+  onBatchAction: (batchId: string, action: BatchAction) => void;
 }
 
 export function GenerationPanel({
@@ -67,14 +124,21 @@ export function GenerationPanel({
   isGenerating,
   isEnhancing,
   onGenerate,
+  onCancelGeneration,
+  generationProgress,
   generationError,
   onClearError,
   canGenerate,
   canEnhance,
   overrideValues,
   onOverrideValuesChange,
+  templateOverrides,
   onWorkflowChange,
   onPresetChange,
+  batches,
+  runningBatchJobId,
+  onOpenBatch,
+  onBatchAction,
 }: GenerationPanelProps) {
   const { t } = useTranslation();
 
@@ -269,13 +333,16 @@ export function GenerationPanel({
               <span className="text-xs uppercase text-[#666] font-medium">{t('generation.properties')}</span>
               {overrides.map((override, index) => {
                 const key = `${override.nodeId}.${override.property}`;
-                const currentValue = overrideValues[key] ?? override.value;
+                const templateValue = templateOverrides?.values[key];
+                const currentValue = templateValue ?? overrideValues[key] ?? override.value;
                 return (
                   <div key={key} className="flex flex-col gap-1">
                     <label className="text-xs text-[#d4d4d4]">{override.property}</label>
                     <Input
                       value={String(currentValue)}
                       onChange={(e) => handleOverrideChange(index, e.target.value)}
+                      disabled={templateValue !== undefined}
+                      title={templateValue !== undefined ? t('generation.fromTemplate') : undefined}
                       className="h-7 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
                     />
                   </div>
@@ -283,14 +350,35 @@ export function GenerationPanel({
               })}
             </div>
           )}
+          {templateOverrides && templateOverrides.unmatched.length > 0 && (
+            <p className="text-xs text-yellow-500 mt-1">
+              {t('generation.unmatchedTemplateSettings', { keys: templateOverrides.unmatched.join(', ') })}
+            </p>
+          )}
         </div>
 
+        {/* 生成の進捗 */}
+        {generationProgress && (
+          <>
+            <div className="border-t border-[#333]" />
+            <GenerationProgressView progress={generationProgress} />
+          </>
+        )}
+
+        {/* バッチキュー */}
+        {batches.length > 0 && (
+          <>
+            <div className="border-t border-[#333]" />
+            <BatchQueue batches={batches} runningJobId={runningBatchJobId} onAction={onBatchAction} />
+          </>
+        )}
+
         {/* エラー表示 */}
         {generationError && (
           <div className="flex items-start gap-2 p-2 bg-red-900/20 border border-red-900/50 rounded text-xs text-red-400">
             <AlertCircle className="h-4 w-4 flex-shrink-0 mt-0.5" />
             <div className="flex-1 min-w-0">
-              <p className="break-words">{generationError}</p>
+              <p className="break-words whitespace-pre-line">{generationError}</p>
             </div>
             <Button
               variant="ghost"
@@ -328,24 +416,38 @@ export function GenerationPanel({
           </Button>
         )}
 
-        {/* Generateボタン */}
-        <Button
-          className="w-full h-9 bg-[#094771] hover:bg-[#0e5a8a] text-white disabled:opacity-50"
-          onClick={onGenerate}
-          disabled={!canGenerate || !selectedWorkflowId || isEnhancing}
-        >
+        {/* Generateボタン・バッチボタン */}
+        <div className="flex gap-2">
           {isGenerating ? (
-            <>
-              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-              {t('generation.generating')}
-            </>
+            // 生成中はキャンセルボタン
+            <Button
+              variant="outline"
+              className="flex-1 h-9 bg-transparent border-red-900/60 text-red-400 hover:bg-red-900/30 hover:text-red-300"
+              onClick={onCancelGeneration}
+            >
+              <Square className="h-4 w-4 mr-2" />
+              {t('generation.cancel')}
+            </Button>
           ) : (
-            <>
+            <Button
+              className="flex-1 h-9 bg-[#094771] hover:bg-[#0e5a8a] text-white disabled:opacity-50"
+              onClick={onGenerate}
+              disabled={!canGenerate || !selectedWorkflowId || isEnhancing}
+            >
               <Play className="h-4 w-4 mr-2" />
               {t('generation.generate')}
-            </>
+            </Button>
           )}
-        </Button>
+          <Button
+            variant="outline"
+            className="h-9 px-3 bg-transparent border-[#555] text-[#d4d4d4] hover:bg-[#3c3c3c] hover:text-white disabled:opacity-50"
+            onClick={onOpenBatch}
+            disabled={!canGenerate || !selectedWorkflowId}
+            title={t('batch.title')}
+          >
+            <Grid3x3 className="h-4 w-4" />
+          </Button>
+        </div>
       </div>
     </div>
   );
@@ -0,0 +1,394 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
+import { Button } from '@/components/ui/button';
+import { X, Loader2, Columns2, SplitSquareHorizontal, RotateCcw } from 'lucide-react';
+import { type ImageInfo } from './image-viewer';
+import { getImageDisplayUrl, imageAPI, type ImageDetail } from '@/lib/image-api';
+import { diffText, splitForDiff } from '@/lib/text-diff';
+
+interface ImageCompareProps {
+  images: ImageInfo[]; // 2〜4枚（先頭が比較の基準）
+  onClose: () => void;
+}
+
+// 全ペインで共有するズーム・パン
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const INITIAL_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MAX_SCALE = 16;
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+// 基準との差分を色付けして表示
+function DiffTextView({ base, text, isBase }: { base: string; text: string; isBase: boolean }) {
+  const { t } = useTranslation();
+  const parts = useMemo(
+    () => isBase
+      ? splitForDiff(text).map((value) => ({ type: 'equal' as const, value }))
+      : diffText(base, text),
+    [base, text, isBase]
+  );
+  const separator = text.includes('\n') || base.includes('\n') ? '\n' : ' ';
+
+  if (!text && !base) {
+    return <span className="text-[#666]">{t('compare.empty')}</span>;
+  }
+
+  return (
+    <pre className="text-xs font-mono whitespace-pre-wrap break-words">
+      {parts.map((part, i) => (
+        <span key={i}>
+          <span
+            className={
+              part.type === 'added'
+                ? 'bg-green-900/60 text-green-300'
+                : part.type === 'removed'
+                  ? 'bg-red-900/40 text-red-400 line-through'
+                  : 'text-[#d4d4d4]'
+            }
+          >
+            {part.value}
+          </span>
+          {i < parts.length - 1 && separator}
+        </span>
+      ))}
+    </pre>
+  );
+}
+
+// 1枚分の表示（ズーム・パンは親と共有）
+function ComparePane({
+  url,
+  label,
+  view,
+  clip,
+}: {
+  url?: string;
+  label?: string;
+  view: ViewTransform;
+  clip?: string;
+}) {
+  return (
+    <div className="absolute inset-0 flex items-center justify-center" style={clip ? { clipPath: clip } : undefined}>
+      {url ? (
+        <img
+          src={url}
+          alt={label}
+          draggable={false}
+          className="max-w-full max-h-full object-contain select-none"
+          style={{
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            transformOrigin: 'center',
+          }}
+        />
+      ) : (
+        <Loader2 className="h-6 w-6 animate-spin text-[#888]" />
+      )}
+    </div>
+  );
+}
+
+export function ImageCompare({ images, onClose }: ImageCompareProps) {
+  const { t, i18n } = useTranslation();
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [details, setDetails] = useState<Record<string, ImageDetail>>({});
+  const [mode, setMode] = useState<'side' | 'overlay'>('side');
+  const [view, setView] = useState<ViewTransform>(INITIAL_VIEW);
+  const [overlayPosition, setOverlayPosition] = useState(50);
+  const [overlayPair, setOverlayPair] = useState<[number, number]>([0, 1]);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  // 画像URLと詳細を取得
+  useEffect(() => {
+    let cancelled = false;
+    for (const image of images) {
+      getImageDisplayUrl(image.filename).then((url) => {
+        if (!cancelled) setUrls((prev) => ({ ...prev, [image.id]: url }));
+      });
+      imageAPI.getDetail(image.id).then((detail) => {
+        if (!cancelled && detail) setDetails((prev) => ({ ...prev, [image.id]: detail }));
+      });
+    }
+    return () => { cancelled = true; };
+  }, [images]);
+
+  // ホイールでカーソル位置を中心にズーム
+  const handleWheel = useCallback((e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = e.clientX - rect.left - rect.width / 2;
+    const py = e.clientY - rect.top - rect.height / 2;
+    setView((prev) => {
+      const scale = Math.min(MAX_SCALE, Math.max(1, prev.scale * (e.deltaY < 0 ? 1.15 : 1 / 1.15)));
+      if (scale === 1) return INITIAL_VIEW;
+      const ratio = scale / prev.scale;
+      return { scale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio };
+    });
+  }, []);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  }, []);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView((prev) => prev.scale === 1 ? prev : { ...prev, x: prev.x + dx, y: prev.y + dy });
+  }, []);
+
+  const handlePointerUp = useCallback(() => {
+    dragRef.current = null;
+  }, []);
+
+  const viewportHandlers = {
+    onWheel: handleWheel,
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onDoubleClick: () => setView(INITIAL_VIEW),
+  };
+
+  const labelOf = (index: number) => `#${index + 1}`;
+  const base = details[images[0]?.id];
+
+  // パラメータの比較表（シード・ワークフロー・サイズ・parameters の各キー）
+  const parameterRows = useMemo(() => {
+    const rows: { key: string; values: string[] }[] = [
+      { key: 'seed', values: images.map((img) => formatValue(details[img.id]?.seed)) },
+      { key: 'workflow', values: images.map((img) => formatValue(details[img.id]?.workflowId)) },
+      { key: 'template', values: images.map((img) => formatValue(details[img.id]?.templatePath)) },
+    ];
+    const keys = new Set<string>();
+    for (const image of images) {
+      Object.keys(details[image.id]?.parameters ?? {}).forEach((key) => keys.add(key));
+    }
+    for (const key of Array.from(keys).sort()) {
+      rows.push({ key, values: images.map((img) => formatValue(details[img.id]?.parameters?.[key])) });
+    }
+    return rows.filter((row) => row.values.some((value) => value !== ''));
+  }, [images, details]);
+
+  const [pairA, pairB] = overlayPair;
+  const columns = { gridTemplateColumns: `repeat(${images.length}, minmax(0, 1fr))` };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent
+        className="!flex !flex-col !w-[95vw] !max-w-[95vw] h-[92vh] p-0 bg-[#1e1e1e] border-[#333] overflow-hidden"
+        showCloseButton={false}
+      >
+        <VisuallyHidden>
+          <DialogTitle>{t('compare.title')}</DialogTitle>
+        </VisuallyHidden>
+
+        {/* ヘッダー */}
+        <div className="flex items-center gap-2 p-2 bg-[#252526] border-b border-[#333]">
+          <span className="text-xs text-[#d4d4d4]">{t('compare.title')}</span>
+          <div className="flex rounded overflow-hidden border border-[#555] ml-2">
+            <button
+              className={`flex items-center gap-1 px-2 h-6 text-xs ${mode === 'side' ? 'bg-[#094771] text-white' : 'text-[#888] hover:text-white'}`}
+              onClick={() => setMode('side')}
+            >
+              <Columns2 className="h-3.5 w-3.5" />
+              {t('compare.sideBySide')}
+            </button>
+            <button
+              className={`flex items-center gap-1 px-2 h-6 text-xs ${mode === 'overlay' ? 'bg-[#094771] text-white' : 'text-[#888] hover:text-white'}`}
+              onClick={() => setMode('overlay')}
+            >
+              <SplitSquareHorizontal className="h-3.5 w-3.5" />
+              {t('compare.overlay')}
+            </button>
+          </div>
+          {mode === 'overlay' && images.length > 2 && (
+            <div className="flex items-center gap-1 text-xs text-[#888]">
+              {[0, 1].map((side) => (
+                <select
+                  key={side}
+                  value={overlayPair[side]}
+                  onChange={(e) => {
+                    const next: [number, number] = [...overlayPair];
+                    next[side] = Number(e.target.value);
+                    setOverlayPair(next);
+                  }}
+                  className="h-6 px-1 bg-[#3c3c3c] border border-[#555] rounded text-[#d4d4d4]"
+                >
+                  {images.map((_, i) => (
+                    <option key={i} value={i}>{labelOf(i)}</option>
+                  ))}
+                </select>
+              ))}
+            </div>
+          )}
+          <span className="text-[10px] text-[#666]">{t('compare.zoomHint')}</span>
+          <div className="flex-1" />
+          {view.scale !== 1 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+              onClick={() => setView(INITIAL_VIEW)}
+              title={t('compare.resetZoom')}
+            >
+              <RotateCcw className="h-3.5 w-3.5 mr-1" />
+              <span className="text-xs">{Math.round(view.scale * 100)}%</span>
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+            onClick={onClose}
+            title={t('common.close')}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {/* 画像 */}
+        {mode === 'side' ? (
+          <div className="flex-[3] min-h-0 grid gap-px bg-[#333]" style={columns}>
+            {images.map((image, i) => (
+              <div
+                key={image.id}
+                className="relative bg-[#1e1e1e] overflow-hidden cursor-grab active:cursor-grabbing"
+                {...viewportHandlers}
+              >
+                <ComparePane url={urls[image.id]} label={labelOf(i)} view={view} />
+                <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-white">
+                  {labelOf(i)} · {new Date(image.createdAt).toLocaleString(i18n.language === 'ja' ? 'ja-JP' : 'en-US')}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex-[3] min-h-0 flex flex-col">
+            <div
+              className="relative flex-1 min-h-0 overflow-hidden cursor-grab active:cursor-grabbing"
+              {...viewportHandlers}
+            >
+              <ComparePane url={urls[images[pairB]?.id]} label={labelOf(pairB)} view={view} />
+              <ComparePane
+                url={urls[images[pairA]?.id]}
+                label={labelOf(pairA)}
+                view={view}
+                clip={`inset(0 ${100 - overlayPosition}% 0 0)`}
+              />
+              {/* 境界線 */}
+              <div
+                className="absolute top-0 bottom-0 w-px bg-white/80 pointer-events-none"
+                style={{ left: `${overlayPosition}%` }}
+              />
+              <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-white">
+                {labelOf(pairA)}
+              </span>
+              <span className="absolute top-1 right-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] text-white">
+                {labelOf(pairB)}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={overlayPosition}
+              onChange={(e) => setOverlayPosition(Number(e.target.value))}
+              className="mx-3 my-2 accent-[#0e639c]"
+              aria-label={t('compare.overlay')}
+            />
+          </div>
+        )}
+
+        {/* 差分 */}
+        <div className="flex-[2] min-h-0 overflow-auto border-t border-[#333] bg-[#252526] p-3 space-y-4">
+          <div className="flex items-center gap-3 text-[10px] text-[#888]">
+            <span>{t('compare.baseNote')}</span>
+            <span className="px-1 bg-green-900/60 text-green-300">{t('compare.added')}</span>
+            <span className="px-1 bg-red-900/40 text-red-400 line-through">{t('compare.removed')}</span>
+          </div>
+
+          {/* パラメータ */}
+          {parameterRows.length > 0 && (
+            <table className="w-full text-xs font-mono table-fixed">
+              <thead>
+                <tr>
+                  <th className="w-32 text-left font-normal text-[#888] pb-1">{t('imageViewer.parameters')}</th>
+                  {images.map((image, i) => (
+                    <th key={image.id} className="text-left font-normal text-[#888] pb-1">{labelOf(i)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {parameterRows.map((row) => (
+                  <tr key={row.key} className="border-t border-[#333]">
+                    <td className="py-0.5 pr-2 text-[#569cd6] truncate" title={row.key}>{row.key}</td>
+                    {row.values.map((value, i) => (
+                      <td
+                        key={i}
+                        className={`py-0.5 pr-2 truncate ${
+                          i > 0 && value !== row.values[0] ? 'bg-yellow-500/20 text-yellow-300' : 'text-[#d4d4d4]'
+                        }`}
+                        title={value}
+                      >
+                        {value}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* プロンプト */}
+          <div>
+            <span className="text-xs text-[#888]">{t('imageViewer.prompt')}</span>
+            <div className="grid gap-3 mt-1" style={columns}>
+              {images.map((image, i) => (
+                <DiffTextView
+                  key={image.id}
+                  base={images[0].prompt ?? ''}
+                  text={image.prompt ?? ''}
+                  isBase={i === 0}
+                />
+              ))}
+            </div>
+          </div>
+
+          {/* ネガティブプロンプト */}
+          {images.some((image) => details[image.id]?.negativePrompt) && (
+            <div>
+              <span className="text-xs text-[#888]">{t('imageViewer.negative')}</span>
+              <div className="grid gap-3 mt-1" style={columns}>
+                {images.map((image, i) => (
+                  <DiffTextView
+                    key={image.id}
+                    base={base?.negativePrompt ?? ''}
+                    text={details[image.id]?.negativePrompt ?? ''}
+                    isBase={i === 0}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,9 +4,22 @@ import { useState, useEffect, useRef, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Trash2, Loader2, Play, Search } from 'lucide-react';
+import {
+  DndContext,
+  closestCenter,
+  PointerSensor,
+  useSensor,
+  useSensors,
+  DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  rectSortingStrategy,
+  useSortable,
+} from '@dnd-kit/sortable';
+import { Trash2, Loader2, Play, Search, Heart, Star, RotateCcw } from 'lucide-react';
 import { type ImageInfo } from './image-viewer';
-import { getImageDisplayUrl } from '@/lib/image-api';
+import { getThumbnailDisplayUrl } from '@/lib/image-api';
 
 interface ImageGalleryProps {
   images: ImageInfo[];
@@ -14,6 +27,8 @@ interface ImageGalleryProps {
   searchQuery: string;
   onSelectImage: (image: ImageInfo) => void;
   onDeleteImage: (image: ImageInfo) => void;
+  onRestoreImage?: (image: ImageInfo) => void; // Trash view: restore button on each thumbnail
+  emptyMessage?: string; // Trash view: shown instead of the default empty state
   // Pagination
   onLoadMore: () => void;
   isLoadingMore: boolean;
@@ -22,6 +37,23 @@ interface ImageGalleryProps {
   isSelectMode: boolean;
   selectedIds: Set<string>;
   onToggleSelect: (id: string, shiftKey: boolean) => void;
+  // Manual order (collections): drag a thumbnail onto another to move it there
+  onReorder?: (imageId: string, targetImageId: string) => void;
+}
+
+// Grid layout (must match the "p-2 grid-cols-6 gap-2" classes below)
+const GRID_COLUMNS = 6;
+const GRID_GAP = 8;
+const GRID_PADDING = 8;
+// Rows rendered above and below the visible area
+const OVERSCAN_ROWS = 2;
+// Rows rendered before the container has been measured
+const INITIAL_ROWS = 6;
+
+interface VisibleRows {
+  start: number;
+  end: number; // exclusive
+  rowHeight: number;
 }
 
 // Component for a single image with resolved URL
@@ -29,6 +61,7 @@ function ImageThumbnail({
   image,
   onSelect,
   onDelete,
+  onRestore,
   isSelectMode,
   isSelected,
   onToggleSelect,
@@ -36,6 +69,7 @@ function ImageThumbnail({
   image: ImageInfo;
   onSelect: () => void;
   onDelete: (e: React.MouseEvent) => void;
+  onRestore?: (e: React.MouseEvent) => void;
   isSelectMode: boolean;
   isSelected: boolean;
   onToggleSelect: (shiftKey: boolean) => void;
@@ -44,7 +78,7 @@ function ImageThumbnail({
 
   useEffect(() => {
     let cancelled = false;
-    getImageDisplayUrl(image.filename).then((url) => {
+    getThumbnailDisplayUrl(image.filename).then((url) => {
       if (!cancelled) setImageUrl(url);
     });
     return () => { cancelled = true; };
@@ -82,6 +116,18 @@ function ImageThumbnail({
       <div className={`absolute inset-0 transition-colors ${
         isSelected ? 'bg-[#0e639c]/30' : 'bg-black/0 group-hover:bg-black/40'
       }`} />
+      {/* Favorite / rating badges */}
+      {(image.favorite || image.rating) && (
+        <div className="absolute bottom-1 left-1 flex items-center gap-1 px-1 py-0.5 rounded bg-black/60 text-[10px] text-white">
+          {image.favorite && <Heart className="h-3 w-3 fill-red-500 text-red-500" />}
+          {image.rating && (
+            <span className="flex items-center gap-0.5">
+              <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+              {image.rating}
+            </span>
+          )}
+        </div>
+      )}
       {/* Selection checkbox */}
       {isSelectMode && (
         <div
@@ -97,6 +143,17 @@ function ImageThumbnail({
           />
         </div>
       )}
+      {/* Restore button (trash view, only in non-select mode) */}
+      {!isSelectMode && onRestore && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute top-1 right-8 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 transition-opacity bg-black/50 hover:bg-[#0e639c] text-white"
+          onClick={onRestore}
+        >
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      )}
       {/* Delete button (only in non-select mode) */}
       {!isSelectMode && (
         <Button
@@ -112,29 +169,98 @@ function ImageThumbnail({
   );
 }
 
+// Drag handle wrapper used while manual ordering is enabled
+function SortableThumbnail({ id, children }: { id: string; children: React.ReactNode }) {
+  const {
+    attributes,
+    listeners,
+    setNodeRef,
+    transform,
+    transition,
+    isDragging,
+  } = useSortable({ id });
+
+  const style = {
+    transform: transform ? `translate3d(${transform.x}px, ${transform.y}px, 0)` : undefined,
+    transition,
+    zIndex: isDragging ? 10 : undefined,
+    opacity: isDragging ? 0.5 : undefined,
+  };
+
+  return (
+    <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
+      {children}
+    </div>
+  );
+}
+
 export function ImageGallery({
   images,
   isLoading,
   searchQuery,
   onSelectImage,
   onDeleteImage,
+  onRestoreImage,
+  emptyMessage,
   onLoadMore,
   isLoadingMore,
   hasMore,
   isSelectMode,
   selectedIds,
   onToggleSelect,
+  onReorder,
 }: ImageGalleryProps) {
   const { t } = useTranslation();
   const scrollContainerRef = useRef<HTMLDivElement>(null);
+  // クリックと区別するため少し動かしてからドラッグ開始
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  );
+  const isSortable = !!onReorder && !isSelectMode;
+  // Virtualization: only the rows in (and near) the viewport are rendered
+  const [visibleRows, setVisibleRows] = useState<VisibleRows>({ start: 0, end: INITIAL_ROWS, rowHeight: 0 });
+
+  const updateVisibleRows = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const { scrollTop, clientHeight, clientWidth } = container;
+    const cellSize = (clientWidth - GRID_PADDING * 2 - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+    const rowHeight = cellSize + GRID_GAP;
+    if (rowHeight <= 0) return;
+
+    const start = Math.max(0, Math.floor((scrollTop - GRID_PADDING) / rowHeight) - OVERSCAN_ROWS);
+    const end = Math.ceil((scrollTop + clientHeight) / rowHeight) + OVERSCAN_ROWS;
+    // 範囲が変わったときだけ再描画
+    setVisibleRows((prev) =>
+      prev.start === start && prev.end === end && prev.rowHeight === rowHeight ? prev : { start, end, rowHeight }
+    );
+  }, []);
+
+  const handleDragEnd = useCallback((event: DragEndEvent) => {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      onReorder?.(active.id as string, over.id as string);
+    }
+  }, [onReorder]);
 
   const handleDelete = (image: ImageInfo, e: React.MouseEvent) => {
     e.stopPropagation();
     onDeleteImage(image);
   };
 
+  const handleRestore = (image: ImageInfo, e: React.MouseEvent) => {
+    e.stopPropagation();
+    onRestoreImage?.(image);
+  };
+
   // Infinite scroll handler
   const handleScroll = useCallback(() => {
+    updateVisibleRows();
     const container = scrollContainerRef.current;
     if (!container || isLoadingMore || !hasMore) return;
 
@@ -143,7 +269,7 @@ export function ImageGallery({
     if (scrollHeight - scrollTop - clientHeight < 200) {
       onLoadMore();
     }
-  }, [isLoadingMore, hasMore, onLoadMore]);
+  }, [isLoadingMore, hasMore, onLoadMore, updateVisibleRows]);
 
   useEffect(() => {
     const container = scrollContainerRef.current;
@@ -153,6 +279,26 @@ export function ImageGallery({
     return () => container.removeEventListener('scroll', handleScroll);
   }, [handleScroll]);
 
+  // Recalculate the cell size when the panel is resized
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(updateVisibleRows);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [updateVisibleRows]);
+
+  const totalRows = Math.ceil(images.length / GRID_COLUMNS);
+  const startRow = Math.min(visibleRows.start, totalRows);
+  const endRow = Math.min(visibleRows.end, totalRows);
+  const visibleImages = images.slice(startRow * GRID_COLUMNS, endRow * GRID_COLUMNS);
+  // Rows outside the range are replaced by padding so the scroll height stays the same
+  const gridStyle = {
+    paddingTop: GRID_PADDING + startRow * visibleRows.rowHeight,
+    paddingBottom: GRID_PADDING + (totalRows - endRow) * visibleRows.rowHeight,
+  };
+
   return (
     <div ref={scrollContainerRef} className="h-full overflow-auto">
         {/* 初回ロード時のみスピナー表示（検索中は結果を維持してちらつき防止） */}
@@ -162,7 +308,12 @@ export function ImageGallery({
           </div>
         ) : images.length === 0 ? (
           <div className="p-4 flex flex-col items-center justify-center h-full gap-3 text-[#888]">
-            {searchQuery ? (
+            {emptyMessage && !searchQuery ? (
+              <>
+                <Trash2 className="h-8 w-8" />
+                <span className="text-sm">{emptyMessage}</span>
+              </>
+            ) : searchQuery ? (
               <>
                 <Search className="h-8 w-8" />
                 <span className="text-sm">{t('prompt.noSearchResults')}</span>
@@ -176,19 +327,41 @@ export function ImageGallery({
           </div>
         ) : (
           <>
-            <div className="p-2 grid grid-cols-6 gap-2">
-              {images.map((image) => (
-                <ImageThumbnail
-                  key={image.id}
-                  image={image}
-                  onSelect={() => onSelectImage(image)}
-                  onDelete={(e) => handleDelete(image, e)}
-                  isSelectMode={isSelectMode}
-                  isSelected={selectedIds.has(image.id)}
-                  onToggleSelect={(shiftKey) => onToggleSelect(image.id, shiftKey)}
-                />
-              ))}
-            </div>
+            {isSortable ? (
+              <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+                <SortableContext items={images.map((image) => image.id)} strategy={rectSortingStrategy}>
+                  <div className="px-2 grid grid-cols-6 gap-2" style={gridStyle}>
+                    {visibleImages.map((image) => (
+                      <SortableThumbnail key={image.id} id={image.id}>
+                        <ImageThumbnail
+                          image={image}
+                          onSelect={() => onSelectImage(image)}
+                          onDelete={(e) => handleDelete(image, e)}
+                          isSelectMode={false}
+                          isSelected={false}
+                          onToggleSelect={() => {}}
+                        />
+                      </SortableThumbnail>
+                    ))}
+                  </div>
+                </SortableContext>
+              </DndContext>
+            ) : (
+              <div className="px-2 grid grid-cols-6 gap-2" style={gridStyle}>
+                {visibleImages.map((image) => (
+                  <ImageThumbnail
+                    key={image.id}
+                    image={image}
+                    onSelect={() => onSelectImage(image)}
+                    onDelete={(e) => handleDelete(image, e)}
+                    onRestore={onRestoreImage ? (e) => handleRestore(image, e) : undefined}
+                    isSelectMode={isSelectMode}
+                    isSelected={selectedIds.has(image.id)}
+                    onToggleSelect={(shiftKey) => onToggleSelect(image.id, shiftKey)}
+                  />
+                ))}
+              </div>
+            )}
             {/* Loading more indicator */}
             {isLoadingMore && (
               <div className="p-4 flex items-center justify-center">
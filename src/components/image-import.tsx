@@ -0,0 +1,95 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ImagePlus, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface ImageImportButtonProps {
+  isImporting: boolean;
+  onImport: (paths: string[]) => void;
+}
+
+// 外部の画像を選んで取り込むボタン
+export function ImageImportButton({ isImporting, onImport }: ImageImportButtonProps) {
+  const { t } = useTranslation();
+
+  const handleOpenImportDialog = useCallback(async () => {
+    try {
+      const { open } = await import('@tauri-apps/plugin-dialog');
+      const selected = await open({
+        multiple: true,
+        filters: [{ name: 'Images', extensions: ['png', 'webp', 'jpg', 'jpeg'] }],
+      });
+      if (!selected) return;
+      onImport(Array.isArray(selected) ? selected : [selected]);
+    } catch (error) {
+      console.error('Failed to open file dialog:', error);
+    }
+  }, [onImport]);
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      className="h-7 px-2 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+      onClick={handleOpenImportDialog}
+      disabled={isImporting}
+      title={t('gallery.import')}
+    >
+      {isImporting ? (
+        <Loader2 className="h-3.5 w-3.5 animate-spin" />
+      ) : (
+        <ImagePlus className="h-3.5 w-3.5" />
+      )}
+    </Button>
+  );
+}
+
+interface ImageDropOverlayProps {
+  enabled: boolean;
+  onDrop: (paths: string[]) => void;
+}
+
+// ウィンドウへのファイルドロップを受け付け、ドラッグ中はオーバーレイを表示する
+export function ImageDropOverlay({ enabled, onDrop }: ImageDropOverlayProps) {
+  const { t } = useTranslation();
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let disposed = false;
+    let unlisten: (() => void) | undefined;
+
+    import('@tauri-apps/api/webview')
+      .then(({ getCurrentWebview }) => getCurrentWebview().onDragDropEvent((event) => {
+        if (event.payload.type === 'over') {
+          setIsDragOver(true);
+        } else if (event.payload.type === 'drop') {
+          setIsDragOver(false);
+          onDrop(event.payload.paths);
+        } else if (event.payload.type === 'leave') {
+          setIsDragOver(false);
+        }
+      }))
+      .then((fn) => {
+        if (disposed) fn();
+        else unlisten = fn;
+      })
+      .catch((error) => console.error('Failed to listen for file drops:', error));
+
+    return () => {
+      disposed = true;
+      unlisten?.();
+    };
+  }, [enabled, onDrop]);
+
+  if (!isDragOver) return null;
+
+  return (
+    <div className="absolute inset-2 border-2 border-dashed border-[#0e639c] rounded bg-[#0e639c]/10 flex flex-col items-center justify-center gap-2 z-20 pointer-events-none">
+      <ImagePlus className="h-8 w-8 text-[#0e639c]" />
+      <span className="text-sm text-[#d4d4d4]">{t('gallery.dropToImport')}</span>
+    </div>
+  );
+}
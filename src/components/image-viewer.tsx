@@ -7,17 +7,23 @@ import {
 } from '@/components/ui/dialog';
 import { VisuallyHidden } from '@radix-ui/react-visually-hidden';
 import { Button } from '@/components/ui/button';
-import { X, ChevronLeft, ChevronRight, Download, Copy, Check, Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { X, ChevronLeft, ChevronRight, Download, Copy, Check, Loader2, FileInput, Heart, Star } from 'lucide-react';
 import { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
 import { getImageDisplayUrl, imageAPI, type ImageDetail } from '@/lib/image-api';
 import { getImagesPath, joinPath } from '@/lib/tauri-utils';
+import * as collectionAPI from '@/lib/collection-api';
+import { AddToCollectionSelect } from './collection-controls';
 
 export interface ImageInfo {
   id: string;
   filename: string;
   createdAt: string;
   prompt?: string;
+  favorite?: boolean;
+  rating?: number;
 }
 
 interface ImageViewerProps {
@@ -25,13 +31,32 @@ interface ImageViewerProps {
   images: ImageInfo[];
   onClose: () => void;
   onNavigate: (image: ImageInfo) => void;
+  onRestore?: (detail: ImageDetail) => void; // テンプレート・変数値・上書き値をエディタに復元
+  onMetadataChange?: (id: string, patch: Pick<ImageInfo, 'favorite' | 'rating'>) => void; // お気に入り・評価・タグの変更
+  // コレクション（指定時のみ所属の表示・追加・削除ができる）
+  collections?: collectionAPI.Collection[];
+  onCollectionsChange?: (collectionId: number) => void;
+  onCreateCollection?: (imageIds: string[]) => void;
 }
 
-export function ImageViewer({ image, images, onClose, onNavigate }: ImageViewerProps) {
+export function ImageViewer({
+  image,
+  images,
+  onClose,
+  onNavigate,
+  onRestore,
+  onMetadataChange,
+  collections,
+  onCollectionsChange,
+  onCreateCollection,
+}: ImageViewerProps) {
   const { t, i18n } = useTranslation();
   const [copied, setCopied] = useState(false);
   const [imageUrl, setImageUrl] = useState<string | null>(null);
   const [detail, setDetail] = useState<ImageDetail | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [tagInput, setTagInput] = useState('');
+  const [collectionIds, setCollectionIds] = useState<number[]>([]);
 
   // 画像URLと詳細を取得
   useEffect(() => {
@@ -50,12 +75,24 @@ export function ImageViewer({ image, images, onClose, onNavigate }: ImageViewerP
 
     // 詳細取得
     imageAPI.getDetail(image.id).then((d) => {
-      if (!cancelled) setDetail(d);
+      if (cancelled) return;
+      setDetail(d);
+      setNotesDraft(d?.notes ?? '');
     });
 
     return () => { cancelled = true; };
   }, [image]);
 
+  // 所属コレクション（コレクション一覧が変わったら取り直す）
+  useEffect(() => {
+    if (!image || !collections) return;
+    let cancelled = false;
+    collectionAPI.getImageCollectionIds(image.id)
+      .then((ids) => { if (!cancelled) setCollectionIds(ids); })
+      .catch((error) => console.error('Failed to load image collections:', error));
+    return () => { cancelled = true; };
+  }, [image, collections]);
+
   // プロンプトをコピー
   const copyPrompt = useCallback(async () => {
     if (!image?.prompt) return;
@@ -68,6 +105,89 @@ export function ImageViewer({ image, images, onClose, onNavigate }: ImageViewerP
     }
   }, [image]);
 
+  // お気に入り・評価・タグ・メモの編集（即時保存）
+  const handleToggleFavorite = useCallback(async () => {
+    if (!detail) return;
+    try {
+      await imageAPI.toggleFavorite(detail.id);
+      setDetail({ ...detail, favorite: !detail.favorite });
+      onMetadataChange?.(detail.id, { favorite: !detail.favorite, rating: detail.rating });
+    } catch (error) {
+      console.error('Failed to toggle favorite:', error);
+    }
+  }, [detail, onMetadataChange]);
+
+  const handleRatingChange = useCallback(async (value: number) => {
+    if (!detail) return;
+    // 同じ星をもう一度押すと解除
+    const rating = detail.rating === value ? undefined : value;
+    try {
+      await imageAPI.setRating(detail.id, rating ?? null);
+      setDetail({ ...detail, rating });
+      onMetadataChange?.(detail.id, { favorite: detail.favorite, rating });
+    } catch (error) {
+      console.error('Failed to set rating:', error);
+    }
+  }, [detail, onMetadataChange]);
+
+  const handleNotesBlur = useCallback(async () => {
+    if (!detail || notesDraft === (detail.notes ?? '')) return;
+    try {
+      await imageAPI.setNotes(detail.id, notesDraft);
+      setDetail({ ...detail, notes: notesDraft.trim() || undefined });
+    } catch (error) {
+      console.error('Failed to save notes:', error);
+    }
+  }, [detail, notesDraft]);
+
+  const handleAddTag = useCallback(async () => {
+    const tag = tagInput.trim();
+    if (!detail || !tag) return;
+    try {
+      await imageAPI.addTags([detail.id], [tag]);
+      setTagInput('');
+      if (!detail.tags.some((existing) => existing.toLowerCase() === tag.toLowerCase())) {
+        setDetail({ ...detail, tags: [...detail.tags, tag].sort((a, b) => a.localeCompare(b)) });
+      }
+      onMetadataChange?.(detail.id, { favorite: detail.favorite, rating: detail.rating });
+    } catch (error) {
+      console.error('Failed to add tag:', error);
+    }
+  }, [detail, tagInput, onMetadataChange]);
+
+  const handleRemoveTag = useCallback(async (tag: string) => {
+    if (!detail) return;
+    try {
+      await imageAPI.removeTags([detail.id], [tag]);
+      setDetail({ ...detail, tags: detail.tags.filter((existing) => existing !== tag) });
+      onMetadataChange?.(detail.id, { favorite: detail.favorite, rating: detail.rating });
+    } catch (error) {
+      console.error('Failed to remove tag:', error);
+    }
+  }, [detail, onMetadataChange]);
+
+  const handleAddToCollection = useCallback(async (collectionId: number) => {
+    if (!image) return;
+    try {
+      await collectionAPI.addImagesToCollection(collectionId, [image.id]);
+      setCollectionIds((prev) => [...prev, collectionId]);
+      onCollectionsChange?.(collectionId);
+    } catch (error) {
+      console.error('Failed to add image to collection:', error);
+    }
+  }, [image, onCollectionsChange]);
+
+  const handleRemoveFromCollection = useCallback(async (collectionId: number) => {
+    if (!image) return;
+    try {
+      await collectionAPI.removeImagesFromCollection(collectionId, [image.id]);
+      setCollectionIds((prev) => prev.filter((id) => id !== collectionId));
+      onCollectionsChange?.(collectionId);
+    } catch (error) {
+      console.error('Failed to remove image from collection:', error);
+    }
+  }, [image, onCollectionsChange]);
+
   // 画像ナビゲーション
   const navigateImage = useCallback((direction: 'prev' | 'next') => {
     if (!image || images.length === 0) return;
@@ -84,6 +204,11 @@ export function ImageViewer({ image, images, onClose, onNavigate }: ImageViewerP
     if (!image) return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
+      // タグ・メモの入力中は矢印キーで移動しない
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') && e.key !== 'Escape') {
+        return;
+      }
       if (e.key === 'ArrowLeft') {
         e.preventDefault();
         navigateImage('prev');
@@ -140,6 +265,21 @@ export function ImageViewer({ image, images, onClose, onNavigate }: ImageViewerP
                 {new Date(image.createdAt).toLocaleString(i18n.language === 'ja' ? 'ja-JP' : 'en-US')}
               </div>
               <div className="flex gap-1">
+                {onRestore && detail?.templatePath && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+                    onClick={() => {
+                      onRestore(detail);
+                      onClose();
+                    }}
+                    title={t('imageViewer.restoreDescription')}
+                  >
+                    <FileInput className="h-4 w-4 mr-1" />
+                    <span className="text-xs">{t('imageViewer.restore')}</span>
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -199,9 +339,153 @@ export function ImageViewer({ image, images, onClose, onNavigate }: ImageViewerP
               {/* 右側：詳細情報 */}
               <div className="w-[350px] flex-shrink-0 flex flex-col bg-[#252526] min-h-0 overflow-hidden">
                 <div className="flex-1 overflow-auto p-3 min-h-0">
+                  {/* お気に入り・評価・タグ・メモ */}
+                  {detail && (
+                    <div className="mb-4 space-y-3 pb-3 border-b border-[#333]">
+                      <div className="flex items-center gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0 hover:bg-[#3c3c3c]"
+                          onClick={handleToggleFavorite}
+                          title={t('imageViewer.favorite')}
+                        >
+                          <Heart className={`h-4 w-4 ${detail.favorite ? 'fill-red-500 text-red-500' : 'text-[#888]'}`} />
+                        </Button>
+                        <div className="flex items-center" title={t('imageViewer.rating')}>
+                          {[1, 2, 3, 4, 5].map((value) => (
+                            <button
+                              key={value}
+                              className="p-0.5"
+                              onClick={() => handleRatingChange(value)}
+                            >
+                              <Star
+                                className={`h-4 w-4 ${
+                                  detail.rating && value <= detail.rating
+                                    ? 'fill-yellow-400 text-yellow-400'
+                                    : 'text-[#555] hover:text-[#888]'
+                                }`}
+                              />
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <span className="text-xs text-[#888]">{t('imageViewer.tags')}</span>
+                        <div className="flex flex-wrap items-center gap-1 mt-1">
+                          {detail.tags.map((tag) => (
+                            <span
+                              key={tag}
+                              className="flex items-center gap-0.5 pl-1.5 pr-0.5 py-0.5 rounded bg-[#094771] text-[10px] text-[#d4d4d4]"
+                            >
+                              {tag}
+                              <button
+                                className="text-[#888] hover:text-white"
+                                onClick={() => handleRemoveTag(tag)}
+                                title={t('imageViewer.removeTag')}
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </span>
+                          ))}
+                          <Input
+                            value={tagInput}
+                            onChange={(e) => setTagInput(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && !e.nativeEvent.isComposing) {
+                                e.preventDefault();
+                                handleAddTag();
+                              }
+                            }}
+                            placeholder={t('imageViewer.addTag')}
+                            className="h-6 w-28 px-1.5 text-[10px] bg-[#3c3c3c] border-[#555] text-[#d4d4d4] placeholder:text-[#666]"
+                          />
+                        </div>
+                      </div>
+                      {collections && (
+                        <div>
+                          <span className="text-xs text-[#888]">{t('collections.title')}</span>
+                          <div className="flex flex-wrap items-center gap-1 mt-1">
+                            {collections
+                              .filter((collection) => collectionIds.includes(collection.id))
+                              .map((collection) => (
+                                <span
+                                  key={collection.id}
+                                  className="flex items-center gap-0.5 pl-1.5 pr-0.5 py-0.5 rounded bg-[#3c3c3c] text-[10px] text-[#d4d4d4]"
+                                >
+                                  {collection.name}
+                                  <button
+                                    className="text-[#888] hover:text-white"
+                                    onClick={() => handleRemoveFromCollection(collection.id)}
+                                    title={t('collections.removeFrom')}
+                                  >
+                                    <X className="h-3 w-3" />
+                                  </button>
+                                </span>
+                              ))}
+                            <AddToCollectionSelect
+                              collections={collections}
+                              excludeIds={collectionIds}
+                              onSelect={handleAddToCollection}
+                              onCreate={() => onCreateCollection?.([image.id])}
+                            />
+                          </div>
+                        </div>
+                      )}
+                      <div>
+                        <span className="text-xs text-[#888]">{t('imageViewer.notes')}</span>
+                        <Textarea
+                          value={notesDraft}
+                          onChange={(e) => setNotesDraft(e.target.value)}
+                          onBlur={handleNotesBlur}
+                          placeholder={t('imageViewer.notesPlaceholder')}
+                          className="mt-1 min-h-[48px] text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4] placeholder:text-[#666]"
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   {/* メタ情報 */}
-                  {detail && (detail.seed || detail.negativePrompt || detail.parameters) && (
+                  {detail && (detail.seed || detail.negativePrompt || detail.parameters || detail.templatePath) && (
                     <div className="mb-4 space-y-3">
+                      {detail.templatePath && (
+                        <div>
+                          <span className="text-xs text-[#888]">{t('imageViewer.template')}</span>
+                          <pre className="text-xs font-mono text-[#569cd6] whitespace-pre-wrap mt-1">
+                            {detail.templatePath}
+                          </pre>
+                        </div>
+                      )}
+                      {detail.variables && Object.keys(detail.variables).length > 0 && (
+                        <div>
+                          <span className="text-xs text-[#888]">{t('imageViewer.variables')}</span>
+                          <pre className="text-xs font-mono text-[#d4d4d4] whitespace-pre-wrap mt-1">
+                            {Object.entries(detail.variables)
+                              .map(([key, value]) => `${key}: ${Array.isArray(value) ? value.join(', ') : value}`)
+                              .join('\n')}
+                          </pre>
+                        </div>
+                      )}
+                      {detail.randomChoices && (
+                        <div>
+                          <span className="text-xs text-[#888]">
+                            {t('imageViewer.randomChoices', { seed: detail.randomChoices.seed })}
+                          </span>
+                          <pre className="text-xs font-mono text-[#c586c0] whitespace-pre-wrap mt-1">
+                            {detail.randomChoices.picks
+                              .map((pick) => `${pick.kind === 'wildcard' ? `__${pick.key}__` : pick.key}: ${pick.value}`)
+                              .join('\n')}
+                          </pre>
+                        </div>
+                      )}
+                      {detail.enhancerModel && (
+                        <div>
+                          <span className="text-xs text-[#888]">{t('imageViewer.enhancer')}</span>
+                          <pre className="text-xs font-mono text-[#d4d4d4] whitespace-pre-wrap mt-1">
+                            {detail.enhancerModel}
+                          </pre>
+                        </div>
+                      )}
                       {detail.seed && (
                         <div>
                           <span className="text-xs text-[#888]">{t('imageViewer.seed')}</span>
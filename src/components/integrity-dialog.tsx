@@ -0,0 +1,242 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Loader2, RefreshCw, FileQuestion, Unlink, CheckCircle2 } from 'lucide-react';
+import { imageAPI, formatBytes } from '@/lib/image-api';
+import type { IntegrityReport } from '@/lib/db/integrity';
+
+interface IntegrityDialogProps {
+  onClose: () => void;
+  onGalleryChange?: () => void;
+}
+
+type Progress = { label: 'scanning' | 'working'; done: number; total: number };
+
+// ギャラリーの整合性チェック（孤立ファイルの取り込み・見つからないファイルの再リンク）
+// 開くたびにマウントしてスキャンする
+export function IntegrityDialog({ onClose, onGalleryChange }: IntegrityDialogProps) {
+  const { t } = useTranslation();
+  const [report, setReport] = useState<IntegrityReport | null>(null);
+  const [progress, setProgress] = useState<Progress | null>({ label: 'scanning', done: 0, total: 0 });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const scan = useCallback(async () => {
+    setProgress({ label: 'scanning', done: 0, total: 0 });
+    try {
+      const { scanGalleryIntegrity } = await import('@/lib/db/integrity');
+      setReport(await scanGalleryIntegrity((done, total) => setProgress({ label: 'scanning', done, total })));
+    } catch (error) {
+      console.error('Failed to scan gallery integrity:', error);
+      setMessage(String(error));
+    } finally {
+      setProgress(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    scan();
+  }, [scan]);
+
+  // 操作を実行して結果を表示し、再スキャンする
+  const runAction = useCallback(async (action: () => Promise<string>) => {
+    setMessage(null);
+    setProgress({ label: 'working', done: 0, total: 0 });
+    try {
+      setMessage(await action());
+      onGalleryChange?.();
+    } catch (error) {
+      console.error('Gallery integrity repair failed:', error);
+      setMessage(String(error));
+    }
+    await scan();
+  }, [scan, onGalleryChange]);
+
+  const onWorkProgress = (done: number, total: number) => setProgress({ label: 'working', done, total });
+
+  const handleAdoptAll = () => runAction(async () => {
+    const { adoptOrphanFiles } = await import('@/lib/db/integrity');
+    const result = await adoptOrphanFiles(report?.orphans ?? [], onWorkProgress);
+    const adopted = t('integrity.adopted', { count: result.adopted });
+    return result.failed.length > 0
+      ? `${adopted} ${t('integrity.adoptFailed', { count: result.failed.length })}`
+      : adopted;
+  });
+
+  const handleRelink = async (fromFolder: boolean) => {
+    let searchDir: string | undefined;
+    if (fromFolder) {
+      const { open } = await import('@tauri-apps/plugin-dialog');
+      const selected = await open({ directory: true, title: t('integrity.relinkFromFolder') });
+      if (typeof selected !== 'string') return;
+      searchDir = selected;
+    }
+    await runAction(async () => {
+      const { relinkMissingImages } = await import('@/lib/db/integrity');
+      const result = await relinkMissingImages(report?.missing ?? [], searchDir, onWorkProgress);
+      return t('integrity.relinked', { count: result.relinked, searched: result.searchedFiles });
+    });
+  };
+
+  const handleDeleteRecords = async () => {
+    const ids = (report?.missing ?? []).map((record) => record.id);
+    const { showConfirm } = await import('@/lib/dialog');
+    if (!await showConfirm(t('integrity.confirmDeleteRecords', { count: ids.length }))) return;
+
+    await runAction(async () => {
+      const result = await imageAPI.purge(ids);
+      return t('integrity.deletedRecords', { count: result.deleted });
+    });
+  };
+
+  const isBusy = progress !== null;
+  const orphans = report?.orphans ?? [];
+  const missing = report?.missing ?? [];
+  const relinkable = missing.filter((record) => record.contentHash).length;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !isBusy && onClose()}>
+      <DialogContent className="!max-w-3xl w-[90vw] max-h-[80vh] flex flex-col bg-[#252526] border-[#454545] text-[#d4d4d4]">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            {t('integrity.title')}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+              onClick={scan}
+              disabled={isBusy}
+              title={t('integrity.rescan')}
+            >
+              <RefreshCw className="h-3.5 w-3.5" />
+            </Button>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-auto space-y-4 text-xs">
+          {progress && (
+            <div className="flex items-center gap-2 text-[#888]">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>
+                {t(`integrity.${progress.label}`)}
+                {progress.total > 0 && ` (${progress.done}/${progress.total})`}
+              </span>
+            </div>
+          )}
+
+          {message && (
+            <div className="px-2 py-1.5 rounded bg-[#0e639c]/20 border border-[#0e639c]/40 text-[#d4d4d4]">
+              {message}
+            </div>
+          )}
+
+          {report && !progress && orphans.length === 0 && missing.length === 0 && (
+            <div className="flex items-center gap-2 text-green-400">
+              <CheckCircle2 className="h-4 w-4" />
+              <span>{t('integrity.noProblems')}</span>
+            </div>
+          )}
+
+          {/* レコードのないファイル */}
+          {orphans.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex items-center gap-2">
+                <FileQuestion className="h-4 w-4 text-yellow-500" />
+                <h3 className="text-sm text-white flex-1">{t('integrity.orphansTitle', { count: orphans.length })}</h3>
+                <Button
+                  size="sm"
+                  className="h-7 text-xs bg-[#0e639c] hover:bg-[#1177bb] text-white"
+                  onClick={handleAdoptAll}
+                  disabled={isBusy}
+                >
+                  {t('integrity.importAll')}
+                </Button>
+              </div>
+              <p className="text-[#888]">{t('integrity.orphansDescription')}</p>
+              <div className="max-h-48 overflow-auto border border-[#333] rounded divide-y divide-[#333]">
+                {orphans.map((orphan) => (
+                  <div key={orphan.filename} className="px-2 py-1 flex items-center gap-2">
+                    <span className="flex-1 truncate font-mono">{orphan.filename}</span>
+                    <span className="text-[#888]">{formatBytes(orphan.size)}</span>
+                    <span className={`w-36 truncate text-right ${orphan.metadataSource ? 'text-[#4ec9b0]' : 'text-[#666]'}`}>
+                      {orphan.metadataSource
+                        ? t(`integrity.source.${orphan.metadataSource}`)
+                        : t('integrity.noMetadata')}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {/* ファイルが見つからないレコード */}
+          {missing.length > 0 && (
+            <section className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Unlink className="h-4 w-4 text-red-400" />
+                <h3 className="text-sm text-white flex-1">{t('integrity.missingTitle', { count: missing.length })}</h3>
+                <Button
+                  size="sm"
+                  className="h-7 text-xs bg-[#0e639c] hover:bg-[#1177bb] text-white"
+                  onClick={() => handleRelink(false)}
+                  disabled={isBusy || relinkable === 0 || orphans.length === 0}
+                  title={t('integrity.relinkDescription')}
+                >
+                  {t('integrity.relink')}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs bg-transparent border-[#555] text-[#d4d4d4] hover:bg-[#3c3c3c]"
+                  onClick={() => handleRelink(true)}
+                  disabled={isBusy || relinkable === 0}
+                >
+                  {t('integrity.relinkFromFolder')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs text-red-400 hover:text-red-300 hover:bg-red-900/30"
+                  onClick={handleDeleteRecords}
+                  disabled={isBusy}
+                >
+                  {t('integrity.deleteRecords')}
+                </Button>
+              </div>
+              <p className="text-[#888]">{t('integrity.missingDescription')}</p>
+              <div className="max-h-48 overflow-auto border border-[#333] rounded divide-y divide-[#333]">
+                {missing.map((record) => (
+                  <div key={record.id} className="px-2 py-1 flex items-center gap-2">
+                    <span className="w-48 flex-shrink-0 truncate font-mono">{record.filename}</span>
+                    <span className="flex-1 truncate text-[#888]">{record.prompt}</span>
+                    {record.deleted && <span className="text-[#888]">{t('integrity.inTrash')}</span>}
+                    {!record.contentHash && <span className="text-[#666]">{t('integrity.noHash')}</span>}
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={isBusy}
+            className="bg-transparent border-[#555] text-[#d4d4d4] hover:bg-[#3c3c3c]"
+          >
+            {t('common.close')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, Info } from 'lucide-react';
+import type { MergeDiagnostic } from '@/lib/yaml-utils';
+
+interface DiagnosticsListProps {
+  diagnostics: MergeDiagnostic[];
+  onNavigateToSource?: (file: string, line?: number) => void;
+}
+
+// マージ診断の一覧（循環参照・ファイルなし・パースエラーなど）
+export function DiagnosticsList({ diagnostics, onNavigateToSource }: DiagnosticsListProps) {
+  const { t } = useTranslation();
+
+  return (
+    <ul className="px-3 py-2 space-y-1 border-b border-[#333]">
+      {diagnostics.map((d, index) => (
+        <li key={index} className="flex items-start gap-2 text-xs">
+          {d.severity === 'info' ? (
+            <Info className="h-3.5 w-3.5 mt-0.5 flex-shrink-0 text-[#888]" />
+          ) : (
+            <AlertCircle
+              className={`h-3.5 w-3.5 mt-0.5 flex-shrink-0 ${d.severity === 'error' ? 'text-red-400' : 'text-yellow-500'}`}
+            />
+          )}
+          <div className="min-w-0">
+            <div className={d.severity === 'info' ? 'text-[#888]' : 'text-[#d4d4d4]'}>
+              {t(`diagnostics.${d.kind}`, {
+                reference: d.reference,
+                chain: d.chain?.join(' → '),
+                message: d.message,
+              })}
+            </div>
+            <button
+              type="button"
+              className="block max-w-full text-[10px] text-[#888] hover:text-white font-mono truncate"
+              title={d.file}
+              onClick={() => onNavigateToSource?.(d.file, d.line)}
+            >
+              {d.file}
+              {d.line !== undefined && `:${d.line}${d.column !== undefined ? `:${d.column}` : ''}`}
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
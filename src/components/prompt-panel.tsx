@@ -3,65 +3,45 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Copy, Check, AlertCircle, Loader2, X, Sparkles, Search, Settings, ArrowDown, ArrowUp, CheckSquare, Trash2 } from 'lucide-react';
-import { Input } from '@/components/ui/input';
+import { Copy, Check, AlertCircle, Loader2, X, Sparkles, Settings, ArrowDown, ArrowUp, CheckSquare, Trash2, Grid3x3, Filter, ListTree, Columns2, FolderOutput, FolderMinus, Layers } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { ImageGallery } from './image-gallery';
 import { ImageViewer, type ImageInfo } from './image-viewer';
-import { imageAPI, searchImagesByQuery, type PaginationParams } from '@/lib/image-api';
+import { BatchGrid } from './batch-grid';
+import { DiagnosticsList } from './merge-diagnostics';
+import { GallerySearchBar, GalleryQueryError } from './gallery-search-bar';
+import { GalleryFilterBar, isGalleryFilterActive } from './gallery-filter-bar';
+import { BulkTagControls } from './bulk-tag-controls';
+import { ImageImportButton, ImageDropOverlay } from './image-import';
+import { YamlHighlight } from './yaml-highlight';
+import { GalleryFacets } from './gallery-facets';
+import { ImageCompare } from './image-compare';
+import { DuplicatesDialog } from './duplicates-dialog';
+import { ExportImagesDialog } from './export-images-dialog';
+import { TrashBar, TrashSelectionActions } from './trash-controls';
+import { AddToCollectionSelect, CollectionBar, CollectionNameDialog, CollectionSelect } from './collection-controls';
+import { arrayMove } from '@dnd-kit/sortable';
+import {
+  imageAPI,
+  formatBytes,
+  searchImagesByQuery,
+  type ImageDetail,
+  type ImageFilter,
+  type PaginationParams,
+  type TagInfo,
+} from '@/lib/image-api';
+import type { Batch } from '@/lib/batch-api';
+import * as collectionAPI from '@/lib/collection-api';
+import { parseGalleryQuery } from '@/lib/gallery-query';
+import type { MergeDiagnostic, ProvenanceMap } from '@/lib/yaml-utils';
 
 const PAGE_SIZE = 50;
+const IMPORTABLE_IMAGE_PATTERN = /\.(png|webp|jpe?g)$/i;
 
 export type PromptTab = 'prompt' | 'gallery';
 export type PromptSubTab = 'yaml' | 'enhanced';
 
-// YAMLのnegativeセクションを赤くハイライトするコンポーネント
-function YamlHighlight({ yaml, emptyText }: { yaml: string; emptyText: string }) {
-  if (!yaml) {
-    return <span className="text-[#888]">{emptyText}</span>;
-  }
-
-  // negativeセクションを検出して分割
-  // パターン: 行頭の "negative:" から、次の行頭のトップレベルキー（インデントなしでアルファベット始まり）まで
-  // 1行形式: negative: hogehoge
-  // 複数行形式: negative:\n  - hogehoge\n  - fugafuga
-  const negativePattern = /^negative:.*(?:\n(?:[ \t].*|$))*/gm;
-  const parts: { text: string; isNegative: boolean }[] = [];
-  let lastIndex = 0;
-  let match;
-
-  while ((match = negativePattern.exec(yaml)) !== null) {
-    // negativeの前の部分
-    if (match.index > lastIndex) {
-      parts.push({ text: yaml.slice(lastIndex, match.index), isNegative: false });
-    }
-    // negativeセクション
-    parts.push({ text: match[0], isNegative: true });
-    lastIndex = match.index + match[0].length;
-  }
-
-  // 残りの部分
-  if (lastIndex < yaml.length) {
-    parts.push({ text: yaml.slice(lastIndex), isNegative: false });
-  }
-
-  // パーツがない場合は全体を通常表示
-  if (parts.length === 0) {
-    return <span className="text-[#d4d4d4]">{yaml}</span>;
-  }
-
-  return (
-    <>
-      {parts.map((part, index) => (
-        <span key={index} className={part.isNegative ? 'text-red-400/80' : 'text-[#d4d4d4]'}>
-          {part.text}
-        </span>
-      ))}
-    </>
-  );
-}
-
 interface PromptPanelProps {
   // タブ状態（親で制御）
   activeTab: PromptTab;
@@ -75,6 +55,9 @@ interface PromptPanelProps {
   // Raw（Merged YAML）
   mergedYaml: string;
   isYamlValid: boolean;
+  diagnostics: MergeDiagnostic[];
+  provenance: ProvenanceMap;
+  onNavigateToSource: (file: string, line?: number) => void;
 
   // Enhanced
   enhancedPrompt: string;
@@ -86,6 +69,10 @@ interface PromptPanelProps {
   // ギャラリー用
   comfyEnabled: boolean;
   isGenerating: boolean;
+  batches: Batch[];
+  galleryRefreshKey: number; // バッチのジョブ完了ごとに増える
+  onRestoreImage: (detail: ImageDetail) => void;
+  onTemplatesRestored: () => void; // 取り込んだ画像からテンプレートを復元したとき（ファイルツリー更新用）
 }
 
 export function PromptPanel({
@@ -96,6 +83,9 @@ export function PromptPanel({
   currentFileName,
   mergedYaml,
   isYamlValid,
+  diagnostics,
+  provenance,
+  onNavigateToSource,
   enhancedPrompt,
   onEnhancedPromptChange,
   isEnhancing,
@@ -103,6 +93,10 @@ export function PromptPanel({
   onClearEnhanceError,
   comfyEnabled,
   isGenerating,
+  batches,
+  galleryRefreshKey,
+  onRestoreImage,
+  onTemplatesRestored,
 }: PromptPanelProps) {
   const { t } = useTranslation();
   const [copied, setCopied] = useState(false);
@@ -116,6 +110,31 @@ export function PromptPanel({
   const [hasMore, setHasMore] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [sortOrder, setSortOrder] = useState<'desc' | 'asc'>('desc');
+  // 絞り込み（お気に入り・評価・タグ）と並び順
+  const [sortBy, setSortBy] = useState<'createdAt' | 'rating' | 'manual'>('createdAt');
+  const [filter, setFilter] = useState<ImageFilter>({});
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [isFacetsOpen, setIsFacetsOpen] = useState(false);
+  const [tags, setTags] = useState<TagInfo[]>([]);
+  // コレクション（アルバム）。選択中のコレクションは filter.collectionId
+  const [collections, setCollections] = useState<collectionAPI.Collection[]>([]);
+  const [collectionNameDialog, setCollectionNameDialog] = useState<
+    { mode: 'create'; imageIds: string[] } | { mode: 'rename'; collection: collectionAPI.Collection } | null
+  >(null);
+  const isFilterActive = isGalleryFilterActive(filter, sortBy);
+  // ゴミ箱の表示（絞り込み・コレクションは適用しない）
+  const [isTrashView, setIsTrashView] = useState(false);
+  // バッチのグリッド表示
+  const [isBatchView, setIsBatchView] = useState(false);
+  const [viewerImages, setViewerImages] = useState<ImageInfo[] | null>(null);
+  // 比較表示（選択モードで2〜4枚選んで開く）
+  const [compareImages, setCompareImages] = useState<ImageInfo[] | null>(null);
+  // 重複画像の検出ダイアログ
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  // 書き出す画像のID（null: ダイアログを閉じている）
+  const [exportImageIds, setExportImageIds] = useState<string[] | null>(null);
+  // 画像の取り込み
+  const [isImporting, setIsImporting] = useState(false);
 
   // 選択モード
   const [isSelectMode, setIsSelectMode] = useState(false);
@@ -124,6 +143,8 @@ export function PromptPanel({
 
   // 画像一覧を読み込む（ページネーション対応）
   const loadImages = useCallback(async (query?: string, append = false, offset = 0) => {
+    // 構文エラーのある検索は実行しない（エラーは検索ボックスの下に表示）
+    if (query && parseGalleryQuery(query).errors.length > 0) return;
     if (append) {
       setIsLoadingMore(true);
     } else {
@@ -134,11 +155,13 @@ export function PromptPanel({
         limit: PAGE_SIZE,
         offset,
         sortOrder,
+        sortBy,
       };
 
+      const activeFilter: ImageFilter = isTrashView ? { trash: true } : filter;
       const result = query
-        ? await searchImagesByQuery(query, false, pagination)
-        : await imageAPI.list(false, pagination);
+        ? await searchImagesByQuery(query, false, pagination, activeFilter)
+        : await imageAPI.list(false, pagination, activeFilter);
 
       if (append) {
         setImages((prev) => [...prev, ...result.items]);
@@ -156,7 +179,7 @@ export function PromptPanel({
         setIsLoadingImages(false);
       }
     }
-  }, [sortOrder]);
+  }, [sortOrder, sortBy, filter, isTrashView]);
 
   // 追加読み込み
   const handleLoadMore = useCallback(() => {
@@ -177,11 +200,108 @@ export function PromptPanel({
     return () => clearTimeout(timer);
   }, [searchQuery, loadImages]);
 
-  // ソート変更時のリセット
+  // ソート・絞り込み変更時のリセット
   useEffect(() => {
     loadImages(searchQuery || undefined, false, 0);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [sortOrder]);
+  }, [sortOrder, sortBy, filter, isTrashView]);
+
+  // コレクション
+  const loadCollections = useCallback(async () => {
+    try {
+      setCollections(await collectionAPI.getCollections());
+    } catch (error) {
+      console.error('Failed to load collections:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCollections();
+  }, [loadCollections]);
+
+  const activeCollection = collections.find((c) => c.id === filter.collectionId) ?? null;
+
+  // コレクションを開く（手動の並び順で表示）/ すべての画像に戻る
+  const handleSelectCollection = useCallback((value: string) => {
+    if (value === '__new__') {
+      setCollectionNameDialog({ mode: 'create', imageIds: [] });
+    } else if (value === '__all__') {
+      setFilter((prev) => ({ ...prev, collectionId: undefined }));
+      setSortBy((prev) => prev === 'manual' ? 'createdAt' : prev);
+    } else {
+      setFilter((prev) => ({ ...prev, collectionId: Number(value) }));
+      setSortBy('manual');
+    }
+  }, []);
+
+  // コレクションの中身が変わったとき（表示中なら一覧も読み直す）
+  const handleCollectionsChange = useCallback((changedId: number) => {
+    loadCollections();
+    if (changedId === filter.collectionId) {
+      loadImages(searchQuery || undefined, false, 0);
+    }
+  }, [loadCollections, loadImages, filter.collectionId, searchQuery]);
+
+  const handleCollectionNameSubmit = useCallback(async (name: string) => {
+    if (!collectionNameDialog) return;
+    try {
+      if (collectionNameDialog.mode === 'create') {
+        const collection = await collectionAPI.createCollection(name);
+        await collectionAPI.addImagesToCollection(collection.id, collectionNameDialog.imageIds);
+        handleCollectionsChange(collection.id);
+      } else {
+        await collectionAPI.renameCollection(collectionNameDialog.collection.id, name);
+        await loadCollections();
+      }
+      setCollectionNameDialog(null);
+    } catch (error) {
+      console.error('Failed to save collection:', error);
+      const { showError } = await import('@/lib/dialog');
+      await showError(t('collections.saveFailed', { name }));
+    }
+  }, [collectionNameDialog, handleCollectionsChange, loadCollections, t]);
+
+  // 表示中のコレクションを削除したとき
+  const handleCollectionDeleted = useCallback(() => {
+    handleSelectCollection('__all__');
+    loadCollections();
+  }, [handleSelectCollection, loadCollections]);
+
+  // ドラッグで並べ替え（先に表示を更新）
+  const handleReorderCollection = useCallback(async (imageId: string, targetImageId: string) => {
+    if (filter.collectionId === undefined) return;
+    setImages((prev) => arrayMove(
+      prev,
+      prev.findIndex((img) => img.id === imageId),
+      prev.findIndex((img) => img.id === targetImageId)
+    ));
+    try {
+      await collectionAPI.moveImageInCollection(filter.collectionId, imageId, targetImageId);
+    } catch (error) {
+      console.error('Failed to reorder collection:', error);
+      loadImages(searchQuery || undefined, false, 0);
+    }
+  }, [filter.collectionId, loadImages, searchQuery]);
+
+  // タグ一覧（絞り込み用）
+  const loadTags = useCallback(async () => {
+    try {
+      setTags(await imageAPI.listTags());
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
+  // ビューアーでお気に入り・評価・タグを変更したとき
+  const handleImageMetadataChange = useCallback((id: string, patch: Pick<ImageInfo, 'favorite' | 'rating'>) => {
+    setImages((prev) => prev.map((img) => img.id === id ? { ...img, ...patch } : img));
+    setSelectedImage((prev) => prev?.id === id ? { ...prev, ...patch } : prev);
+    loadTags();
+  }, [loadTags]);
 
   // 生成後に最新を先頭に再読み込み
   const prevIsGenerating = useRef(isGenerating);
@@ -195,6 +315,63 @@ export function PromptPanel({
     prevIsGenerating.current = isGenerating;
   }, [isGenerating, loadImages, searchQuery, sortOrder]);
 
+  // バッチのジョブ完了時も同様に再読み込み
+  const prevGalleryRefreshKey = useRef(galleryRefreshKey);
+  useEffect(() => {
+    if (prevGalleryRefreshKey.current !== galleryRefreshKey && sortOrder === 'desc') {
+      loadImages(searchQuery || undefined, false, 0);
+    }
+    prevGalleryRefreshKey.current = galleryRefreshKey;
+  }, [galleryRefreshKey, loadImages, searchQuery, sortOrder]);
+
+  // 外部の画像を取り込む（埋め込みメタデータからプロンプト・変数などを復元）
+  const handleImportImages = useCallback(async (paths: string[]) => {
+    const imagePaths = paths.filter((path) => IMPORTABLE_IMAGE_PATTERN.test(path));
+    if (imagePaths.length === 0) return;
+
+    setIsImporting(true);
+    let failed = 0;
+    let templateRestored = false;
+    const templateErrors: string[] = [];
+    try {
+      for (const path of imagePaths) {
+        try {
+          const result = await imageAPI.import(path);
+          if (result.templateCreated) templateRestored = true;
+          if (result.templateError) templateErrors.push(`${result.templateError.path}: ${result.templateError.message}`);
+        } catch (error) {
+          console.error('Failed to import image:', path, error);
+          failed++;
+        }
+      }
+    } finally {
+      setIsImporting(false);
+    }
+
+    if (templateRestored) onTemplatesRestored();
+    loadImages(searchQuery || undefined, false, 0);
+    if (failed > 0) {
+      const { showError } = await import('@/lib/dialog');
+      await showError(t('gallery.importFailed', { count: failed }));
+    }
+    if (templateErrors.length > 0) {
+      const { showError } = await import('@/lib/dialog');
+      await showError(t('gallery.templateRestoreFailed', { files: templateErrors.join('\n') }));
+    }
+  }, [loadImages, searchQuery, onTemplatesRestored, t]);
+
+  // ギャラリーから画像を開く
+  const handleSelectImage = useCallback((image: ImageInfo) => {
+    setViewerImages(null);
+    setSelectedImage(image);
+  }, []);
+
+  // バッチのグリッドから画像を開く（前後移動はグリッド内の画像）
+  const handleSelectBatchImage = useCallback((image: ImageInfo, gridImages: ImageInfo[]) => {
+    setViewerImages(gridImages);
+    setSelectedImage(image);
+  }, []);
+
   // コピー
   const copyToClipboard = useCallback(async () => {
     let text = '';
@@ -214,10 +391,14 @@ export function PromptPanel({
   // 画像削除
   const handleDeleteImage = useCallback(async (image: ImageInfo) => {
     const { showConfirm } = await import('@/lib/dialog');
-    if (!await showConfirm(t('dialog.confirmDeleteImage'))) return;
+    if (!await showConfirm(t(isTrashView ? 'trash.confirmPurge' : 'dialog.confirmDeleteImage', { count: 1 }))) return;
 
     try {
-      await imageAPI.delete(image.filename);
+      if (isTrashView) {
+        await imageAPI.purge([image.id]);
+      } else {
+        await imageAPI.delete(image.filename);
+      }
       setImages((prev) => prev.filter((img) => img.id !== image.id));
       setTotalImages((prev) => prev - 1);
       if (selectedImage?.id === image.id) {
@@ -226,7 +407,44 @@ export function PromptPanel({
     } catch (error) {
       console.error('Failed to delete image:', error);
     }
-  }, [selectedImage, t]);
+  }, [selectedImage, isTrashView, t]);
+
+  // ゴミ箱から戻す
+  const handleRestoreImages = useCallback(async (ids: string[]) => {
+    if (ids.length === 0) return;
+    try {
+      await imageAPI.restore(ids);
+      const restored = new Set(ids);
+      setImages((prev) => prev.filter((img) => !restored.has(img.id)));
+      setTotalImages((prev) => prev - ids.length);
+      setSelectedIds(new Set());
+      if (selectedImage && restored.has(selectedImage.id)) {
+        setSelectedImage(null);
+      }
+    } catch (error) {
+      console.error('Failed to restore images:', error);
+    }
+  }, [selectedImage]);
+
+  // ゴミ箱の画像を完全に削除（選択した画像、または全件）し、解放した容量を表示
+  const handlePurgeImages = useCallback(async (ids: string[] | 'all') => {
+    const count = ids === 'all' ? totalImages : ids.length;
+    if (count === 0) return;
+
+    const { showConfirm, showInfo } = await import('@/lib/dialog');
+    if (!await showConfirm(t('trash.confirmPurge', { count }))) return;
+
+    try {
+      const result = ids === 'all' ? await imageAPI.emptyTrash() : await imageAPI.purge(ids);
+      setSelectedIds(new Set());
+      setIsSelectMode(false);
+      setSelectedImage(null);
+      loadImages(searchQuery || undefined, false, 0);
+      await showInfo(t('trash.purged', { count: result.deleted, size: formatBytes(result.freedBytes) }));
+    } catch (error) {
+      console.error('Failed to purge images:', error);
+    }
+  }, [totalImages, loadImages, searchQuery, t]);
 
   // 選択トグル（Shift+クリック対応）
   const handleToggleSelect = useCallback((id: string, shiftKey: boolean) => {
@@ -291,6 +509,47 @@ export function PromptPanel({
     }
   }, [selectedIds, selectedImage, t]);
 
+  // 重複検出でゴミ箱に移した画像を一覧から外す
+  const handleDuplicatesTrashed = useCallback((ids: string[]) => {
+    const trashed = new Set(ids);
+    setImages((prev) => prev.filter((img) => !trashed.has(img.id)));
+    setTotalImages((prev) => prev - ids.length);
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !trashed.has(id))));
+    if (selectedImage && trashed.has(selectedImage.id)) {
+      setSelectedImage(null);
+    }
+  }, [selectedImage]);
+
+  // 選択中の画像のタグを変更したとき（タグで絞り込み中なら一覧が変わる）
+  const handleBulkTagsChange = useCallback(async () => {
+    await loadTags();
+    if (filter.tag) {
+      loadImages(searchQuery || undefined, false, 0);
+    }
+  }, [loadTags, filter.tag, loadImages, searchQuery]);
+
+  // 選択中の画像をコレクションに追加 / 表示中のコレクションから外す
+  const handleBulkAddToCollection = useCallback(async (collectionId: number) => {
+    if (selectedIds.size === 0) return;
+    try {
+      await collectionAPI.addImagesToCollection(collectionId, Array.from(selectedIds));
+      handleCollectionsChange(collectionId);
+    } catch (error) {
+      console.error('Failed to add images to collection:', error);
+    }
+  }, [selectedIds, handleCollectionsChange]);
+
+  const handleBulkRemoveFromCollection = useCallback(async () => {
+    if (selectedIds.size === 0 || filter.collectionId === undefined) return;
+    try {
+      await collectionAPI.removeImagesFromCollection(filter.collectionId, Array.from(selectedIds));
+      setSelectedIds(new Set());
+      handleCollectionsChange(filter.collectionId);
+    } catch (error) {
+      console.error('Failed to remove images from collection:', error);
+    }
+  }, [selectedIds, filter.collectionId, handleCollectionsChange]);
+
   // 選択モード終了時にリセット
   const handleExitSelectMode = useCallback(() => {
     setIsSelectMode(false);
@@ -298,6 +557,15 @@ export function PromptPanel({
     setLastSelectedId(null);
   }, []);
 
+  // ゴミ箱の表示切り替え（選択と開いている画像は解除）
+  const handleToggleTrashView = useCallback(() => {
+    handleExitSelectMode();
+    setSelectedImage(null);
+    setIsFilterOpen(false);
+    setIsFacetsOpen(false);
+    setIsTrashView((prev) => !prev);
+  }, [handleExitSelectMode]);
+
   const canCopy = activeTab === 'prompt' &&
     (promptSubTab === 'enhanced' ? !!enhancedPrompt : (promptSubTab === 'yaml' && isYamlValid && !!mergedYaml));
 
@@ -339,38 +607,95 @@ export function PromptPanel({
             {/* 検索バー・ソート・選択ボタン（Galleryタブ選択時のみ） */}
             {activeTab === 'gallery' && comfyEnabled && (
               <>
-                <div className="relative ml-2">
-                  <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-[#888]" />
-                  <Input
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    placeholder={t('common.search')}
-                    className="w-40 pl-7 pr-6 h-7 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4] placeholder:text-[#888]"
+                {/* バッチのグリッド表示切り替え */}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className={`h-7 px-2 ${isBatchView ? 'text-[#0e639c] bg-[#0e639c]/20' : 'text-[#888]'} hover:text-white hover:bg-[#3c3c3c]`}
+                  onClick={() => {
+                    setIsBatchView((prev) => !prev);
+                    handleExitSelectMode();
+                  }}
+                  title={t('batch.gridView')}
+                >
+                  <Grid3x3 className="h-3.5 w-3.5" />
+                </Button>
+              </>
+            )}
+            {activeTab === 'gallery' && comfyEnabled && !isBatchView && (
+              <>
+                {/* コレクション */}
+                {!isTrashView && (
+                  <CollectionSelect
+                    collections={collections}
+                    collectionId={filter.collectionId}
+                    onSelect={handleSelectCollection}
                   />
-                  {searchQuery && (
+                )}
+                <GallerySearchBar
+                  query={searchQuery}
+                  onQueryChange={setSearchQuery}
+                  showSavedSearches={!isTrashView}
+                />
+                {!isTrashView && (
+                  <>
+                    {/* 画像の取り込み */}
+                    <ImageImportButton isImporting={isImporting} onImport={handleImportImages} />
+                    {/* 重複画像の検出 */}
                     <Button
                       variant="ghost"
                       size="sm"
-                      className="absolute right-0.5 top-1/2 -translate-y-1/2 h-5 w-5 p-0 text-[#888] hover:text-white"
-                      onClick={() => setSearchQuery('')}
+                      className="h-7 px-2 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+                      onClick={() => setIsDuplicatesOpen(true)}
+                      title={t('duplicates.title')}
                     >
-                      <X className="h-3 w-3" />
+                      <Layers className="h-3.5 w-3.5" />
                     </Button>
-                  )}
-                </div>
-                {/* ソートボタン */}
+                    {/* ソートボタン */}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
+                      onClick={() => setSortOrder((prev) => prev === 'desc' ? 'asc' : 'desc')}
+                      title={sortOrder === 'desc' ? t('gallery.sortNewest') : t('gallery.sortOldest')}
+                    >
+                      {sortOrder === 'desc' ? (
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      ) : (
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      )}
+                    </Button>
+                    {/* 属性ファセットの表示切り替え */}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={`h-7 px-2 ${isFacetsOpen || filter.facets ? 'text-[#0e639c] bg-[#0e639c]/20' : 'text-[#888]'} hover:text-white hover:bg-[#3c3c3c]`}
+                      onClick={() => setIsFacetsOpen((prev) => !prev)}
+                      title={t('gallery.facets')}
+                    >
+                      <ListTree className="h-3.5 w-3.5" />
+                    </Button>
+                    {/* 絞り込みボタン */}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={`h-7 px-2 ${isFilterOpen || isFilterActive ? 'text-[#0e639c] bg-[#0e639c]/20' : 'text-[#888]'} hover:text-white hover:bg-[#3c3c3c]`}
+                      onClick={() => setIsFilterOpen((prev) => !prev)}
+                      title={t('gallery.filter')}
+                    >
+                      <Filter className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+                {/* ゴミ箱 */}
                 <Button
                   variant="ghost"
                   size="sm"
-                  className="h-7 px-2 text-[#888] hover:text-white hover:bg-[#3c3c3c]"
-                  onClick={() => setSortOrder((prev) => prev === 'desc' ? 'asc' : 'desc')}
-                  title={sortOrder === 'desc' ? t('gallery.sortNewest') : t('gallery.sortOldest')}
+                  className={`h-7 px-2 ${isTrashView ? 'text-[#0e639c] bg-[#0e639c]/20' : 'text-[#888]'} hover:text-white hover:bg-[#3c3c3c]`}
+                  onClick={handleToggleTrashView}
+                  title={t('trash.title')}
                 >
-                  {sortOrder === 'desc' ? (
-                    <ArrowDown className="h-3.5 w-3.5" />
-                  ) : (
-                    <ArrowUp className="h-3.5 w-3.5" />
-                  )}
+                  <Trash2 className="h-3.5 w-3.5" />
                 </Button>
                 {/* 選択ボタン */}
                 <Button
@@ -430,14 +755,28 @@ export function PromptPanel({
           <div className="flex-1 overflow-auto">
             {promptSubTab === 'yaml' ? (
               !isYamlValid ? (
-                <div className="p-4 flex items-center gap-2 text-yellow-500 text-sm">
-                  <AlertCircle className="h-4 w-4" />
-                  <span>{t('prompt.yamlParseError')}</span>
-                </div>
+                diagnostics.length > 0 ? (
+                  <DiagnosticsList diagnostics={diagnostics} onNavigateToSource={onNavigateToSource} />
+                ) : (
+                  <div className="p-4 flex items-center gap-2 text-yellow-500 text-sm">
+                    <AlertCircle className="h-4 w-4" />
+                    <span>{t('prompt.yamlParseError')}</span>
+                  </div>
+                )
               ) : (
-                <pre className="p-3 text-xs font-mono whitespace-pre-wrap">
-                  <YamlHighlight yaml={mergedYaml} emptyText={t('prompt.enterYaml')} />
-                </pre>
+                <>
+                  {diagnostics.length > 0 && (
+                    <DiagnosticsList diagnostics={diagnostics} onNavigateToSource={onNavigateToSource} />
+                  )}
+                  <div className="p-3 text-xs font-mono">
+                    <YamlHighlight
+                      yaml={mergedYaml}
+                      emptyText={t('prompt.enterYaml')}
+                      provenance={provenance}
+                      onNavigateToSource={onNavigateToSource}
+                    />
+                  </div>
+                </>
               )
             ) : (
               <div className="h-full flex flex-col overflow-hidden">
@@ -477,6 +816,36 @@ export function PromptPanel({
             </div>
           ) : (
             <>
+              {/* 検索の構文エラー */}
+              {!isBatchView && <GalleryQueryError query={searchQuery} />}
+
+              {/* ゴミ箱 */}
+              {isTrashView && !isBatchView && (
+                <TrashBar imageCount={totalImages} onEmptyTrash={() => handlePurgeImages('all')} />
+              )}
+
+              {/* 表示中のコレクション */}
+              {activeCollection && !isBatchView && !isTrashView && (
+                <CollectionBar
+                  collection={activeCollection}
+                  showReorderHint={sortBy === 'manual' && !isSelectMode}
+                  onRename={() => setCollectionNameDialog({ mode: 'rename', collection: activeCollection })}
+                  onDeleted={handleCollectionDeleted}
+                />
+              )}
+
+              {/* 絞り込みバー */}
+              {isFilterOpen && !isBatchView && (
+                <GalleryFilterBar
+                  filter={filter}
+                  sortBy={sortBy}
+                  tags={tags}
+                  canSortManually={!!activeCollection}
+                  onFilterChange={setFilter}
+                  onSortByChange={setSortBy}
+                />
+              )}
+
               {/* 選択モード操作バー */}
               {isSelectMode && (
                 <div className="flex-shrink-0 px-3 py-2 bg-[#0e639c]/20 border-b border-[#0e639c]/40 flex items-center gap-2">
@@ -502,16 +871,67 @@ export function PromptPanel({
                   >
                     {t('common.deselectAll')}
                   </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    className="h-6 px-2 text-xs text-red-400 hover:text-red-300 hover:bg-red-900/30"
-                    onClick={handleBulkDelete}
-                    disabled={selectedIds.size === 0}
-                  >
-                    <Trash2 className="h-3 w-3 mr-1" />
-                    {t('common.delete')}
-                  </Button>
+                  {isTrashView ? (
+                    <TrashSelectionActions
+                      disabled={selectedIds.size === 0}
+                      onRestore={() => handleRestoreImages(Array.from(selectedIds))}
+                      onPurge={() => handlePurgeImages(Array.from(selectedIds))}
+                    />
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-[#d4d4d4] hover:text-white hover:bg-[#3c3c3c]"
+                        onClick={() => setCompareImages(images.filter((img) => selectedIds.has(img.id)))}
+                        disabled={selectedIds.size < 2 || selectedIds.size > 4}
+                        title={t('compare.description')}
+                      >
+                        <Columns2 className="h-3 w-3 mr-1" />
+                        {t('compare.open')}
+                      </Button>
+                      <AddToCollectionSelect
+                        collections={collections}
+                        excludeIds={activeCollection ? [activeCollection.id] : []}
+                        disabled={selectedIds.size === 0}
+                        onSelect={handleBulkAddToCollection}
+                        onCreate={() => setCollectionNameDialog({ mode: 'create', imageIds: Array.from(selectedIds) })}
+                      />
+                      {activeCollection && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-xs text-[#d4d4d4] hover:text-white hover:bg-[#3c3c3c]"
+                          onClick={handleBulkRemoveFromCollection}
+                          disabled={selectedIds.size === 0}
+                        >
+                          <FolderMinus className="h-3 w-3 mr-1" />
+                          {t('collections.removeFrom')}
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-[#d4d4d4] hover:text-white hover:bg-[#3c3c3c]"
+                        onClick={() => setExportImageIds(images.filter((img) => selectedIds.has(img.id)).map((img) => img.id))}
+                        disabled={selectedIds.size === 0}
+                      >
+                        <FolderOutput className="h-3 w-3 mr-1" />
+                        {t('export.open')}
+                      </Button>
+                      <BulkTagControls imageIds={selectedIds} onTagsChange={handleBulkTagsChange} />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs text-red-400 hover:text-red-300 hover:bg-red-900/30"
+                        onClick={handleBulkDelete}
+                        disabled={selectedIds.size === 0}
+                      >
+                        <Trash2 className="h-3 w-3 mr-1" />
+                        {t('common.delete')}
+                      </Button>
+                    </>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
@@ -524,21 +944,49 @@ export function PromptPanel({
               )}
 
               <div className="flex-1 overflow-hidden">
-                <ImageGallery
-                  images={images}
-                  isLoading={isLoadingImages}
-                  searchQuery={searchQuery}
-                  onSelectImage={setSelectedImage}
-                  onDeleteImage={handleDeleteImage}
-                  onLoadMore={handleLoadMore}
-                  isLoadingMore={isLoadingMore}
-                  hasMore={hasMore}
-                  isSelectMode={isSelectMode}
-                  selectedIds={selectedIds}
-                  onToggleSelect={handleToggleSelect}
-                />
+                {isBatchView ? (
+                  <BatchGrid
+                    batches={batches}
+                    refreshKey={galleryRefreshKey}
+                    onSelectImage={handleSelectBatchImage}
+                  />
+                ) : (
+                  <div className="h-full flex">
+                    {isFacetsOpen && (
+                      <div className="w-56 flex-shrink-0 border-r border-[#333]">
+                        <GalleryFacets
+                          query={searchQuery}
+                          filter={filter}
+                          refreshKey={totalImages}
+                          onFilterChange={setFilter}
+                        />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <ImageGallery
+                        images={images}
+                        isLoading={isLoadingImages}
+                        searchQuery={searchQuery}
+                        onSelectImage={handleSelectImage}
+                        onDeleteImage={handleDeleteImage}
+                        onLoadMore={handleLoadMore}
+                        isLoadingMore={isLoadingMore}
+                        hasMore={hasMore}
+                        isSelectMode={isSelectMode}
+                        selectedIds={selectedIds}
+                        onToggleSelect={handleToggleSelect}
+                        onReorder={activeCollection && sortBy === 'manual' && !isTrashView ? handleReorderCollection : undefined}
+                        onRestoreImage={isTrashView ? (image) => handleRestoreImages([image.id]) : undefined}
+                        emptyMessage={isTrashView ? t('trash.empty') : undefined}
+                      />
+                    </div>
+                  </div>
+                )}
               </div>
 
+              {/* ギャラリー表示中はウィンドウへのドロップで取り込む */}
+              <ImageDropOverlay enabled={activeTab === 'gallery'} onDrop={handleImportImages} />
+
               {/* 生成中オーバーレイ */}
               {isGenerating && (
                 <div className="absolute inset-0 bg-[#252526]/90 flex flex-col items-center justify-center gap-3 z-10">
@@ -551,12 +999,42 @@ export function PromptPanel({
         </TabsContent>
       </Tabs>
 
+      {/* コレクション名の入力（作成・名前変更） */}
+      {collectionNameDialog && (
+        <CollectionNameDialog
+          title={collectionNameDialog.mode === 'create' ? t('collections.new') : t('collections.rename')}
+          initialName={collectionNameDialog.mode === 'rename' ? collectionNameDialog.collection.name : ''}
+          onClose={() => setCollectionNameDialog(null)}
+          onSubmit={handleCollectionNameSubmit}
+        />
+      )}
+
+      {/* 比較ダイアログ */}
+      {compareImages && (
+        <ImageCompare images={compareImages} onClose={() => setCompareImages(null)} />
+      )}
+
+      {/* 重複画像の検出 */}
+      {isDuplicatesOpen && (
+        <DuplicatesDialog onClose={() => setIsDuplicatesOpen(false)} onTrashed={handleDuplicatesTrashed} />
+      )}
+
+      {/* 選択した画像の書き出し */}
+      {exportImageIds && (
+        <ExportImagesDialog imageIds={exportImageIds} onClose={() => setExportImageIds(null)} />
+      )}
+
       {/* 画像拡大ダイアログ */}
       <ImageViewer
         image={selectedImage}
-        images={images}
+        images={viewerImages ?? images}
         onClose={() => setSelectedImage(null)}
         onNavigate={setSelectedImage}
+        onRestore={onRestoreImage}
+        onMetadataChange={handleImageMetadataChange}
+        collections={collections}
+        onCollectionsChange={handleCollectionsChange}
+        onCreateCollection={(imageIds) => setCollectionNameDialog({ mode: 'create', imageIds })}
       />
     </div>
   );
@@ -38,8 +38,10 @@ import {
   Plus,
   Trash2,
   Copy,
+  ShieldCheck,
 } from 'lucide-react';
 import { DictionaryManagerDialog } from './dictionary-manager-dialog';
+import { IntegrityDialog } from './integrity-dialog';
 import { WorkflowEditor } from './workflow-editor';
 import {
   fetchComfyUISettings,
@@ -49,11 +51,14 @@ import {
   fetchOllamaSettings,
   saveOllamaSettingsAsync,
   saveLanguageAsync,
+  fetchGallerySettings,
+  saveGallerySettingsAsync,
   type ComfyUISettings,
   type WorkflowConfig,
   type OllamaSettings,
   type EnhancerPreset,
   type SupportedLanguage,
+  type GallerySettings,
 } from '@/lib/storage';
 import { changeLanguage, languages, type Language } from '@/lib/i18n';
 import { ComfyUIClient } from '@/lib/comfyui-api';
@@ -67,6 +72,7 @@ interface SettingsDialogProps {
   onSettingsChange?: () => void;
   onDictionaryChange?: () => void;
   onOllamaChange?: () => void;
+  onGalleryChange?: () => void;
 }
 
 interface WorkflowFile {
@@ -89,7 +95,7 @@ interface TreeSelection {
   id?: string; // workflow ID or preset ID
 }
 
-export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDictionaryChange, onOllamaChange }: SettingsDialogProps) {
+export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDictionaryChange, onOllamaChange, onGalleryChange }: SettingsDialogProps) {
   const { t, i18n } = useTranslation();
 
   // ツリー選択状態
@@ -105,6 +111,7 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
     url: 'http://localhost:8188',
     activeWorkflowId: '',
     workflows: [],
+    timeoutSeconds: 300,
   });
   const [availableWorkflows, setAvailableWorkflows] = useState<WorkflowFile[]>([]);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'testing' | 'success' | 'error'>('idle');
@@ -113,6 +120,7 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
   const [isSaving, setIsSaving] = useState(false);
   const [dataFolderPath, setDataFolderPath] = useState<string>('');
   const [dictionaryManagerOpen, setDictionaryManagerOpen] = useState(false);
+  const [integrityDialogOpen, setIntegrityDialogOpen] = useState(false);
 
   // Ollama設定
   const [ollamaSettings, setOllamaSettings] = useState<OllamaSettings>({
@@ -129,6 +137,9 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
   const [ollamaConnectionError, setOllamaConnectionError] = useState<string | null>(null);
   const [isLoadingModels, setIsLoadingModels] = useState(false);
 
+  // ギャラリー設定
+  const [gallerySettings, setGallerySettings] = useState<GallerySettings>({ trashRetentionDays: 0, duplicateMaxDistance: 6, exportOptions: null });
+
   // 言語設定（保存時まで適用しない）
   const [pendingLanguage, setPendingLanguage] = useState<Language>(i18n.language as Language);
 
@@ -150,6 +161,7 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
           setOllamaModels([settings.model]);
         }
       });
+      fetchGallerySettings().then(setGallerySettings);
       // 言語設定を現在の値で初期化
       setPendingLanguage(i18n.language as Language);
     }
@@ -200,6 +212,7 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
     try {
       await saveComfyUISettingsAsync(settings);
       await saveOllamaSettingsAsync(ollamaSettings);
+      await saveGallerySettingsAsync(gallerySettings);
 
       // 言語が変更された場合
       const languageChanged = pendingLanguage !== i18n.language;
@@ -633,6 +646,40 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
                       </p>
                     </div>
 
+                    {/* ゴミ箱の保持期間 */}
+                    <div className="space-y-2">
+                      <Label htmlFor="trash-retention" className="text-sm font-medium">
+                        {t('settings.trashRetention')}
+                      </Label>
+                      <Input
+                        id="trash-retention"
+                        type="number"
+                        min={0}
+                        value={gallerySettings.trashRetentionDays}
+                        onChange={(e) => setGallerySettings((prev) => ({ ...prev, trashRetentionDays: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))}
+                        className="w-32 bg-[#3c3c3c] border-[#555] text-[#d4d4d4] text-sm h-9"
+                      />
+                      <p className="text-xs text-[#888]">
+                        {t('settings.trashRetentionDescription')}
+                      </p>
+                    </div>
+
+                    {/* ギャラリーの整合性チェック */}
+                    <div className="space-y-2">
+                      <Label className="text-sm font-medium">{t('integrity.title')}</Label>
+                      <Button
+                        variant="outline"
+                        onClick={() => setIntegrityDialogOpen(true)}
+                        className="w-full h-9 bg-[#3c3c3c] border-[#555] text-[#d4d4d4] hover:bg-[#4a4a4a] hover:text-white justify-start"
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-2" />
+                        {t('integrity.open')}
+                      </Button>
+                      <p className="text-xs text-[#888]">
+                        {t('integrity.openDescription')}
+                      </p>
+                    </div>
+
                     {/* 辞書管理 */}
                     <div className="space-y-2">
                       <Label className="text-sm font-medium">{t('dictionary.title')}</Label>
@@ -705,6 +752,22 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
                           )}
                         </div>
 
+                        {/* タイムアウト */}
+                        <div className="space-y-2">
+                          <Label htmlFor="comfyui-timeout" className="text-xs text-[#b0b0b0]">
+                            {t('settings.comfyui.timeout')}
+                          </Label>
+                          <Input
+                            id="comfyui-timeout"
+                            type="number"
+                            min={10}
+                            value={settings.timeoutSeconds}
+                            onChange={(e) => updateSettings({ timeoutSeconds: Number(e.target.value) || 0 })}
+                            className="w-32 bg-[#3c3c3c] border-[#555] text-[#d4d4d4] text-sm h-9"
+                          />
+                          <p className="text-xs text-[#888]">{t('settings.comfyui.timeoutDescription')}</p>
+                        </div>
+
                       </>
                     )}
                   </div>
@@ -1035,6 +1098,14 @@ export function SettingsDialog({ open, onOpenChange, onSettingsChange, onDiction
         onOpenChange={setDictionaryManagerOpen}
         onDictionaryChange={onDictionaryChange}
       />
+
+      {/* Gallery Integrity Dialog */}
+      {integrityDialogOpen && (
+        <IntegrityDialog
+          onClose={() => setIntegrityDialogOpen(false)}
+          onGalleryChange={onGalleryChange}
+        />
+      )}
     </Dialog>
   );
 }
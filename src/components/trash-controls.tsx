@@ -0,0 +1,77 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { loadGallerySettings } from '@/lib/storage';
+
+interface TrashBarProps {
+  imageCount: number;
+  onEmptyTrash: () => void;
+}
+
+// ゴミ箱の表示中に出すバー（保持期間と「ゴミ箱を空にする」）
+export function TrashBar({ imageCount, onEmptyTrash }: TrashBarProps) {
+  const { t } = useTranslation();
+  // ゴミ箱を開くたびに設定を読み直す
+  const retentionDays = useMemo(() => loadGallerySettings().trashRetentionDays, []);
+
+  return (
+    <div className="flex-shrink-0 px-3 py-1.5 border-b border-[#333] flex items-center gap-2">
+      <Trash2 className="h-3.5 w-3.5 text-[#0e639c]" />
+      <span className="text-xs text-white">{t('trash.title')}</span>
+      <span className="text-[10px] text-[#666] truncate">
+        {retentionDays > 0
+          ? t('trash.retention', { days: retentionDays })
+          : t('trash.retentionOff')}
+      </span>
+      <div className="flex-1" />
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-red-400 hover:text-red-300 hover:bg-[#3c3c3c]"
+        onClick={onEmptyTrash}
+        disabled={imageCount === 0}
+      >
+        {t('trash.emptyTrash')}
+      </Button>
+    </div>
+  );
+}
+
+interface TrashSelectionActionsProps {
+  disabled: boolean;
+  onRestore: () => void;
+  onPurge: () => void;
+}
+
+// ゴミ箱で選択した画像の操作（元に戻す・完全に削除）
+export function TrashSelectionActions({ disabled, onRestore, onPurge }: TrashSelectionActionsProps) {
+  const { t } = useTranslation();
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-[#d4d4d4] hover:text-white hover:bg-[#3c3c3c]"
+        onClick={onRestore}
+        disabled={disabled}
+      >
+        <RotateCcw className="h-3 w-3 mr-1" />
+        {t('trash.restore')}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-6 px-2 text-xs text-red-400 hover:text-red-300 hover:bg-red-900/30"
+        onClick={onPurge}
+        disabled={disabled}
+      >
+        <Trash2 className="h-3 w-3 mr-1" />
+        {t('trash.deletePermanently')}
+      </Button>
+    </>
+  );
+}
@@ -2,9 +2,12 @@
 
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import {
   Select,
   SelectContent,
@@ -19,9 +22,19 @@ import {
   DialogHeader,
   DialogTitle,
 } from '@/components/ui/dialog';
-import { Save, Trash2, X, AlertTriangle } from 'lucide-react';
-import type { VariableDefinition, VariableValues } from '@/lib/variable-utils';
-import { DictionaryEntry, lookupDictionary } from '@/lib/dictionary-api';
+import { Save, Trash2, X, AlertTriangle, Dices } from 'lucide-react';
+import {
+  isMissingRequired,
+  isRandomVariable,
+  isTrueValue,
+  needsRandomPick,
+  validateVariableValue,
+  type VariableDefinition,
+  type VariableValues,
+  type VariableValidationError,
+  type VariableValidationIssue,
+} from '@/lib/variable-utils';
+import { DictionaryEntry, getDictionaryEntries } from '@/lib/dictionary-api';
 import * as presetAPI from '@/lib/preset-api';
 
 interface Preset {
@@ -37,30 +50,10 @@ interface VariableFormProps {
   onChange: (values: VariableValues) => void;
   dictionaryCache: Map<string, DictionaryEntry[]>;
   isYamlValid?: boolean;
-}
-
-// YAMLパスから辞書を検索するためのキーを生成
-// 例: "outfit.jacket.style" → ["outfit.jacket", "jacket"] → "jacket.style", "*.style"
-function getDictionaryEntries(
-  yamlPath: string | undefined,
-  dictionaryCache: Map<string, DictionaryEntry[]>
-): DictionaryEntry[] {
-  if (!yamlPath) return [];
-
-  const parts = yamlPath.split('.');
-  if (parts.length === 0) return [];
-
-  let key = parts[parts.length - 1]; // 最後のキー (例: "style")
-  let contextPath = parts.slice(0, -1); // コンテキストパス (例: ["outfit", "jacket"])
-
-  // YAPS仕様: "base" キーは親キーのエイリアス
-  // 例: pose.base の値は pose の値辞書を使う
-  if (key === 'base' && contextPath.length > 0) {
-    key = contextPath[contextPath.length - 1];
-    contextPath = contextPath.slice(0, -1);
-  }
-
-  return lookupDictionary(dictionaryCache, contextPath, key);
+  // ランダム要素のシード（空なら生成ごとに新しいシード）。hasRandomElements のときだけ表示
+  hasRandomElements?: boolean;
+  randomSeed?: string;
+  onRandomSeedChange?: (seed: string) => void;
 }
 
 // 値が一致するかチェック（配列対応）
@@ -83,6 +76,143 @@ function getDescription(entry: DictionaryEntry, locale: string): string | undefi
   return locale === 'ja' ? entry.descriptionJa : entry.descriptionEn;
 }
 
+// 検証エラーのメッセージ
+export function formatVariableError(t: TFunction, error: VariableValidationError): string {
+  switch (error.kind) {
+    case 'min':
+      return t('variables.errors.min', { min: error.min });
+    case 'max':
+      return t('variables.errors.max', { max: error.max });
+    case 'enum':
+      return t('variables.errors.enum', { options: error.options.join(', ') });
+    default:
+      return t(`variables.errors.${error.kind}`);
+  }
+}
+
+// 生成前の検証で表示するメッセージ（1件1行）
+export function formatVariableIssues(t: TFunction, issues: VariableValidationIssue[]): string {
+  return issues
+    .map((issue) => t('variables.issue', {
+      name: issue.name,
+      value: issue.value,
+      message: formatVariableError(t, issue.error),
+    }))
+    .join('\n');
+}
+
+// 型注釈の表示 (例: "number 0–2", "enum")
+function formatVariableType(variable: VariableDefinition): string | null {
+  if (!variable.type || variable.type === 'string') return isRandomVariable(variable) ? 'random' : null;
+  if ((variable.type === 'number' || variable.type === 'int') &&
+      (variable.min !== undefined || variable.max !== undefined)) {
+    return `${variable.type} ${variable.min ?? ''}–${variable.max ?? ''}`;
+  }
+  return variable.type;
+}
+
+// スライダーの刻み（指定がなければ範囲の1/100程度のきりのよい値）
+function getSliderStep(variable: VariableDefinition, min: number, max: number): number {
+  if (variable.step !== undefined && variable.step > 0) return variable.step;
+  return Math.pow(10, Math.floor(Math.log10(max - min)) - 2);
+}
+
+// 数値・真偽値・列挙型の入力（string の変数には null を返す）
+function TypedVariableInput({
+  id,
+  variable,
+  value,
+  onChange,
+}: {
+  id: string;
+  variable: VariableDefinition;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  const { t } = useTranslation();
+  const effectiveValue = value !== '' ? value : (variable.defaultValue ?? '');
+
+  switch (variable.type) {
+    case 'number':
+    case 'int': {
+      const input = (
+        <Input
+          id={id}
+          type="number"
+          value={value}
+          min={variable.min}
+          max={variable.max}
+          step={variable.step ?? 'any'}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={variable.defaultValue || t('variables.enterValue', { name: variable.name })}
+          className="h-7 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
+        />
+      );
+      if (variable.min === undefined || variable.max === undefined || variable.max <= variable.min) {
+        return input;
+      }
+
+      // 範囲があればスライダーと数値入力を並べる
+      const { min, max } = variable;
+      const step = getSliderStep(variable, min, max);
+      const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+      const number = Number(effectiveValue);
+      const sliderValue = effectiveValue.trim() !== '' && Number.isFinite(number)
+        ? Math.min(max, Math.max(min, number))
+        : min;
+      return (
+        <div className="flex items-center gap-2">
+          <Slider
+            value={[sliderValue]}
+            onValueChange={([next]) => onChange(next.toFixed(decimals))}
+            min={min}
+            max={max}
+            step={step}
+            className="flex-1"
+          />
+          <div className="w-20 flex-shrink-0">{input}</div>
+        </div>
+      );
+    }
+    case 'bool':
+      return (
+        <Switch
+          id={id}
+          checked={isTrueValue(effectiveValue)}
+          onCheckedChange={(checked) => onChange(checked ? 'true' : 'false')}
+          className="data-[state=checked]:bg-[#094771]"
+        />
+      );
+    case 'enum':
+      return (
+        <Select value={value || '__none__'} onValueChange={(next) => onChange(next === '__none__' ? '' : next)}>
+          <SelectTrigger id={id} className="h-7 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent className="bg-[#252526] border-[#333]">
+            <SelectItem value="__none__" className="text-xs text-[#888] focus:bg-[#094771] focus:text-white">
+              {variable.defaultValue
+                ? t('variables.useDefault', { value: variable.defaultValue })
+                : t('variables.unset')}
+            </SelectItem>
+            {/* 選択肢にない値（古いプリセットなど）も表示できるようにする */}
+            {[...(variable.options ?? []), ...(value && !variable.options?.includes(value) ? [value] : [])].map((option) => (
+              <SelectItem
+                key={option}
+                value={option}
+                className="text-xs text-[#d4d4d4] focus:bg-[#094771] focus:text-white"
+              >
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    default:
+      return null;
+  }
+}
+
 // オートコンプリート付きインプット
 function AutocompleteInput({
   id,
@@ -279,6 +409,7 @@ function MultiSelectCheckboxes({
   addCustomPlaceholder,
   showDescription = true,
   locale = 'en',
+  allowCustom = true,
 }: {
   id: string;
   value: string[];
@@ -288,6 +419,7 @@ function MultiSelectCheckboxes({
   addCustomPlaceholder: string;
   showDescription?: boolean;
   locale?: string;
+  allowCustom?: boolean; // false: 選択肢以外の値は追加できない（enum）
 }) {
   const [customInput, setCustomInput] = useState('');
 
@@ -392,26 +524,28 @@ function MultiSelectCheckboxes({
       )}
 
       {/* カスタム値追加入力 */}
-      <div className="flex gap-1 pt-1 border-t border-[#555]">
-        <Input
-          id={`${id}-custom`}
-          value={customInput}
-          onChange={(e) => setCustomInput(e.target.value)}
-          onKeyDown={handleKeyDown}
-          placeholder={addCustomPlaceholder}
-          className="h-6 text-xs bg-[#2d2d2d] border-[#555] text-[#d4d4d4] flex-1"
-        />
-        <Button
-          type="button"
-          variant="ghost"
-          size="sm"
-          onClick={handleAddCustom}
-          disabled={!customInput.trim()}
-          className="h-6 px-2 text-xs text-[#888] hover:text-[#d4d4d4] hover:bg-[#4c4c4c] disabled:opacity-30"
-        >
-          +
-        </Button>
-      </div>
+      {allowCustom && (
+        <div className="flex gap-1 pt-1 border-t border-[#555]">
+          <Input
+            id={`${id}-custom`}
+            value={customInput}
+            onChange={(e) => setCustomInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={addCustomPlaceholder}
+            className="h-6 text-xs bg-[#2d2d2d] border-[#555] text-[#d4d4d4] flex-1"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={handleAddCustom}
+            disabled={!customInput.trim()}
+            className="h-6 px-2 text-xs text-[#888] hover:text-[#d4d4d4] hover:bg-[#4c4c4c] disabled:opacity-30"
+          >
+            +
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
@@ -423,7 +557,10 @@ function VariableFormInner({
   values,
   onChange,
   dictionaryCache,
-  isYamlValid = true
+  isYamlValid = true,
+  hasRandomElements = false,
+  randomSeed = '',
+  onRandomSeedChange,
 }: VariableFormProps) {
   const { t, i18n } = useTranslation();
 
@@ -460,6 +597,16 @@ function VariableFormInner({
     return () => { cancelled = true; };
   }, [templatePath]);
 
+  // _vars の group ごとにまとめる（グループの順は最初の変数の位置。group のない変数は見出しなし）
+  const variableGroups = useMemo(() => {
+    const groups = new Map<string, VariableDefinition[]>();
+    for (const variable of variables) {
+      const group = variable.group ?? '';
+      groups.set(group, [...(groups.get(group) ?? []), variable]);
+    }
+    return Array.from(groups, ([name, items]) => ({ name, variables: items }));
+  }, [variables]);
+
   // 選択中のプリセットと現在の値が異なるかチェック
   const isModified = useMemo(() => {
     if (!selectedPreset) return false;
@@ -669,6 +816,34 @@ function VariableFormInner({
         </div>
       </div>
 
+      {/* Random seed - ランダム要素があるときだけ */}
+      {hasRandomElements && (
+        <div className="px-3 py-2 border-b border-[#333] flex-shrink-0 flex items-center gap-2">
+          <Dices className="h-3.5 w-3.5 text-[#c586c0] flex-shrink-0" />
+          <Label htmlFor="random-seed" className="text-xs text-[#888] whitespace-nowrap">
+            {t('variables.randomSeed')}
+          </Label>
+          <Input
+            id="random-seed"
+            value={randomSeed}
+            onChange={(e) => onRandomSeedChange?.(e.target.value.replace(/\D/g, ''))}
+            placeholder={t('variables.randomSeedPlaceholder')}
+            className="h-7 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4] font-mono"
+          />
+          {randomSeed && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 text-[#888] hover:text-[#d4d4d4] hover:bg-[#3c3c3c]"
+              onClick={() => onRandomSeedChange?.('')}
+              title={t('common.clear')}
+            >
+              <X className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      )}
+
       {/* Variable inputs */}
       <div className="flex-1 overflow-y-auto p-3">
         {variables.length === 0 ? (
@@ -676,69 +851,118 @@ function VariableFormInner({
             {t('variables.noVariables')}
           </div>
         ) : (
-        <div className="flex flex-col gap-3">
-          {variables.map((variable) => {
-            const suggestions = getDictionaryEntries(variable.yamlPath, dictionaryCache);
-            const hasSuggestions = suggestions.length > 0;
-            const currentValue = values[variable.name];
-
-            return (
-              <div key={variable.name} className="flex flex-col gap-1">
-                <Label
-                  htmlFor={`var-${variable.name}`}
-                  className="text-xs text-[#9cdcfe]"
-                >
-                  {variable.name}
-                  {variable.isMulti && (
-                    <span className="text-[#888] ml-1">[]</span>
-                  )}
-                  {variable.defaultValue && (
-                    <span className="text-[#666] ml-1">
-                      {t('variables.defaultValue', { value: variable.defaultValue })}
-                    </span>
-                  )}
-                </Label>
-                {/* YAMLパスをヒントとして表示 */}
-                {variable.yamlPath && (
-                  <span className="text-[10px] text-[#666] -mt-0.5">
-                    {variable.yamlPath}
-                  </span>
-                )}
-                {/* 複数選択変数 */}
-                {variable.isMulti && hasSuggestions ? (
-                  <MultiSelectCheckboxes
-                    id={`var-${variable.name}`}
-                    value={Array.isArray(currentValue) ? currentValue : []}
-                    onChange={(value) => handleChange(variable.name, value)}
-                    suggestions={suggestions}
-                    noOptionsText={t('common.noOptions')}
-                    addCustomPlaceholder={t('variables.addCustomValue')}
-                    showDescription={true}
-                    locale={i18n.language}
-                  />
-                ) : hasSuggestions ? (
-                  <AutocompleteInput
-                    id={`var-${variable.name}`}
-                    value={typeof currentValue === 'string' ? currentValue : (currentValue?.[0] ?? variable.defaultValue ?? '')}
-                    onChange={(value) => handleChange(variable.name, value)}
-                    placeholder={variable.defaultValue || t('variables.enterValue', { name: variable.name })}
-                    suggestions={suggestions}
-                    clearTitle={t('common.clear')}
-                    showDescription={true}
-                    locale={i18n.language}
-                  />
-                ) : (
-                  <Input
-                    id={`var-${variable.name}`}
-                    value={typeof currentValue === 'string' ? currentValue : (currentValue?.[0] ?? variable.defaultValue ?? '')}
-                    onChange={(e) => handleChange(variable.name, e.target.value)}
-                    placeholder={variable.defaultValue || t('variables.enterValue', { name: variable.name })}
-                    className="h-7 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
-                  />
-                )}
-              </div>
-            );
-          })}
+        <div className="flex flex-col gap-4">
+          {variableGroups.map((group) => (
+            <div key={group.name} className="flex flex-col gap-3">
+              {group.name && (
+                <div className="text-[10px] uppercase text-[#888] font-medium border-b border-[#333] pb-1">
+                  {group.name}
+                </div>
+              )}
+              {group.variables.map((variable) => {
+                // enum は辞書の代わりに選択肢を使う
+                const suggestions = variable.type === 'enum'
+                  ? (variable.options ?? []).map((option) => ({ value: option }))
+                  : getDictionaryEntries(variable.yamlPath, dictionaryCache);
+                const hasSuggestions = suggestions.length > 0;
+                const currentValue = values[variable.name];
+                const singleValue = typeof currentValue === 'string' ? currentValue : (currentValue?.[0] ?? '');
+                const typeLabel = formatVariableType(variable);
+                // 生成時にランダムに選ぶ変数（"?" または未入力の random 型）
+                const isRandomPick = needsRandomPick(variable, currentValue);
+                const placeholder = isRandomVariable(variable)
+                  ? t('variables.randomPlaceholder')
+                  : variable.defaultValue || t('variables.enterValue', { name: variable.name });
+                // 不正な値（必須の未入力、または複数選択は最初の1つ）
+                const invalidEntry: VariableValidationError | null | undefined = isMissingRequired(variable, currentValue)
+                  ? { kind: 'required' }
+                  : isRandomPick ? undefined : (Array.isArray(currentValue) ? currentValue : [singleValue || (variable.defaultValue ?? '')])
+                    .map((value) => validateVariableValue(variable, value))
+                    .find((error) => error !== null);
+
+                return (
+                  <div key={variable.name} className="flex flex-col gap-1">
+                    <Label
+                      htmlFor={`var-${variable.name}`}
+                      className="text-xs text-[#9cdcfe]"
+                      title={variable.label ? variable.name : undefined}
+                    >
+                      {variable.label ?? variable.name}
+                      {variable.required && (
+                        <span className="text-red-400 ml-0.5">*</span>
+                      )}
+                      {variable.isMulti && (
+                        <span className="text-[#888] ml-1">[]</span>
+                      )}
+                      {typeLabel && (
+                        <span className="text-[#4ec9b0] ml-1">{typeLabel}</span>
+                      )}
+                      {variable.defaultValue && (
+                        <span className="text-[#666] ml-1">
+                          {t('variables.defaultValue', { value: variable.defaultValue })}
+                        </span>
+                      )}
+                    </Label>
+                    {variable.help && (
+                      <span className="text-[10px] text-[#888] -mt-0.5">{variable.help}</span>
+                    )}
+                    {/* YAMLパスをヒントとして表示 */}
+                    {variable.yamlPath && (
+                      <span className="text-[10px] text-[#666] -mt-0.5">
+                        {variable.yamlPath}
+                      </span>
+                    )}
+                    {/* 複数選択変数 */}
+                    {variable.isMulti && hasSuggestions ? (
+                      <MultiSelectCheckboxes
+                        id={`var-${variable.name}`}
+                        value={Array.isArray(currentValue) ? currentValue : []}
+                        onChange={(value) => handleChange(variable.name, value)}
+                        suggestions={suggestions}
+                        noOptionsText={t('common.noOptions')}
+                        addCustomPlaceholder={t('variables.addCustomValue')}
+                        showDescription={true}
+                        locale={i18n.language}
+                        allowCustom={variable.type !== 'enum'}
+                      />
+                    ) : !variable.isMulti && variable.type && variable.type !== 'string' && variable.type !== 'random' ? (
+                      <TypedVariableInput
+                        id={`var-${variable.name}`}
+                        variable={variable}
+                        value={singleValue}
+                        onChange={(value) => handleChange(variable.name, value)}
+                      />
+                    ) : hasSuggestions ? (
+                      <AutocompleteInput
+                        id={`var-${variable.name}`}
+                        value={typeof currentValue === 'string' ? currentValue : (currentValue?.[0] ?? variable.defaultValue ?? '')}
+                        onChange={(value) => handleChange(variable.name, value)}
+                        placeholder={placeholder}
+                        suggestions={suggestions}
+                        clearTitle={t('common.clear')}
+                        showDescription={true}
+                        locale={i18n.language}
+                      />
+                    ) : (
+                      <Input
+                        id={`var-${variable.name}`}
+                        value={typeof currentValue === 'string' ? currentValue : (currentValue?.[0] ?? variable.defaultValue ?? '')}
+                        onChange={(e) => handleChange(variable.name, e.target.value)}
+                        placeholder={placeholder}
+                        className="h-7 text-xs bg-[#3c3c3c] border-[#555] text-[#d4d4d4]"
+                      />
+                    )}
+                    {isRandomPick && (
+                      <span className="text-[10px] text-[#c586c0]">{t('variables.randomHint')}</span>
+                    )}
+                    {invalidEntry && (
+                      <span className="text-[10px] text-red-400">{formatVariableError(t, invalidEntry)}</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
         </div>
         )}
       </div>
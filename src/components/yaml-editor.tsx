@@ -9,6 +9,8 @@ import type { DictionaryEntry } from '@/lib/dictionary-api';
 import { lookupDictionary as lookupDictionaryFromCache } from '@/lib/dictionary-api';
 import type { KeyDictionaryEntry } from '@/lib/key-dictionary-api';
 import { lookupKeysFromCache } from '@/lib/key-dictionary-api';
+import type { MergeDiagnostic } from '@/lib/yaml-utils';
+import { extractVariables } from '@/lib/variable-utils';
 import { DictionaryQuickAddDialog } from './dictionary-quick-add-dialog';
 
 interface YamlEditorProps {
@@ -20,14 +22,70 @@ interface YamlEditorProps {
   keyDictionaryCache?: Map<string, KeyDictionaryEntry[]>;
   onDictionaryChange?: () => void;
   onGenerate?: () => void;
+  diagnostics?: MergeDiagnostic[]; // このファイルで見つかったマージ診断
+  revealLine?: { line: number; nonce: number }; // 指定行へスクロール（nonce が変わるたびに実行）
 }
 
+// マージ用ディレクティブ（ルートレベルのキー補完用）
+const MERGE_DIRECTIVE_COMPLETIONS: { key: string; insertText: string; detail: string }[] = [
+  { key: '_base', insertText: '_base: ', detail: 'Base template file ({ file, with } to pass variable values)' },
+  { key: '_layers', insertText: '_layers:\n  - ', detail: 'Layer files merged in order ({ file, when, with } for conditional or parameterized layers)' },
+  { key: '_replace', insertText: '_replace: [${1}]', detail: 'Keys or dotted paths replaced instead of deep-merged with the _base / _layers of this file' },
+  { key: '_remove', insertText: '_remove: [${1}]', detail: 'Dotted paths removed from everything merged so far' },
+  { key: '_append', insertText: '_append:\n  ${1:quality}: [${2}]', detail: 'Items added to the end of merged lists' },
+  { key: '_prepend', insertText: '_prepend:\n  ${1:quality}: [${2}]', detail: 'Items added to the beginning of merged lists' },
+  {
+    key: '_vars',
+    insertText: '_vars:\n  ${1:variable}:\n    label: ${2}\n    group: ${3}',
+    detail: 'Variable declarations for the input form (label, help, group, order, required, type, options)',
+  },
+  {
+    key: '_generation',
+    insertText: '_generation:\n  ${1:width}: ${2}',
+    detail: 'Workflow property values (property or nodeId.property); variables can be used',
+  },
+];
+
+// _vars の各変数の項目（_vars.<name> の下のキー補完用）
+const VARIABLE_SCHEMA_COMPLETIONS: { key: string; insertText: string; detail: string }[] = [
+  { key: 'label', insertText: 'label: ', detail: 'Name shown in the variable form' },
+  { key: 'help', insertText: 'help: ', detail: 'Help text shown under the name' },
+  { key: 'group', insertText: 'group: ', detail: 'Fields with the same group are shown together' },
+  { key: 'order', insertText: 'order: ${1:1}', detail: 'Position in the form (lower first)' },
+  { key: 'required', insertText: 'required: true', detail: 'Generation stops while the field is empty' },
+  { key: 'type', insertText: 'type: ${1:number(0..1)}', detail: 'Same as ${name:type}' },
+  { key: 'options', insertText: 'options: [${1}]', detail: 'Allowed values' },
+];
+
+// 条件付きブロック（ルート以外のキー補完用）
+const CONDITION_DIRECTIVE_COMPLETIONS: { key: string; insertText: string; detail: string }[] = [
+  { key: '_if', insertText: '_if: \\${${1:variable}} == ${2:value}', detail: 'Keep this block only when the condition is true' },
+  {
+    key: '_cases',
+    insertText: '_cases:\n  - _if: \\${${1:variable}} == ${2:value}\n    ${3:key}: ${4}\n  - ${5:key}: ${6}',
+    detail: 'Use the first case whose _if is true (a case without _if always matches)',
+  },
+  { key: '_value', insertText: '_value: ', detail: 'Value of a _cases entry when it is not a mapping' },
+];
+
+// 条件式（_if / when の値）の演算子
+const CONDITION_OPERATOR_COMPLETIONS: { label: string; insertText: string; detail: string }[] = [
+  { label: '==', insertText: '== ', detail: 'Equal' },
+  { label: '!=', insertText: '!= ', detail: 'Not equal' },
+  { label: 'in [...]', insertText: 'in [${1}]', detail: 'One of the listed values' },
+  { label: 'not in [...]', insertText: 'not in [${1}]', detail: 'None of the listed values' },
+  { label: '&&', insertText: '&& ', detail: 'Both conditions' },
+  { label: '||', insertText: '|| ', detail: 'Either condition' },
+  { label: '<', insertText: '< ', detail: 'Less than (numbers)' },
+  { label: '>', insertText: '> ', detail: 'Greater than (numbers)' },
+];
+
 export interface YamlEditorRef {
   insertSnippet: (content: string, isBlock: boolean) => void;
 }
 
 const YamlEditorInner = forwardRef<YamlEditorRef, YamlEditorProps>(function YamlEditor(
-  { value, onChange, fileList = [], snippets = [], dictionaryCache, keyDictionaryCache, onDictionaryChange, onGenerate },
+  { value, onChange, fileList = [], snippets = [], dictionaryCache, keyDictionaryCache, onDictionaryChange, onGenerate, diagnostics, revealLine },
   ref
 ) {
   const { t, i18n } = useTranslation();
@@ -52,6 +110,57 @@ const YamlEditorInner = forwardRef<YamlEditorRef, YamlEditorProps>(function Yaml
     languageRef.current = i18n.language;
   }, [i18n.language]);
 
+  // 診断をエディタのマーカーとして表示
+  const diagnosticsRef = useRef<MergeDiagnostic[] | undefined>(diagnostics);
+  const applyDiagnosticMarkers = useCallback(() => {
+    const monaco = monacoRef.current;
+    const model = editorRef.current?.getModel();
+    if (!monaco || !model) return;
+
+    const markers: editor.IMarkerData[] = (diagnosticsRef.current ?? []).map((d) => {
+      const line = Math.min(d.line ?? 1, model.getLineCount());
+      const column = d.column ?? 1;
+      return {
+        severity: d.severity === 'error'
+          ? monaco.MarkerSeverity.Error
+          : d.severity === 'warning'
+            ? monaco.MarkerSeverity.Warning
+            : monaco.MarkerSeverity.Info,
+        message: t(`diagnostics.${d.kind}`, {
+          reference: d.reference,
+          chain: d.chain?.join(' → '),
+          message: d.message,
+        }),
+        startLineNumber: line,
+        startColumn: column,
+        endLineNumber: line,
+        endColumn: model.getLineMaxColumn(line),
+      };
+    });
+    monaco.editor.setModelMarkers(model, 'yaps', markers);
+  }, [t]);
+
+  useEffect(() => {
+    diagnosticsRef.current = diagnostics;
+    applyDiagnosticMarkers();
+  }, [diagnostics, applyDiagnosticMarkers]);
+
+  // 指定行へ移動（マウント前に受け取った場合はマウント時に実行）
+  const revealLineRef = useRef(revealLine);
+  const applyRevealLine = useCallback(() => {
+    const editor = editorRef.current;
+    const target = revealLineRef.current;
+    if (!editor || !target) return;
+    editor.revealLineInCenter(target.line);
+    editor.setPosition({ lineNumber: target.line, column: 1 });
+    editor.focus();
+  }, []);
+
+  useEffect(() => {
+    revealLineRef.current = revealLine;
+    applyRevealLine();
+  }, [revealLine, applyRevealLine]);
+
   // Dictionary quick add dialog state
   const [quickAddOpen, setQuickAddOpen] = useState(false);
   const [quickAddValue, setQuickAddValue] = useState('');
@@ -273,6 +382,33 @@ const YamlEditorInner = forwardRef<YamlEditorRef, YamlEditorProps>(function Yaml
             }
           }
 
+          // ルートレベルではマージ用ディレクティブ、_vars.<name> の下では変数の項目、
+          // それ以外では条件付きブロックも候補に
+          const contextPath = getContextPath(model, position.lineNumber);
+          const directives = contextPath.length === 0
+            ? MERGE_DIRECTIVE_COMPLETIONS
+            : contextPath[0] === '_vars'
+              ? (contextPath.length === 2 ? VARIABLE_SCHEMA_COMPLETIONS : [])
+              : CONDITION_DIRECTIVE_COMPLETIONS;
+          for (const directive of directives) {
+            if (typedKey && !directive.key.includes(typedKey)) continue;
+            suggestions.push({
+              label: directive.key,
+              kind: monaco.languages.CompletionItemKind.Keyword,
+              insertText: directive.insertText,
+              insertTextRules:
+                monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+              detail: directive.detail,
+              sortText: `2_${directive.key}`,
+              range: {
+                startLineNumber: position.lineNumber,
+                startColumn: position.column - typedKey.length,
+                endLineNumber: position.lineNumber,
+                endColumn: position.column,
+              },
+            });
+          }
+
           // キーに対応するスニペットを検索
           // スニペットは key または category でフィルタ（keyがない場合はcategoryをフォールバック）
           // 空行の場合は全スニペットを候補に
@@ -420,8 +556,62 @@ const YamlEditorInner = forwardRef<YamlEditorRef, YamlEditorProps>(function Yaml
             typedValue = afterComma.trimStart();
           }
 
-          // _base: の後ろならファイル補完
-          if (currentKey === '_base') {
+          // _if: / when: の後ろは条件式の補完（変数・演算子、比較の右辺では enum の選択肢）
+          if (currentKey === '_if' || currentKey === 'when') {
+            const expression = valueMatchWithSpace[3];
+            const typedToken = expression.match(/(?:\$\{[^}\s]*|[\w-]*)$/)?.[0] ?? '';
+            const beforeToken = expression.slice(0, expression.length - typedToken.length);
+            const needsSpace = spaceAfterColon.length === 0;
+            const range = {
+              startLineNumber: position.lineNumber,
+              startColumn: position.column - typedToken.length,
+              endLineNumber: position.lineNumber,
+              endColumn: position.column,
+            };
+            const suggestions: languages.CompletionItem[] = [];
+            const variables = extractVariables(model.getValue());
+
+            const comparison = beforeToken.match(/\$\{([^}[\]|:]+)[^}]*\}\s*(?:==|!=|(?:not\s+)?in\s*\[[^\]]*)\s*$/);
+            const compared = comparison ? variables.find((v) => v.name === comparison[1].trim()) : undefined;
+            for (const option of compared?.options ?? []) {
+              suggestions.push({
+                label: option,
+                kind: monaco.languages.CompletionItemKind.EnumMember,
+                insertText: option,
+                detail: compared!.name,
+                sortText: `0_${option}`,
+                range,
+              });
+            }
+            for (const variable of variables) {
+              suggestions.push({
+                label: `\${${variable.name}}`,
+                kind: monaco.languages.CompletionItemKind.Variable,
+                insertText: `${needsSpace ? ' ' : ''}\${${variable.name}}`,
+                detail: variable.type ?? 'variable',
+                sortText: `1_${variable.name}`,
+                range,
+              });
+            }
+            if (beforeToken.trim()) {
+              for (const operator of CONDITION_OPERATOR_COMPLETIONS) {
+                suggestions.push({
+                  label: operator.label,
+                  kind: monaco.languages.CompletionItemKind.Operator,
+                  insertText: operator.insertText,
+                  insertTextRules:
+                    monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+                  detail: operator.detail,
+                  sortText: `2_${operator.label}`,
+                  range,
+                });
+              }
+            }
+            return { suggestions };
+          }
+
+          // _base: の後ろ（オブジェクト形式なら _base の下の file:）ならファイル補完
+          if (currentKey === '_base' || (currentKey === 'file' && getContextPath(model, position.lineNumber)[0] === '_base')) {
             const filteredFiles = fileListRef.current.filter((f) =>
               f.toLowerCase().includes(typedValue.toLowerCase())
             );
@@ -519,19 +709,20 @@ const YamlEditorInner = forwardRef<YamlEditorRef, YamlEditorProps>(function Yaml
           // 直前の行から _layers: を探す
           let isInLayers = false;
           for (let i = position.lineNumber - 1; i >= 1; i--) {
-            const prevLine = model.getLineContent(i).trim();
-            if (prevLine.startsWith('_layers:')) {
+            const prevLine = model.getLineContent(i);
+            if (prevLine.trim().startsWith('_layers:')) {
               isInLayers = true;
               break;
             }
-            // 他のキーが出てきたら終了
-            if (prevLine.match(/^\w+:/) && !prevLine.startsWith('-')) {
+            // 他のルートレベルのキーが出てきたら終了（条件付きレイヤーの file: / when: は続き）
+            if (prevLine.match(/^\w+:/)) {
               break;
             }
           }
 
           if (isInLayers) {
-            const typedValue = layerItemMatch[1];
+            // "- file: xxx" / "- { file: xxx" 形式（条件付きレイヤー）もファイル補完
+            const typedValue = layerItemMatch[1].replace(/^(\{\s*)?file\s*:\s*/, '');
             const filteredFiles = fileListRef.current.filter((f) =>
               f.toLowerCase().includes(typedValue.toLowerCase())
             );
@@ -645,8 +836,12 @@ const YamlEditorInner = forwardRef<YamlEditorRef, YamlEditorProps>(function Yaml
       },
     });
 
+    // マウント前に受け取った診断を反映
+    applyDiagnosticMarkers();
+
     // エディタのフォーカス
     editor.focus();
+    applyRevealLine();
 
     // IME compositionイベントを監視
     const domNode = editor.getDomNode();
@@ -674,7 +869,7 @@ const YamlEditorInner = forwardRef<YamlEditorRef, YamlEditorProps>(function Yaml
         },
       });
     }
-  }, [getContextPath, lookupDictionary, onChange, openQuickAddDialog, t]);
+  }, [getContextPath, lookupDictionary, onChange, openQuickAddDialog, applyDiagnosticMarkers, applyRevealLine, t]);
 
   const handleChange: OnChange = useCallback(
     (newValue) => {
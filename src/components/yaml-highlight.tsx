@@ -0,0 +1,99 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  mapYamlLinesToPaths,
+  type ProvenanceEntry,
+  type ProvenanceMap,
+  type ValueSource,
+} from '@/lib/yaml-utils';
+
+// 出どころファイルごとのガター色
+const SOURCE_COLORS = ['#569cd6', '#4ec9b0', '#c586c0', '#dcdcaa', '#ce9178', '#9cdcfe', '#b5cea8'];
+
+function getSourceColor(file: string): string {
+  let hash = 0;
+  for (let i = 0; i < file.length; i++) {
+    hash = (hash * 31 + file.charCodeAt(i)) | 0;
+  }
+  return SOURCE_COLORS[Math.abs(hash) % SOURCE_COLORS.length];
+}
+
+function formatSource(source: ValueSource): string {
+  return source.line !== undefined ? `${source.file}:${source.line}` : source.file;
+}
+
+interface YamlHighlightProps {
+  yaml: string;
+  emptyText: string;
+  provenance?: ProvenanceMap;
+  onNavigateToSource?: (file: string, line?: number) => void;
+}
+
+// YAMLのnegativeセクションを赤くハイライトし、各行に値の出どころを表示するコンポーネント
+export function YamlHighlight({ yaml, emptyText, provenance, onNavigateToSource }: YamlHighlightProps) {
+  const { t } = useTranslation();
+  const lines = useMemo(() => yaml.split('\n'), [yaml]);
+  const linePaths = useMemo(() => mapYamlLinesToPaths(yaml), [yaml]);
+
+  if (!yaml) {
+    return <span className="text-[#888]">{emptyText}</span>;
+  }
+
+  const hasProvenance = !!provenance && Object.keys(provenance).length > 0;
+
+  // 各行の表示情報を事前に計算
+  // negativeセクション: 行頭の "negative:" から、次の行頭のトップレベルキー（インデントなし）まで
+  // 1行形式: negative: hogehoge
+  // 複数行形式: negative:\n  - hogehoge\n  - fugafuga
+  const rows: { line: string; isNegative: boolean; entry?: ProvenanceEntry; showLabel: boolean }[] = [];
+  let inNegative = false;
+  let prevFile: string | null = null;
+  lines.forEach((line, index) => {
+    if (/^negative:/.test(line)) {
+      inNegative = true;
+    } else if (line && !/^[ \t]/.test(line)) {
+      inNegative = false;
+    }
+    const path = linePaths[index];
+    const entry = hasProvenance && path ? provenance[path] : undefined;
+    // 同じファイルが続く場合はラベルを省略
+    rows.push({ line, isNegative: inNegative, entry, showLabel: !!entry && entry.file !== prevFile });
+    prevFile = entry ? entry.file : path ? prevFile : null;
+  });
+
+  return (
+    <>
+      {rows.map(({ line, isNegative, entry, showLabel }, index) => {
+        const tooltip = entry
+          ? [
+              t('prompt.provenanceSetBy', { source: formatSource(entry) }),
+              ...(entry.overridden.length > 0
+                ? [t('prompt.provenanceOverrides', { sources: entry.overridden.map(formatSource).join(', ') })]
+                : []),
+            ].join('\n')
+          : undefined;
+
+        return (
+          <div key={index} className="flex hover:bg-[#2a2d2e]" title={tooltip}>
+            {hasProvenance && (
+              <button
+                type="button"
+                className="w-24 flex-shrink-0 pr-2 mr-2 text-left text-[10px] text-[#888] hover:text-white truncate border-r-2 disabled:cursor-default disabled:hover:text-[#888]"
+                style={{ borderRightColor: entry ? getSourceColor(entry.file) : 'transparent' }}
+                disabled={!entry || !onNavigateToSource}
+                onClick={() => entry && onNavigateToSource?.(entry.file, entry.line)}
+              >
+                {showLabel && entry ? entry.file.split('/').pop() : ''}
+              </button>
+            )}
+            <span className={`whitespace-pre-wrap min-w-0 ${isNegative ? 'text-red-400/80' : 'text-[#d4d4d4]'}`}>
+              {line || ' '}
+            </span>
+          </div>
+        );
+      })}
+    </>
+  );
+}
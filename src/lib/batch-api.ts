@@ -0,0 +1,445 @@
+// Batch API - generation queue stored in SQLite
+// A batch expands up to three axes (variables, presets or seeds) into jobs,
+// either as the full cartesian product (X/Y/Z plot) or as a random sample
+
+import type { VariableValues } from './variable-utils';
+import type { Preset } from './preset-api';
+import type { RandomChoices } from './random-choices';
+
+// 軸の種類
+// variable: 1つの変数の値を切り替える, preset: 変数プリセットを切り替える, seed: シードを切り替える
+export type BatchAxisType = 'variable' | 'preset' | 'seed';
+
+export interface BatchAxis {
+  type: BatchAxisType;
+  name?: string;    // 変数名（type: variable）
+  values: string[]; // 変数の値 / プリセット名 / シード
+}
+
+// matrix: すべての組み合わせ, random: 組み合わせからランダムに sampleCount 件
+export type BatchMode = 'matrix' | 'random';
+
+export interface BatchConfig {
+  mode: BatchMode;
+  axes: BatchAxis[];   // X / Y / Z の順（最大3つ）
+  sampleCount?: number; // random のときの件数
+  fixedSeed?: number;   // seed 軸がないとき全ジョブで使うシード（省略時はジョブごとにランダム）
+}
+
+export type BatchStatus = 'running' | 'paused' | 'cancelled' | 'completed';
+export type BatchAction = 'pause' | 'resume' | 'cancel' | 'retry' | 'delete';
+export type BatchJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Batch {
+  id: string;
+  templatePath: string;
+  templateContent?: string; // キュー追加時のテンプレートの内容
+  config: BatchConfig;
+  workflowId?: string;
+  overrideValues: Record<string, string | number>;
+  enhance: boolean;
+  status: BatchStatus;
+  createdAt: string;
+  total: number;
+  counts: Record<BatchJobStatus, number>;
+}
+
+export interface BatchJobImage {
+  id: string;
+  filename: string;
+}
+
+export interface BatchJob {
+  id: string;
+  batchId: string;
+  position: number;
+  coords: number[];  // 各軸の値のインデックス
+  labels: string[];  // 各軸の値の表示名
+  values: VariableValues;
+  seed?: number;
+  prompt: string;
+  negativePrompt?: string;
+  randomChoices?: RandomChoices;
+  overrideValues?: Record<string, string | number>; // テンプレートの _generation の値（バッチの上書き値より優先）
+  status: BatchJobStatus;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
+  images: BatchJobImage[];
+}
+
+// 1つの組み合わせ（プロンプト生成前）
+export interface BatchCombination {
+  coords: number[];
+  labels: string[];
+  values: VariableValues;
+  seed?: number;
+}
+
+// キューに追加するジョブ（プロンプトは追加時に確定）
+export interface BatchJobInput extends BatchCombination {
+  prompt: string;
+  negativePrompt?: string;
+  randomChoices?: RandomChoices; // ランダム要素はキュー追加時に選ぶ
+  overrideValues?: Record<string, string | number>;
+}
+
+export interface CreateBatchInput {
+  templatePath: string;
+  templateContent: string;
+  config: BatchConfig;
+  workflowId?: string;
+  overrideValues: Record<string, string | number>;
+  enhance: boolean;
+}
+
+interface BatchRow {
+  id: string;
+  template_path: string;
+  template_content: string | null;
+  config: string;
+  workflow_id: string | null;
+  override_values: string | null;
+  enhance: number;
+  status: BatchStatus;
+  created_at: string;
+}
+
+interface BatchJobRow {
+  id: string;
+  batch_id: string;
+  position: number;
+  coords: string;
+  labels: string;
+  variable_values: string;
+  seed: number | null;
+  prompt: string;
+  negative_prompt: string | null;
+  random_choices: string | null;
+  override_values: string | null;
+  status: BatchJobStatus;
+  error: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+}
+
+export const MAX_BATCH_AXES = 3;
+
+// 組み合わせの総数
+export function countCombinations(axes: BatchAxis[]): number {
+  if (axes.length === 0) return 0;
+  return axes.reduce((total, axis) => total * axis.values.length, 1);
+}
+
+// インデックス → 各軸の座標（X が最も速く変わる）
+function indexToCoords(index: number, axes: BatchAxis[]): number[] {
+  const coords: number[] = [];
+  let rest = index;
+  for (const axis of axes) {
+    coords.push(rest % axis.values.length);
+    rest = Math.floor(rest / axis.values.length);
+  }
+  return coords;
+}
+
+// 0..total-1 から count 件をランダムに選び、元の順序で返す
+function sampleIndices(total: number, count: number): number[] {
+  const indices = Array.from({ length: total }, (_, i) => i);
+  const size = Math.min(count, total);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(Math.random() * (total - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, size).sort((a, b) => a - b);
+}
+
+// 設定を組み合わせに展開
+// baseValues: 軸で指定されていない変数の値（現在の入力値）
+// presets: preset 軸で使うプリセット（名前で参照）
+export function expandBatchCombinations(
+  config: BatchConfig,
+  baseValues: VariableValues,
+  presets: Preset[] = []
+): BatchCombination[] {
+  const axes = config.axes.filter((axis) => axis.values.length > 0);
+  const total = countCombinations(axes);
+  if (total === 0) return [];
+
+  const indices = config.mode === 'random'
+    ? sampleIndices(total, config.sampleCount ?? total)
+    : Array.from({ length: total }, (_, i) => i);
+
+  return indices.map((index) => {
+    const coords = indexToCoords(index, axes);
+    const values: VariableValues = { ...baseValues };
+    let seed = config.fixedSeed;
+
+    axes.forEach((axis, axisIndex) => {
+      const value = axis.values[coords[axisIndex]];
+      if (axis.type === 'variable' && axis.name) {
+        values[axis.name] = value;
+      } else if (axis.type === 'preset') {
+        const preset = presets.find((p) => p.name === value);
+        if (preset) Object.assign(values, preset.values);
+      } else if (axis.type === 'seed') {
+        const parsed = Number(value);
+        if (Number.isFinite(parsed)) seed = parsed;
+      }
+    });
+
+    return {
+      coords,
+      labels: axes.map((axis, axisIndex) => axis.values[coords[axisIndex]]),
+      values,
+      seed,
+    };
+  });
+}
+
+// シード軸の値を作る（start 省略時はランダムな開始値）
+export function createSeedValues(count: number, start?: number): string[] {
+  const first = start ?? Math.floor(Math.random() * 4294967294) + 1;
+  return Array.from({ length: Math.max(0, count) }, (_, i) => String(first + i));
+}
+
+function emptyCounts(): Record<BatchJobStatus, number> {
+  return { pending: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+}
+
+function rowToBatch(row: BatchRow, counts: Record<BatchJobStatus, number>): Batch {
+  return {
+    id: row.id,
+    templatePath: row.template_path,
+    templateContent: row.template_content ?? undefined,
+    config: JSON.parse(row.config),
+    workflowId: row.workflow_id || undefined,
+    overrideValues: row.override_values ? JSON.parse(row.override_values) : {},
+    enhance: row.enhance === 1,
+    status: row.status,
+    createdAt: row.created_at,
+    total: Object.values(counts).reduce((sum, n) => sum + n, 0),
+    counts,
+  };
+}
+
+function rowToJob(row: BatchJobRow, images: BatchJobImage[] = []): BatchJob {
+  return {
+    id: row.id,
+    batchId: row.batch_id,
+    position: row.position,
+    coords: JSON.parse(row.coords),
+    labels: JSON.parse(row.labels),
+    values: JSON.parse(row.variable_values),
+    seed: row.seed ?? undefined,
+    prompt: row.prompt,
+    negativePrompt: row.negative_prompt || undefined,
+    randomChoices: row.random_choices ? JSON.parse(row.random_choices) : undefined,
+    overrideValues: row.override_values ? JSON.parse(row.override_values) : undefined,
+    status: row.status,
+    error: row.error || undefined,
+    startedAt: row.started_at || undefined,
+    completedAt: row.completed_at || undefined,
+    images,
+  };
+}
+
+// バッチをキューに追加
+export async function createBatch(input: CreateBatchInput, jobs: BatchJobInput[]): Promise<string> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const now = new Date().toISOString();
+  const id = `${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
+
+  await db.execute(
+    `INSERT INTO batches (id, template_path, template_content, config, workflow_id, override_values, enhance, status, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 'running', ?)`,
+    [
+      id,
+      input.templatePath,
+      input.templateContent,
+      JSON.stringify(input.config),
+      input.workflowId || null,
+      JSON.stringify(input.overrideValues),
+      input.enhance ? 1 : 0,
+      now,
+    ]
+  );
+
+  for (let i = 0; i < jobs.length; i++) {
+    const job = jobs[i];
+    await db.execute(
+      `INSERT INTO batch_jobs (id, batch_id, position, coords, labels, variable_values, seed, prompt, negative_prompt, random_choices, override_values, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [
+        `${id}-${i}`,
+        id,
+        i,
+        JSON.stringify(job.coords),
+        JSON.stringify(job.labels),
+        JSON.stringify(job.values),
+        job.seed ?? null,
+        job.prompt,
+        job.negativePrompt || null,
+        job.randomChoices ? JSON.stringify(job.randomChoices) : null,
+        job.overrideValues && Object.keys(job.overrideValues).length > 0 ? JSON.stringify(job.overrideValues) : null,
+      ]
+    );
+  }
+
+  return id;
+}
+
+// バッチ一覧（新しい順、ジョブの状態ごとの件数付き）
+export async function listBatches(): Promise<Batch[]> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const rows = await db.select<BatchRow>('SELECT * FROM batches ORDER BY created_at DESC');
+  const countRows = await db.select<{ batch_id: string; status: BatchJobStatus; count: number }>(
+    'SELECT batch_id, status, COUNT(*) as count FROM batch_jobs GROUP BY batch_id, status'
+  );
+
+  const countsByBatch = new Map<string, Record<BatchJobStatus, number>>();
+  for (const row of countRows) {
+    const counts = countsByBatch.get(row.batch_id) ?? emptyCounts();
+    counts[row.status] = row.count;
+    countsByBatch.set(row.batch_id, counts);
+  }
+
+  return rows.map((row) => rowToBatch(row, countsByBatch.get(row.id) ?? emptyCounts()));
+}
+
+// バッチのジョブ一覧（生成済みの画像付き、削除済みの画像は除く）
+export async function getBatchJobs(batchId: string): Promise<BatchJob[]> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const rows = await db.select<BatchJobRow>(
+    'SELECT * FROM batch_jobs WHERE batch_id = ? ORDER BY position',
+    [batchId]
+  );
+  const imageRows = await db.select<{ id: string; filename: string; batch_job_id: string }>(
+    `SELECT id, filename, batch_job_id FROM images
+     WHERE batch_id = ? AND deleted_at IS NULL
+     ORDER BY created_at`,
+    [batchId]
+  );
+
+  const imagesByJob = new Map<string, BatchJobImage[]>();
+  for (const image of imageRows) {
+    const list = imagesByJob.get(image.batch_job_id) ?? [];
+    list.push({ id: image.id, filename: image.filename });
+    imagesByJob.set(image.batch_job_id, list);
+  }
+
+  return rows.map((row) => rowToJob(row, imagesByJob.get(row.id)));
+}
+
+// 次に実行するジョブ（実行中のバッチのうち古い順）
+export async function getNextPendingJob(): Promise<{ batch: Batch; job: BatchJob } | null> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const rows = await db.select<BatchJobRow>(
+    `SELECT j.* FROM batch_jobs j
+     JOIN batches b ON j.batch_id = b.id
+     WHERE j.status = 'pending' AND b.status = 'running'
+     ORDER BY b.created_at, j.position
+     LIMIT 1`
+  );
+  if (rows.length === 0) return null;
+
+  const batchRows = await db.select<BatchRow>('SELECT * FROM batches WHERE id = ?', [rows[0].batch_id]);
+  if (batchRows.length === 0) return null;
+
+  return { batch: rowToBatch(batchRows[0], emptyCounts()), job: rowToJob(rows[0]) };
+}
+
+// ジョブの状態を更新
+// 完了・失敗で実行待ちのジョブがなくなったらバッチも完了にする
+export async function updateJobStatus(
+  jobId: string,
+  status: BatchJobStatus,
+  error?: string
+): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+
+  if (status === 'running') {
+    await db.execute(
+      `UPDATE batch_jobs SET status = ?, error = NULL, started_at = ? WHERE id = ?`,
+      [status, now, jobId]
+    );
+    return;
+  }
+
+  await db.execute(
+    'UPDATE batch_jobs SET status = ?, error = ?, completed_at = ? WHERE id = ?',
+    [status, error || null, now, jobId]
+  );
+
+  await db.execute(
+    `UPDATE batches SET status = 'completed'
+     WHERE id = (SELECT batch_id FROM batch_jobs WHERE id = ?)
+       AND status = 'running'
+       AND NOT EXISTS (
+         SELECT 1 FROM batch_jobs
+         WHERE batch_id = batches.id AND status IN ('pending', 'running')
+       )`,
+    [jobId]
+  );
+}
+
+// バッチの一時停止・再開・キャンセル
+// キャンセル時は実行待ちのジョブもキャンセル（実行中のジョブは最後まで実行される）
+export async function setBatchStatus(batchId: string, status: BatchStatus): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  await db.execute('UPDATE batches SET status = ? WHERE id = ?', [status, batchId]);
+
+  if (status === 'cancelled') {
+    await db.execute(
+      `UPDATE batch_jobs SET status = 'cancelled', completed_at = ? WHERE batch_id = ? AND status = 'pending'`,
+      [new Date().toISOString(), batchId]
+    );
+  }
+}
+
+// 失敗・キャンセルしたジョブを再実行
+export async function retryBatch(batchId: string): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  await db.execute(
+    `UPDATE batch_jobs SET status = 'pending', error = NULL, started_at = NULL, completed_at = NULL
+     WHERE batch_id = ? AND status IN ('failed', 'cancelled')`,
+    [batchId]
+  );
+  await db.execute(`UPDATE batches SET status = 'running' WHERE id = ?`, [batchId]);
+}
+
+// バッチを削除（ジョブも削除、生成済みの画像は残る）
+export async function deleteBatch(batchId: string): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  await db.execute('DELETE FROM batch_jobs WHERE batch_id = ?', [batchId]);
+  await db.execute('DELETE FROM batches WHERE id = ?', [batchId]);
+}
+
+// 起動時: 前回の終了で中断されたジョブを実行待ちに戻し、そのバッチは一時停止にする
+// （アプリを開いただけで生成が始まらないように）
+export async function recoverInterruptedBatches(): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  await db.execute(`UPDATE batch_jobs SET status = 'pending', started_at = NULL WHERE status = 'running'`);
+  await db.execute(
+    `UPDATE batches SET status = 'paused'
+     WHERE status = 'running'
+       AND EXISTS (SELECT 1 FROM batch_jobs WHERE batch_id = batches.id AND status = 'pending')`
+  );
+}
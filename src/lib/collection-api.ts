@@ -0,0 +1,431 @@
+// Collection API for the gallery
+// Smart collections are saved searches in the gallery query language (see gallery-query.ts)
+// Collections are user-created albums with a manual order, exportable as a folder or zip
+
+import { getImagesPath, joinPath } from './tauri-utils';
+import { imageAPI } from './image-api';
+
+export interface SmartCollection {
+  id: number;
+  name: string;
+  query: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface SmartCollectionRow {
+  id: number;
+  name: string;
+  query: string;
+  created_at: string;
+  updated_at: string;
+}
+
+function toSmartCollection(row: SmartCollectionRow): SmartCollection {
+  return {
+    id: row.id,
+    name: row.name,
+    query: row.query,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Get all smart collections
+export async function getSmartCollections(): Promise<SmartCollection[]> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const rows = await db.select<SmartCollectionRow>(
+    'SELECT * FROM smart_collections ORDER BY name'
+  );
+  return rows.map(toSmartCollection);
+}
+
+// Save a search as a smart collection (same name overwrites the query)
+export async function saveSmartCollection(name: string, query: string): Promise<SmartCollection> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const now = new Date().toISOString();
+  await db.execute(
+    `INSERT INTO smart_collections (name, query, created_at, updated_at)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(name) DO UPDATE SET
+       query = excluded.query,
+       updated_at = excluded.updated_at`,
+    [name, query, now, now]
+  );
+
+  const rows = await db.select<SmartCollectionRow>(
+    'SELECT * FROM smart_collections WHERE name = ?',
+    [name]
+  );
+  if (rows.length === 0) {
+    throw new Error('Failed to save smart collection');
+  }
+  return toSmartCollection(rows[0]);
+}
+
+// Delete a smart collection
+export async function deleteSmartCollection(id: number): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  await db.execute('DELETE FROM smart_collections WHERE id = ?', [id]);
+}
+
+// ============================================
+// Collections (albums)
+// ============================================
+
+export interface Collection {
+  id: number;
+  name: string;
+  imageCount: number; // ゴミ箱の画像を除く
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface CollectionRow {
+  id: number;
+  name: string;
+  image_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function toCollection(row: CollectionRow): Collection {
+  return {
+    id: row.id,
+    name: row.name,
+    imageCount: row.image_count,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const COLLECTION_SELECT = `
+  SELECT c.id, c.name, c.created_at, c.updated_at, COUNT(i.id) AS image_count
+  FROM collections c
+  LEFT JOIN collection_images ci ON ci.collection_id = c.id
+  LEFT JOIN images i ON i.id = ci.image_id AND i.deleted_at IS NULL
+`;
+
+// Get all collections with image counts
+export async function getCollections(): Promise<Collection[]> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const rows = await db.select<CollectionRow>(
+    `${COLLECTION_SELECT} GROUP BY c.id ORDER BY c.name COLLATE NOCASE`
+  );
+  return rows.map(toCollection);
+}
+
+// Create a collection (returns the existing one if the name is taken)
+export async function createCollection(name: string): Promise<Collection> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Collection name is empty');
+  }
+  const now = new Date().toISOString();
+  await db.execute(
+    'INSERT OR IGNORE INTO collections (name, created_at, updated_at) VALUES (?, ?, ?)',
+    [trimmed, now, now]
+  );
+
+  const rows = await db.select<CollectionRow>(
+    `${COLLECTION_SELECT} WHERE c.name = ? GROUP BY c.id`,
+    [trimmed]
+  );
+  if (rows.length === 0) {
+    throw new Error('Failed to create collection');
+  }
+  return toCollection(rows[0]);
+}
+
+// Rename a collection
+export async function renameCollection(id: number, name: string): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Collection name is empty');
+  }
+  const existing = await db.select<{ id: number }>(
+    'SELECT id FROM collections WHERE name = ? AND id != ?',
+    [trimmed, id]
+  );
+  if (existing.length > 0) {
+    throw new Error(`Collection "${trimmed}" already exists`);
+  }
+  await db.execute(
+    'UPDATE collections SET name = ?, updated_at = ? WHERE id = ?',
+    [trimmed, new Date().toISOString(), id]
+  );
+}
+
+// Delete a collection (the images themselves are kept)
+export async function deleteCollection(id: number): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  // collection_images rows go with it (ON DELETE CASCADE)
+  await db.execute('DELETE FROM collections WHERE id = ?', [id]);
+}
+
+// IDs of the collections an image belongs to
+export async function getImageCollectionIds(imageId: string): Promise<number[]> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const rows = await db.select<{ collection_id: number }>(
+    'SELECT collection_id FROM collection_images WHERE image_id = ?',
+    [imageId]
+  );
+  return rows.map((row) => row.collection_id);
+}
+
+// Add images to the end of a collection (images already in it keep their position)
+export async function addImagesToCollection(collectionId: number, imageIds: string[]): Promise<number> {
+  if (imageIds.length === 0) return 0;
+
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const maxRows = await db.select<{ max_position: number | null }>(
+    'SELECT MAX(position) AS max_position FROM collection_images WHERE collection_id = ?',
+    [collectionId]
+  );
+  let position = (maxRows[0]?.max_position ?? -1) + 1;
+  const now = new Date().toISOString();
+
+  let count = 0;
+  for (const imageId of imageIds) {
+    const result = await db.execute(
+      'INSERT OR IGNORE INTO collection_images (collection_id, image_id, position, added_at) VALUES (?, ?, ?, ?)',
+      [collectionId, imageId, position, now]
+    );
+    if (result.rowsAffected > 0) {
+      position++;
+      count++;
+    }
+  }
+  if (count > 0) {
+    await db.execute('UPDATE collections SET updated_at = ? WHERE id = ?', [now, collectionId]);
+  }
+
+  return count;
+}
+
+// Remove images from a collection
+export async function removeImagesFromCollection(collectionId: number, imageIds: string[]): Promise<number> {
+  if (imageIds.length === 0) return 0;
+
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  let count = 0;
+  for (const imageId of imageIds) {
+    const result = await db.execute(
+      'DELETE FROM collection_images WHERE collection_id = ? AND image_id = ?',
+      [collectionId, imageId]
+    );
+    count += result.rowsAffected;
+  }
+  if (count > 0) {
+    await db.execute(
+      'UPDATE collections SET updated_at = ? WHERE id = ?',
+      [new Date().toISOString(), collectionId]
+    );
+  }
+
+  return count;
+}
+
+// Move an image to the position of another image in the same collection
+export async function moveImageInCollection(
+  collectionId: number,
+  imageId: string,
+  targetImageId: string
+): Promise<void> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const db = await getDatabase();
+
+  const rows = await db.select<{ image_id: string; position: number }>(
+    'SELECT image_id, position FROM collection_images WHERE collection_id = ? ORDER BY position, added_at',
+    [collectionId]
+  );
+  const from = rows.findIndex((row) => row.image_id === imageId);
+  const to = rows.findIndex((row) => row.image_id === targetImageId);
+  if (from === -1 || to === -1 || from === to) return;
+
+  const ordered = [...rows];
+  const [moved] = ordered.splice(from, 1);
+  ordered.splice(to, 0, moved);
+
+  // 位置が変わった行だけ更新（0始まりの連番に振り直す）
+  for (let i = 0; i < ordered.length; i++) {
+    if (ordered[i].position !== i) {
+      await db.execute(
+        'UPDATE collection_images SET position = ? WHERE collection_id = ? AND image_id = ?',
+        [i, collectionId, ordered[i].image_id]
+      );
+    }
+  }
+}
+
+// ============================================
+// Export
+// ============================================
+
+export type CollectionExportFormat = 'folder' | 'zip';
+
+export interface CollectionExportResult {
+  path: string;     // 作成したフォルダまたはzipファイル
+  exported: number;
+  missing: number;  // ファイルが見つからず書き出せなかった画像
+}
+
+// manifest.json の内容
+interface CollectionManifest {
+  format: 'imaginr-collection';
+  version: 1;
+  name: string;
+  exportedAt: string;
+  images: {
+    file: string;
+    id: string;
+    createdAt: string;
+    prompt?: string;
+    negativePrompt?: string;
+    seed?: number;
+    workflowId?: string;
+    width?: number;
+    height?: number;
+    parameters?: Record<string, unknown>;
+    variables?: Record<string, unknown>;
+    templatePath?: string;
+    favorite?: boolean;
+    rating?: number;
+    notes?: string;
+    tags: string[];
+  }[];
+}
+
+export const COLLECTION_MANIFEST_FILENAME = 'manifest.json';
+
+// ファイル名に使えない文字を置き換える
+function toSafeFileName(name: string): string {
+  const safe = name.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').replace(/[. ]+$/, '').trim();
+  return safe || 'collection';
+}
+
+/**
+ * Export a collection in its manual order with a manifest.json
+ * - folder: creates "<destination>/<collection name>/" (numbered if it exists)
+ * - zip: writes the zip file at destination
+ * Image files are prefixed with their position (001_, 002_, ...) to keep the order.
+ */
+export async function exportCollection(
+  collectionId: number,
+  format: CollectionExportFormat,
+  destination: string
+): Promise<CollectionExportResult> {
+  const { getDatabase } = await import('./db/tauri-db');
+  const { readFile, writeFile, writeTextFile, copyFile, exists, mkdir } = await import('@tauri-apps/plugin-fs');
+  const db = await getDatabase();
+
+  const collections = await db.select<{ name: string }>('SELECT name FROM collections WHERE id = ?', [collectionId]);
+  if (collections.length === 0) {
+    throw new Error('Collection not found');
+  }
+  const name = collections[0].name;
+
+  const rows = await db.select<{ id: string; filename: string }>(
+    `SELECT i.id, i.filename FROM collection_images ci
+     JOIN images i ON i.id = ci.image_id
+     WHERE ci.collection_id = ? AND i.deleted_at IS NULL
+     ORDER BY ci.position, ci.added_at`,
+    [collectionId]
+  );
+
+  const imagesDir = await getImagesPath();
+  const digits = Math.max(3, String(rows.length).length);
+  const manifest: CollectionManifest = {
+    format: 'imaginr-collection',
+    version: 1,
+    name,
+    exportedAt: new Date().toISOString(),
+    images: [],
+  };
+
+  // 書き出すファイル（フォルダはコピー、zipは読み込んでまとめる）
+  const files: { file: string; sourcePath: string }[] = [];
+  let missing = 0;
+  for (const row of rows) {
+    const sourcePath = await joinPath(imagesDir, row.filename);
+    const detail = await imageAPI.getDetail(row.id);
+    if (!detail || !await exists(sourcePath)) {
+      missing++;
+      continue;
+    }
+    const file = `${String(files.length + 1).padStart(digits, '0')}_${row.filename}`;
+    files.push({ file, sourcePath });
+    manifest.images.push({
+      file,
+      id: detail.id,
+      createdAt: detail.createdAt,
+      prompt: detail.prompt,
+      negativePrompt: detail.negativePrompt,
+      seed: detail.seed,
+      workflowId: detail.workflowId,
+      width: detail.width,
+      height: detail.height,
+      parameters: detail.parameters,
+      variables: detail.variables,
+      templatePath: detail.templatePath,
+      favorite: detail.favorite,
+      rating: detail.rating,
+      notes: detail.notes,
+      tags: detail.tags,
+    });
+  }
+  const manifestJson = JSON.stringify(manifest, null, 2);
+
+  if (format === 'zip') {
+    const { createZip } = await import('./zip');
+    const entries = [];
+    for (const { file, sourcePath } of files) {
+      entries.push({ name: file, data: await readFile(sourcePath) });
+    }
+    entries.push({ name: COLLECTION_MANIFEST_FILENAME, data: new TextEncoder().encode(manifestJson) });
+    await writeFile(destination, createZip(entries));
+    return { path: destination, exported: files.length, missing };
+  }
+
+  // 同名フォルダがあれば番号を付ける
+  const baseName = toSafeFileName(name);
+  let folder = await joinPath(destination, baseName);
+  for (let n = 2; await exists(folder); n++) {
+    folder = await joinPath(destination, `${baseName} (${n})`);
+  }
+  await mkdir(folder, { recursive: true });
+
+  for (const { file, sourcePath } of files) {
+    await copyFile(sourcePath, await joinPath(folder, file));
+  }
+  await writeTextFile(await joinPath(folder, COLLECTION_MANIFEST_FILENAME), manifestJson);
+
+  return { path: folder, exported: files.length, missing };
+}
+
+// 書き出し先のzipファイル名の候補
+export function getCollectionExportFileName(name: string): string {
+  return `${toSafeFileName(name)}.zip`;
+}
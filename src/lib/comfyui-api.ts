@@ -3,19 +3,29 @@
 
 import { fetch as tauriFetch } from '@tauri-apps/plugin-http';
 import type { NodeOverride } from './storage';
+import { ComfyUIProgressSocket } from './comfyui-ws';
 
 export interface GenerationProgress {
   status: 'connecting' | 'queued' | 'generating' | 'completed' | 'error';
-  progress?: number;
-  currentNode?: string;
+  progress?: number;       // 現在のノードの進捗（0-100）
+  currentNode?: string;    // 実行中のノードの表示名
+  queuePosition?: number;  // 待ち順（1 = 次に実行）
+  step?: number;           // サンプラーのステップ
+  maxSteps?: number;
+  previewUrl?: string;     // 途中経過のプレビュー画像（Object URL）
   error?: string;
 }
 
+// 生成の待ち時間のデフォルト（5分）
+export const DEFAULT_GENERATION_TIMEOUT_MS = 300000;
+
 export interface GenerationResult {
   success: boolean;
   images: string[];
   seed?: number;
+  workflow?: Record<string, unknown>; // ComfyUIに送ったワークフロー（プロンプト・シード・上書き適用済み）
   error?: string;
+  cancelled?: boolean; // signal で中断された（images は常に空）
 }
 
 type ProgressCallback = (progress: GenerationProgress) => void;
@@ -27,10 +37,13 @@ export interface GenerationOptions {
   promptProperty?: string;      // default: 'text'
   samplerNodeId: string;
   samplerProperty?: string;     // default: 'seed'
+  seed?: number;                // 省略時はランダム
   negativePrompt?: string;
   negativeNodeId?: string;
   negativeProperty?: string;    // default: 'text'
   overrides?: NodeOverride[];
+  timeoutMs?: number;           // default: DEFAULT_GENERATION_TIMEOUT_MS
+  signal?: AbortSignal;         // 中断するとComfyUI側のジョブもキャンセル
   onProgress?: ProgressCallback;
 }
 
@@ -62,18 +75,27 @@ export class ComfyUIClient {
       promptProperty = 'text',
       samplerNodeId,
       samplerProperty = 'seed',
+      seed: requestedSeed,
       negativePrompt,
       negativeNodeId,
       negativeProperty = 'text',
       overrides = [],
+      timeoutMs = DEFAULT_GENERATION_TIMEOUT_MS,
+      signal,
       onProgress,
     } = options;
 
+    let socket: ComfyUIProgressSocket | null = null;
+    let promptId: string | null = null;
+    // 中断されたら進捗の受信をやめ、待機中の処理を起こす
+    const handleAbort = () => socket?.close();
+    signal?.addEventListener('abort', handleAbort);
+
     try {
       onProgress?.({ status: 'connecting' });
 
-      // シードを生成
-      const seed = this.generateRandomSeed();
+      // シードを生成（指定されていればそれを使う）
+      const seed = requestedSeed ?? this.generateRandomSeed();
 
       // プロンプトとシードをワークフローに埋め込む
       const preparedWorkflow = this.prepareWorkflow({
@@ -90,20 +112,93 @@ export class ComfyUIClient {
         overrides,
       });
 
+      // 進捗用のWebSocketに接続（つながらなければポーリングのみ）
+      const clientId = crypto.randomUUID();
+      socket = new ComfyUIProgressSocket({
+        baseUrl: this.baseUrl,
+        clientId,
+        nodeTitles: this.getNodeTitles(preparedWorkflow),
+        onProgress: (progress) => onProgress?.(progress),
+        onQueueChange: () => {
+          if (promptId) this.updateQueuePosition(promptId, socket);
+        },
+      });
+      await socket.connect();
+      if (signal?.aborted) throw new Error('Generation cancelled');
+
       // プロンプトをキュー
       onProgress?.({ status: 'queued' });
-      const promptId = await this.queuePrompt(preparedWorkflow);
+      promptId = await this.queuePrompt(preparedWorkflow, clientId);
+      socket.watch(promptId);
+      await this.updateQueuePosition(promptId, socket);
 
-      // ポーリングで完了を待つ
-      onProgress?.({ status: 'generating' });
-      const images = await this.waitForCompletion(promptId, onProgress);
+      // 完了を待つ
+      const images = await this.waitForCompletion(promptId, { socket, timeoutMs, signal, onProgress });
+      // 完了と同時に中断された場合も結果は返さない
+      if (signal?.aborted) throw new Error('Generation cancelled');
 
       onProgress?.({ status: 'completed', progress: 100 });
-      return { success: true, images, seed };
+      return { success: true, images, seed, workflow: preparedWorkflow };
     } catch (error) {
+      if (signal?.aborted) {
+        if (promptId) await this.cancel(promptId);
+        return { success: false, images: [], cancelled: true, error: 'Generation cancelled' };
+      }
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       onProgress?.({ status: 'error', error: errorMessage });
       return { success: false, images: [], error: errorMessage };
+    } finally {
+      signal?.removeEventListener('abort', handleAbort);
+      socket?.close();
+    }
+  }
+
+  // キュー済みのプロンプトをキャンセル
+  // 実行中なら /interrupt、待機中なら /queue から削除（他のプロンプトは止めない）
+  async cancel(promptId: string): Promise<void> {
+    try {
+      const response = await this.httpGet('/queue');
+      if (!response.ok) return;
+      const queue: {
+        queue_running?: Array<[number, string]>;
+        queue_pending?: Array<[number, string]>;
+      } = await response.json();
+
+      if (queue.queue_pending?.some((item) => item[1] === promptId)) {
+        await this.httpPost('/queue', { delete: [promptId] });
+        console.log('[ComfyUI] Removed prompt from queue:', promptId);
+      } else if (queue.queue_running?.some((item) => item[1] === promptId)) {
+        await this.httpPost('/interrupt', { prompt_id: promptId });
+        console.log('[ComfyUI] Interrupted prompt:', promptId);
+      }
+    } catch (error) {
+      console.warn('[ComfyUI] Failed to cancel prompt:', error);
+    }
+  }
+
+  // ノードID → 表示名（_meta.title、なければ class_type）
+  private getNodeTitles(workflow: Record<string, unknown>): Record<string, string> {
+    const titles: Record<string, string> = {};
+    for (const [nodeId, node] of Object.entries(workflow)) {
+      if (!node || typeof node !== 'object') continue;
+      const nodeObj = node as { class_type?: string; _meta?: { title?: string } };
+      titles[nodeId] = nodeObj._meta?.title || nodeObj.class_type || nodeId;
+    }
+    return titles;
+  }
+
+  // キュー内の待ち順を取得してソケットに反映
+  private async updateQueuePosition(promptId: string, socket: ComfyUIProgressSocket | null): Promise<void> {
+    if (!socket) return;
+    try {
+      const response = await this.httpGet('/queue');
+      if (!response.ok) return;
+      const queue: { queue_pending?: Array<[number, string]> } = await response.json();
+      const pending = [...(queue.queue_pending ?? [])].sort((a, b) => a[0] - b[0]);
+      const index = pending.findIndex((item) => item[1] === promptId);
+      socket.setQueuePosition(index === -1 ? undefined : index + 1);
+    } catch (error) {
+      console.warn('[ComfyUI] Failed to fetch queue:', error);
     }
   }
 
@@ -197,9 +292,9 @@ export class ComfyUIClient {
     return copy;
   }
 
-  private async queuePrompt(workflow: Record<string, unknown>): Promise<string> {
+  private async queuePrompt(workflow: Record<string, unknown>, clientId: string): Promise<string> {
     console.log('[ComfyUI] Queueing prompt...');
-    const response = await this.httpPost('/prompt', { prompt: workflow });
+    const response = await this.httpPost('/prompt', { prompt: workflow, client_id: clientId });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
@@ -212,18 +307,30 @@ export class ComfyUIClient {
     return data.prompt_id;
   }
 
+  // 完了を待つ
+  // WebSocket接続中は完了イベントで即座に履歴を確認し、それ以外は定期的にポーリング
   private async waitForCompletion(
     promptId: string,
-    onProgress?: ProgressCallback
+    options: {
+      socket: ComfyUIProgressSocket | null;
+      timeoutMs: number;
+      signal?: AbortSignal;
+      onProgress?: ProgressCallback;
+    }
   ): Promise<string[]> {
+    const { socket, timeoutMs, signal, onProgress } = options;
     const startTime = Date.now();
-    const timeout = 300000; // 5分
     const pollInterval = 1000; // 1秒
+    const socketPollInterval = 5000; // WebSocket接続中は取りこぼし対策の確認のみ
     let pollCount = 0;
 
     console.log('[ComfyUI] Waiting for completion...');
 
-    while (Date.now() - startTime < timeout) {
+    while (Date.now() - startTime < timeoutMs) {
+      if (signal?.aborted) {
+        throw new Error('Generation cancelled');
+      }
+
       try {
         pollCount++;
         const response = await this.httpGet(`/history/${promptId}`);
@@ -268,8 +375,10 @@ export class ComfyUIClient {
           console.log(`[ComfyUI] Poll ${pollCount}: No outputs yet`);
         }
 
-        // 進捗を更新（完了していない場合）
-        onProgress?.({ status: 'generating' });
+        // 進捗を更新（完了していない場合、WebSocketがあればそちらで通知）
+        if (!socket?.isConnected) {
+          onProgress?.({ status: 'generating' });
+        }
       } catch (error) {
         // ネットワークエラーは無視して継続
         if (error instanceof Error && error.message.includes('Generation error')) {
@@ -278,7 +387,16 @@ export class ComfyUIClient {
         console.warn(`[ComfyUI] Poll ${pollCount} error:`, error);
       }
 
-      await this.sleep(pollInterval);
+      if (socket?.isConnected && !socket.isFinished) {
+        await socket.waitForFinish(Math.min(socketPollInterval, timeoutMs - (Date.now() - startTime)));
+      } else {
+        await this.sleep(pollInterval, signal);
+      }
+
+      // 実行エラーはWebSocketで先に分かる
+      if (socket?.executionError) {
+        throw new Error(socket.executionError);
+      }
     }
 
     console.error('[ComfyUI] Timeout after', pollCount, 'polls');
@@ -304,8 +422,21 @@ export class ComfyUIClient {
     return images;
   }
 
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  // signal が中断されたら待たずに戻る
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      if (signal?.aborted) {
+        resolve();
+        return;
+      }
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      };
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener('abort', done);
+    });
   }
 
   async testConnection(): Promise<{ success: boolean; error?: string }> {
@@ -0,0 +1,248 @@
+// ComfyUI WebSocket - progress events for a single client id
+// Reports queue position, the running node, sampler steps and preview images.
+// If the socket cannot connect, the client falls back to polling /history.
+
+import type { GenerationProgress } from './comfyui-api';
+
+// バイナリメッセージの種類（先頭4バイト）
+const BINARY_PREVIEW_IMAGE = 1;
+// プレビュー画像の形式（次の4バイト）
+const PREVIEW_FORMATS: Record<number, string> = { 1: 'image/jpeg', 2: 'image/png' };
+
+interface ComfyUIMessage {
+  type: string;
+  data?: {
+    prompt_id?: string;
+    node?: string | null;
+    display_node?: string;
+    value?: number;
+    max?: number;
+    exception_message?: string;
+    node_type?: string;
+  };
+}
+
+export class ComfyUIProgressSocket {
+  private url: string;
+  private socket: WebSocket | null = null;
+  private promptId: string | null = null;
+  private nodeTitles: Record<string, string>;
+  private onProgress: (progress: GenerationProgress) => void;
+  private onQueueChange?: () => void;
+
+  // 現在の進捗
+  private state: GenerationProgress = { status: 'queued' };
+  private previewUrl: string | null = null;
+
+  // 完了待ち
+  private finished = false;
+  private error: string | null = null;
+  private waiter: (() => void) | null = null;
+
+  constructor(options: {
+    baseUrl: string;
+    clientId: string;
+    nodeTitles: Record<string, string>; // ノードID → 表示名
+    onProgress: (progress: GenerationProgress) => void;
+    onQueueChange?: () => void;          // キューの状態が変わったとき（キュー位置の再取得用）
+  }) {
+    const wsBase = options.baseUrl.replace(/^http/, 'ws');
+    this.url = `${wsBase}/ws?clientId=${encodeURIComponent(options.clientId)}`;
+    this.nodeTitles = options.nodeTitles;
+    this.onProgress = options.onProgress;
+    this.onQueueChange = options.onQueueChange;
+  }
+
+  get isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  get isFinished(): boolean {
+    return this.finished;
+  }
+
+  // 実行エラー・中断のメッセージ（なければ null）
+  get executionError(): string | null {
+    return this.error;
+  }
+
+  // 接続（失敗・タイムアウト時は false、ポーリングにフォールバック）
+  connect(timeoutMs = 3000): Promise<boolean> {
+    return new Promise((resolve) => {
+      let settled = false;
+      const settle = (connected: boolean) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        resolve(connected);
+      };
+      const timer = setTimeout(() => {
+        console.warn('[ComfyUI] WebSocket connection timed out, falling back to polling');
+        this.close();
+        settle(false);
+      }, timeoutMs);
+
+      try {
+        const socket = new WebSocket(this.url);
+        socket.binaryType = 'arraybuffer';
+        socket.onopen = () => settle(true);
+        socket.onerror = () => {
+          console.warn('[ComfyUI] WebSocket error, falling back to polling');
+          settle(false);
+        };
+        socket.onclose = () => {
+          settle(false);
+          this.wake();
+        };
+        socket.onmessage = (event) => this.handleMessage(event.data);
+        this.socket = socket;
+      } catch (error) {
+        console.warn('[ComfyUI] WebSocket unavailable:', error);
+        settle(false);
+      }
+    });
+  }
+
+  // 対象のプロンプトIDを設定（キュー後に呼ぶ）
+  watch(promptId: string): void {
+    this.promptId = promptId;
+  }
+
+  setQueuePosition(position: number | undefined): void {
+    if (this.state.status !== 'queued') return;
+    this.update({ queuePosition: position });
+  }
+
+  // 完了・エラー・切断まで、または ms 経過まで待つ
+  waitForFinish(ms: number): Promise<void> {
+    if (this.finished || !this.isConnected) return Promise.resolve();
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => {
+        this.waiter = null;
+        resolve();
+      }, ms);
+      this.waiter = () => {
+        clearTimeout(timer);
+        this.waiter = null;
+        resolve();
+      };
+    });
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.onopen = null;
+      this.socket.onerror = null;
+      this.socket.onclose = null;
+      this.socket.onmessage = null;
+      this.socket.close();
+      this.socket = null;
+    }
+    if (this.previewUrl) {
+      URL.revokeObjectURL(this.previewUrl);
+      this.previewUrl = null;
+    }
+    this.wake();
+  }
+
+  private wake(): void {
+    this.waiter?.();
+  }
+
+  private update(patch: Partial<GenerationProgress>): void {
+    this.state = { ...this.state, ...patch };
+    this.onProgress(this.state);
+  }
+
+  // 他のプロンプトのイベントは無視（prompt_id がない場合は自分宛てとみなす）
+  private isOwnPrompt(promptId?: string): boolean {
+    return !promptId || !this.promptId || promptId === this.promptId;
+  }
+
+  private handleMessage(raw: unknown): void {
+    if (raw instanceof ArrayBuffer) {
+      this.handleBinary(raw);
+      return;
+    }
+    if (typeof raw !== 'string') return;
+
+    let message: ComfyUIMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    const data = message.data ?? {};
+
+    switch (message.type) {
+      case 'status':
+        this.onQueueChange?.();
+        break;
+      case 'execution_start':
+        if (!this.isOwnPrompt(data.prompt_id)) return;
+        this.update({ status: 'generating', queuePosition: undefined });
+        break;
+      case 'executing': {
+        if (!this.isOwnPrompt(data.prompt_id)) return;
+        // node が null なら実行終了
+        if (data.node === null || data.node === undefined) {
+          this.finish();
+          return;
+        }
+        const nodeId = data.display_node ?? data.node;
+        this.update({
+          status: 'generating',
+          queuePosition: undefined,
+          currentNode: this.nodeTitles[nodeId] ?? nodeId,
+          progress: undefined,
+          step: undefined,
+          maxSteps: undefined,
+        });
+        break;
+      }
+      case 'progress':
+        if (!this.isOwnPrompt(data.prompt_id) || !data.max) return;
+        this.update({
+          status: 'generating',
+          step: data.value,
+          maxSteps: data.max,
+          progress: Math.round(((data.value ?? 0) / data.max) * 100),
+        });
+        break;
+      case 'execution_success':
+        if (!this.isOwnPrompt(data.prompt_id)) return;
+        this.finish();
+        break;
+      case 'execution_error':
+        if (!this.isOwnPrompt(data.prompt_id)) return;
+        this.finish(data.exception_message
+          ? `${data.node_type ? `${data.node_type}: ` : ''}${data.exception_message}`
+          : 'Generation error');
+        break;
+      case 'execution_interrupted':
+        if (!this.isOwnPrompt(data.prompt_id)) return;
+        this.finish('Generation interrupted');
+        break;
+    }
+  }
+
+  // プレビュー画像（サンプリング中の途中経過）
+  private handleBinary(buffer: ArrayBuffer): void {
+    if (buffer.byteLength <= 8) return;
+    const view = new DataView(buffer);
+    if (view.getUint32(0) !== BINARY_PREVIEW_IMAGE) return;
+
+    const mimeType = PREVIEW_FORMATS[view.getUint32(4)] ?? 'image/jpeg';
+    if (this.previewUrl) {
+      URL.revokeObjectURL(this.previewUrl);
+    }
+    this.previewUrl = URL.createObjectURL(new Blob([buffer.slice(8)], { type: mimeType }));
+    this.update({ previewUrl: this.previewUrl });
+  }
+
+  private finish(error?: string): void {
+    this.finished = true;
+    if (error) this.error = error;
+    this.wake();
+  }
+}
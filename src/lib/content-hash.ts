@@ -0,0 +1,8 @@
+// Content hash of image files
+// SHA-256 of the file bytes, stored with each image so a record can be matched
+// to its file again after the file was moved or renamed.
+
+export async function computeContentHash(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
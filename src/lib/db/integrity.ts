@@ -0,0 +1,243 @@
+// Gallery integrity repair
+// Lists image files in the images folder that have no gallery record (orphans) and records
+// whose file is missing. Orphans can be adopted as new records (metadata is recovered from
+// embedded chunks or legacy .json files), and missing records can be relinked to moved or
+// renamed files by content hash.
+// Tauri-only version
+
+import { getImageFileRecords, setContentHash, type ImageFileRecord } from './tauri-images';
+import { IMAGE_EXTENSIONS, readLegacyMetadata } from './migration';
+import { imageAPI } from '../image-api';
+import { getImagesPath, joinPath } from '../tauri-utils';
+
+export type OrphanMetadataSource = 'imaginr' | 'comfyui' | 'a1111' | 'legacy';
+
+export interface OrphanImageFile {
+  filename: string;
+  size: number;
+  modifiedAt: string | null;
+  metadataSource: OrphanMetadataSource | null; // 復元できるメタデータの出どころ（なければ null）
+}
+
+export interface MissingImageRecord {
+  id: string;
+  filename: string;
+  prompt: string;
+  createdAt: string;
+  deleted: boolean;
+  contentHash: string | null; // null の場合は再リンクできない
+}
+
+export interface IntegrityReport {
+  orphans: OrphanImageFile[];
+  missing: MissingImageRecord[];
+}
+
+export interface AdoptResult {
+  adopted: number;
+  failed: string[];
+}
+
+export interface RelinkResult {
+  relinked: number;
+  searchedFiles: number;
+}
+
+// done / total の進捗通知
+export type IntegrityProgressCallback = (done: number, total: number) => void;
+
+interface ImageFileEntry {
+  name: string;
+  path: string;
+}
+
+function isImageFile(name: string): boolean {
+  const ext = name.substring(name.lastIndexOf('.')).toLowerCase();
+  return IMAGE_EXTENSIONS.includes(ext);
+}
+
+// フォルダ内の画像ファイル（recursive なら下位フォルダも）
+async function listImageFiles(dir: string, recursive: boolean): Promise<ImageFileEntry[]> {
+  const { readDir, exists } = await import('@tauri-apps/plugin-fs');
+  if (!(await exists(dir))) return [];
+
+  const result: ImageFileEntry[] = [];
+  for (const entry of await readDir(dir)) {
+    const path = await joinPath(dir, entry.name);
+    if (entry.isDirectory) {
+      if (recursive) result.push(...await listImageFiles(path, true));
+    } else if (isImageFile(entry.name)) {
+      result.push({ name: entry.name, path });
+    }
+  }
+  return result;
+}
+
+function toMissingImageRecord(record: ImageFileRecord): MissingImageRecord {
+  return {
+    id: record.id,
+    filename: record.filename,
+    prompt: record.prompt,
+    createdAt: record.created_at,
+    deleted: !!record.deleted_at,
+    contentHash: record.content_hash,
+  };
+}
+
+/**
+ * Scan the images folder against the gallery records.
+ * Also records the content hash of images that do not have one yet, so they can be
+ * relinked if their file goes missing later.
+ */
+export async function scanGalleryIntegrity(onProgress?: IntegrityProgressCallback): Promise<IntegrityReport> {
+  const { readFile, stat } = await import('@tauri-apps/plugin-fs');
+  const { computeContentHash } = await import('../content-hash');
+  const { extractImageMetadata } = await import('../image-metadata');
+
+  const imagesDir = await getImagesPath();
+  const records = await getImageFileRecords();
+  const files = await listImageFiles(imagesDir, false);
+  const fileNames = new Set(files.map((file) => file.name));
+  const recordFileNames = new Set(records.map((record) => record.filename));
+
+  const unhashed = records.filter((record) => !record.content_hash && fileNames.has(record.filename));
+  const orphanFiles = files.filter((file) => !recordFileNames.has(file.name));
+  const total = unhashed.length + orphanFiles.length;
+  let done = 0;
+  onProgress?.(done, total);
+
+  // 既存の画像のハッシュを記録
+  for (const record of unhashed) {
+    try {
+      const data = await readFile(await joinPath(imagesDir, record.filename));
+      await setContentHash(record.id, await computeContentHash(data));
+    } catch (error) {
+      console.warn(`[Integrity] Failed to hash ${record.filename}:`, error);
+    }
+    onProgress?.(++done, total);
+  }
+
+  // 孤立ファイルと、取り込み時に使えるメタデータ
+  const orphans: OrphanImageFile[] = [];
+  for (const file of orphanFiles) {
+    let size = 0;
+    let modifiedAt: string | null = null;
+    let metadataSource: OrphanMetadataSource | null = null;
+    try {
+      const info = await stat(file.path);
+      size = info.size;
+      modifiedAt = info.mtime ? info.mtime.toISOString() : null;
+      const metadata = await extractImageMetadata(await readFile(file.path));
+      metadataSource = metadata?.source ?? ((await readLegacyMetadata(file.path)) ? 'legacy' : null);
+    } catch (error) {
+      console.warn(`[Integrity] Failed to read ${file.name}:`, error);
+    }
+    orphans.push({ filename: file.name, size, modifiedAt, metadataSource });
+    onProgress?.(++done, total);
+  }
+
+  const missing = records
+    .filter((record) => !fileNames.has(record.filename))
+    .map(toMissingImageRecord);
+
+  return { orphans, missing };
+}
+
+/**
+ * Add orphan files in the images folder to the gallery.
+ * Embedded metadata is preferred; otherwise the legacy .json file supplies the prompt and date.
+ */
+export async function adoptOrphanFiles(
+  orphans: OrphanImageFile[],
+  onProgress?: IntegrityProgressCallback
+): Promise<AdoptResult> {
+  const imagesDir = await getImagesPath();
+  let adopted = 0;
+  const failed: string[] = [];
+
+  onProgress?.(0, orphans.length);
+  for (const [i, orphan] of orphans.entries()) {
+    try {
+      const legacy = await readLegacyMetadata(await joinPath(imagesDir, orphan.filename));
+      await imageAPI.adopt(orphan.filename, {
+        prompt: legacy?.prompt,
+        createdAt: legacy?.createdAt ?? orphan.modifiedAt ?? undefined,
+      });
+      adopted++;
+    } catch (error) {
+      // 同じIDのレコードがある（拡張子違い）など
+      console.error(`[Integrity] Failed to adopt ${orphan.filename}:`, error);
+      failed.push(orphan.filename);
+    }
+    onProgress?.(i + 1, orphans.length);
+  }
+
+  return { adopted, failed };
+}
+
+/**
+ * Relink records whose file is missing: look for files with the same content hash among the
+ * orphan files in the images folder and, if given, in searchDir (including subfolders).
+ * Matches are copied back to the record's filename. Records in the trash stay in the trash
+ * (they were moved there by the user; restoring them is left to the trash view).
+ * Orphan files in the images folder that were used are removed, as they are now duplicates.
+ */
+export async function relinkMissingImages(
+  missing: MissingImageRecord[],
+  searchDir?: string,
+  onProgress?: IntegrityProgressCallback
+): Promise<RelinkResult> {
+  const { readFile, copyFile, remove } = await import('@tauri-apps/plugin-fs');
+  const { computeContentHash } = await import('../content-hash');
+  const { removeThumbnail } = await import('../thumbnail');
+
+  // ハッシュ → 再リンクを待つレコード
+  const pending = new Map<string, MissingImageRecord[]>();
+  for (const record of missing) {
+    if (!record.contentHash) continue;
+    pending.set(record.contentHash, [...(pending.get(record.contentHash) ?? []), record]);
+  }
+  if (pending.size === 0) {
+    return { relinked: 0, searchedFiles: 0 };
+  }
+
+  const imagesDir = await getImagesPath();
+  const recordFileNames = new Set((await getImageFileRecords()).map((record) => record.filename));
+  const orphanFiles = (await listImageFiles(imagesDir, false))
+    .filter((file) => !recordFileNames.has(file.name));
+  const externalFiles = searchDir ? await listImageFiles(searchDir, true) : [];
+  const candidates = [
+    ...orphanFiles.map((file) => ({ ...file, isOrphan: true })),
+    ...externalFiles.map((file) => ({ ...file, isOrphan: false })),
+  ];
+
+  let relinked = 0;
+  let searchedFiles = 0;
+  onProgress?.(0, candidates.length);
+
+  for (const candidate of candidates) {
+    if (pending.size === 0) break;
+    searchedFiles++;
+
+    try {
+      const hash = await computeContentHash(await readFile(candidate.path));
+      const records = pending.get(hash);
+      if (records) {
+        pending.delete(hash);
+        for (const record of records) {
+          await copyFile(candidate.path, await joinPath(imagesDir, record.filename));
+          relinked++;
+        }
+        if (candidate.isOrphan) {
+          await remove(candidate.path);
+          await removeThumbnail(candidate.name);
+        }
+      }
+    } catch (error) {
+      console.warn(`[Integrity] Failed to check ${candidate.path}:`, error);
+    }
+    onProgress?.(searchedFiles, candidates.length);
+  }
+
+  return { relinked, searchedFiles };
+}
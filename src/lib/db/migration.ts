@@ -1,19 +1,37 @@
 // Migrate existing JSON metadata to SQLite database
 // Tauri-only version
 
-import { getDatabase } from './index';
+import { getDatabase } from './tauri-db';
 import { isMigrationCompletedAsync, markMigrationCompletedAsync } from './schema';
-import { createImage, imageExists, getAllImageIds, markMissingAsDeleted } from './images';
+import { createImage, imageExists, getAllImageIds, markMissingAsDeleted } from './tauri-images';
 import { getImagesPath, joinPath } from '../tauri-utils';
+import { imageAPI, type TrashPurgeResult } from '../image-api';
+import { fetchGallerySettings } from '../storage';
 
 // Image extensions to process
-const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
+export const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
 
-interface LegacyMetadata {
+export interface LegacyMetadata {
   prompt?: string;
   createdAt?: string;
 }
 
+/**
+ * Read the legacy metadata file (<name>.json) next to an image, if any
+ */
+export async function readLegacyMetadata(imagePath: string): Promise<LegacyMetadata | null> {
+  const { readTextFile, exists } = await import('@tauri-apps/plugin-fs');
+  const metaPath = imagePath.replace(/\.(png|jpg|jpeg|webp)$/i, '.json');
+  try {
+    if (await exists(metaPath)) {
+      return JSON.parse(await readTextFile(metaPath));
+    }
+  } catch {
+    // Parse error, treat as no metadata
+  }
+  return null;
+}
+
 /**
  * Migrate existing JSON metadata files to SQLite database
  */
@@ -29,7 +47,7 @@ export async function migrateJsonToSqlite(): Promise<{ migrated: number; skipped
 
   console.log('[Migration] Starting JSON to SQLite migration...');
 
-  const { readDir, readTextFile, exists, mkdir } = await import('@tauri-apps/plugin-fs');
+  const { readDir, exists, mkdir } = await import('@tauri-apps/plugin-fs');
 
   const imagesDir = await getImagesPath();
 
@@ -62,25 +80,15 @@ export async function migrateJsonToSqlite(): Promise<{ migrated: number; skipped
       continue;
     }
 
-    const metaPath = await joinPath(imagesDir, fileName.replace(/\.(png|jpg|jpeg|webp)$/i, '.json'));
-
     // Read metadata if exists
-    let metadata: LegacyMetadata = {};
-    try {
-      if (await exists(metaPath)) {
-        const metaContent = await readTextFile(metaPath);
-        metadata = JSON.parse(metaContent);
-      }
-    } catch {
-      // No metadata file or parse error, use defaults
-    }
+    const metadata = await readLegacyMetadata(await joinPath(imagesDir, fileName)) ?? {};
 
     // Create image record
     try {
       await createImage({
         id,
         filename: fileName,
-        promptYaml: metadata.prompt || '',
+        prompt: metadata.prompt || '',
       });
       migrated++;
     } catch (error) {
@@ -152,10 +160,25 @@ export async function checkIntegrity(): Promise<{ missingFiles: number; orphanFi
   return { missingFiles, orphanFiles };
 }
 
+/**
+ * Permanently delete images that have been in the trash longer than the configured retention
+ */
+export async function purgeExpiredTrash(): Promise<TrashPurgeResult> {
+  const { trashRetentionDays } = await fetchGallerySettings();
+  const result = await imageAPI.purgeExpiredTrash(trashRetentionDays);
+
+  if (result.deleted > 0) {
+    console.log(`[Trash] ${result.deleted} images older than ${trashRetentionDays} days purged, ${result.freedBytes} bytes freed`);
+  }
+
+  return result;
+}
+
 /**
  * Run all startup migrations and checks
+ * Returns the result of the expired-trash purge (null if it failed)
  */
-export async function runStartupMigrations(): Promise<void> {
+export async function runStartupMigrations(): Promise<TrashPurgeResult | null> {
   try {
     // Migrate JSON to SQLite
     await migrateJsonToSqlite();
@@ -165,4 +188,12 @@ export async function runStartupMigrations(): Promise<void> {
   } catch (error) {
     console.error('[Migration] Startup migrations failed:', error);
   }
+
+  // Purge expired trash even if the migration or integrity check failed
+  try {
+    return await purgeExpiredTrash();
+  } catch (error) {
+    console.error('[Trash] Auto-purge failed:', error);
+    return null;
+  }
 }
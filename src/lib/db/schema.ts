@@ -4,7 +4,7 @@
 
 import type { UnifiedDatabase } from './index';
 
-const SCHEMA_VERSION = 7;
+const SCHEMA_VERSION = 17;
 
 // Async version for UnifiedDatabase interface
 export async function initializeSchemaAsync(db: UnifiedDatabase): Promise<void> {
@@ -47,6 +47,36 @@ async function runMigrationsAsync(db: UnifiedDatabase, fromVersion: number): Pro
   if (fromVersion < 7) {
     await migrateToV7Async(db);
   }
+  if (fromVersion < 8) {
+    await migrateToV8Async(db);
+  }
+  if (fromVersion < 9) {
+    await migrateToV9Async(db);
+  }
+  if (fromVersion < 10) {
+    await migrateToV10Async(db);
+  }
+  if (fromVersion < 11) {
+    await migrateToV11Async(db);
+  }
+  if (fromVersion < 12) {
+    await migrateToV12Async(db);
+  }
+  if (fromVersion < 13) {
+    await migrateToV13Async(db);
+  }
+  if (fromVersion < 14) {
+    await migrateToV14Async(db);
+  }
+  if (fromVersion < 15) {
+    await migrateToV15Async(db);
+  }
+  if (fromVersion < 16) {
+    await migrateToV16Async(db);
+  }
+  if (fromVersion < 17) {
+    await migrateToV17Async(db);
+  }
 
   // Update schema version
   await db.execute('INSERT OR REPLACE INTO _meta (key, value) VALUES (?, ?)', ['schema_version', SCHEMA_VERSION.toString()]);
@@ -299,6 +329,194 @@ async function migrateToV7Async(db: UnifiedDatabase): Promise<void> {
   await db.execute(`DELETE FROM key_dictionary`);
 }
 
+async function migrateToV8Async(db: UnifiedDatabase): Promise<void> {
+  // Batch generation queue
+  // batches: one row per queued batch (matrix / random sample), config holds the axes as JSON
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS batches (
+      id TEXT PRIMARY KEY,
+      template_path TEXT NOT NULL,
+      config TEXT NOT NULL,
+      workflow_id TEXT,
+      override_values TEXT,
+      enhance INTEGER DEFAULT 0,
+      status TEXT NOT NULL DEFAULT 'running',
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  // batch_jobs: one row per combination, with the prompt rendered at enqueue time
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS batch_jobs (
+      id TEXT PRIMARY KEY,
+      batch_id TEXT NOT NULL REFERENCES batches(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      coords TEXT NOT NULL,
+      labels TEXT NOT NULL,
+      variable_values TEXT NOT NULL,
+      seed INTEGER,
+      prompt TEXT NOT NULL,
+      negative_prompt TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      error TEXT,
+      started_at TEXT,
+      completed_at TEXT
+    )
+  `);
+
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_batch_jobs_batch ON batch_jobs(batch_id, position)');
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_batch_jobs_status ON batch_jobs(status)');
+
+  // Store variable values and batch membership with each image
+  const tableInfo = await db.select<{ name: string }>(`PRAGMA table_info(images)`);
+  if (!tableInfo.some(col => col.name === 'variables')) {
+    await db.execute(`ALTER TABLE images ADD COLUMN variables TEXT`);
+  }
+  if (!tableInfo.some(col => col.name === 'batch_id')) {
+    await db.execute(`ALTER TABLE images ADD COLUMN batch_id TEXT`);
+  }
+  if (!tableInfo.some(col => col.name === 'batch_job_id')) {
+    await db.execute(`ALTER TABLE images ADD COLUMN batch_job_id TEXT`);
+  }
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_images_batch_job ON images(batch_job_id)');
+}
+
+async function migrateToV9Async(db: UnifiedDatabase): Promise<void> {
+  // Full provenance for each image, so it can be reopened in the editor
+  // template_path / raw_yaml: the template file and its content at generation time
+  // merged_yaml: merged and variable-resolved YAML before enhancement
+  // workflow_snapshot: the workflow JSON actually sent to ComfyUI
+  // override_values: generate panel values keyed by nodeId.property
+  const columns = [
+    'template_path',
+    'raw_yaml',
+    'merged_yaml',
+    'enhancer_preset_id',
+    'enhancer_model',
+    'workflow_snapshot',
+    'override_values',
+  ];
+  const tableInfo = await db.select<{ name: string }>(`PRAGMA table_info(images)`);
+  for (const column of columns) {
+    if (!tableInfo.some(col => col.name === column)) {
+      await db.execute(`ALTER TABLE images ADD COLUMN ${column} TEXT`);
+    }
+  }
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_images_template ON images(template_path)');
+
+  // Template content at enqueue time for batch jobs
+  const batchInfo = await db.select<{ name: string }>(`PRAGMA table_info(batches)`);
+  if (!batchInfo.some(col => col.name === 'template_content')) {
+    await db.execute(`ALTER TABLE batches ADD COLUMN template_content TEXT`);
+  }
+}
+
+async function migrateToV10Async(db: UnifiedDatabase): Promise<void> {
+  // User tags for gallery images (many-to-many)
+  // rating / notes already exist on images since V1
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS tags (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at TEXT NOT NULL
+    )
+  `);
+
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS image_tags (
+      image_id TEXT NOT NULL REFERENCES images(id) ON DELETE CASCADE,
+      tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+      PRIMARY KEY (image_id, tag_id)
+    )
+  `);
+
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_image_tags_tag ON image_tags(tag_id)');
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_images_rating ON images(rating)');
+}
+
+async function migrateToV11Async(db: UnifiedDatabase): Promise<void> {
+  // Covering index for gallery facet counts (key -> value -> image without table lookups)
+  // Replaces idx_attr_key_value, which it makes redundant
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_attr_key_value_image ON image_attributes(key, value, image_id)');
+  await db.execute('DROP INDEX IF EXISTS idx_attr_key_value');
+}
+
+async function migrateToV12Async(db: UnifiedDatabase): Promise<void> {
+  // Saved gallery searches, shown as smart collections
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS smart_collections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      query TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+}
+
+async function migrateToV13Async(db: UnifiedDatabase): Promise<void> {
+  // User-created collections (albums); an image can belong to many collections
+  // position: manual order within the collection (ascending)
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS collections (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )
+  `);
+
+  await db.execute(`
+    CREATE TABLE IF NOT EXISTS collection_images (
+      collection_id INTEGER NOT NULL REFERENCES collections(id) ON DELETE CASCADE,
+      image_id TEXT NOT NULL REFERENCES images(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      added_at TEXT NOT NULL,
+      PRIMARY KEY (collection_id, image_id)
+    )
+  `);
+
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_collection_images_image ON collection_images(image_id)');
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_collection_images_position ON collection_images(collection_id, position)');
+}
+
+async function migrateToV14Async(db: UnifiedDatabase): Promise<void> {
+  // SHA-256 of the image file, used to relink records whose file was moved or renamed
+  // Older images get it when the integrity check scans them
+  const tableInfo = await db.select<{ name: string }>(`PRAGMA table_info(images)`);
+  if (!tableInfo.some(col => col.name === 'content_hash')) {
+    await db.execute(`ALTER TABLE images ADD COLUMN content_hash TEXT`);
+  }
+  await db.execute('CREATE INDEX IF NOT EXISTS idx_images_content_hash ON images(content_hash)');
+}
+
+async function migrateToV15Async(db: UnifiedDatabase): Promise<void> {
+  // 64-bit difference hash (dHash) as 16 hex digits, for finding near-duplicate images
+  // Older images get it when the duplicate finder first runs
+  const tableInfo = await db.select<{ name: string }>(`PRAGMA table_info(images)`);
+  if (!tableInfo.some(col => col.name === 'perceptual_hash')) {
+    await db.execute(`ALTER TABLE images ADD COLUMN perceptual_hash TEXT`);
+  }
+}
+
+async function migrateToV16Async(db: UnifiedDatabase): Promise<void> {
+  // Seed and picks of random variables, inline choices and wildcards (JSON), for reproducing a prompt
+  // Batch jobs pick when they are queued, so the job carries the choices until the image is saved
+  for (const table of ['images', 'batch_jobs']) {
+    const tableInfo = await db.select<{ name: string }>(`PRAGMA table_info(${table})`);
+    if (!tableInfo.some(col => col.name === 'random_choices')) {
+      await db.execute(`ALTER TABLE ${table} ADD COLUMN random_choices TEXT`);
+    }
+  }
+}
+
+async function migrateToV17Async(db: UnifiedDatabase): Promise<void> {
+  // Override values from the template's _generation block (JSON), resolved per job with the job's variables
+  const tableInfo = await db.select<{ name: string }>(`PRAGMA table_info(batch_jobs)`);
+  if (!tableInfo.some(col => col.name === 'override_values')) {
+    await db.execute(`ALTER TABLE batch_jobs ADD COLUMN override_values TEXT`);
+  }
+}
 
 export async function isMigrationCompletedAsync(db: UnifiedDatabase, migrationId: string): Promise<boolean> {
   const rows = await db.select<{ id: string }>('SELECT id FROM _migrations WHERE id = ?', [migrationId]);
@@ -3,6 +3,9 @@
 
 import { getDatabase, UnifiedDatabase } from './tauri-db';
 import { extractAttributes, saveAttributesAsync } from './attributes';
+import { parseGalleryQuery, getDayRange, type GalleryQueryTerm } from '../gallery-query';
+import { loadComfyUISettings } from '../storage';
+import type { RandomChoices } from '../random-choices';
 import yaml from 'js-yaml';
 
 export interface ImageRecord {
@@ -16,11 +19,24 @@ export interface ImageRecord {
   file_size: number | null;
   negative_prompt: string | null;
   parameters: string | null;
+  variables: string | null;
+  batch_id: string | null;
+  batch_job_id: string | null;
+  template_path: string | null;
+  raw_yaml: string | null;
+  merged_yaml: string | null;
+  enhancer_preset_id: string | null;
+  enhancer_model: string | null;
+  workflow_snapshot: string | null;
+  override_values: string | null;
+  random_choices: string | null;
   created_at: string;
   deleted_at: string | null;
   favorite: number;
   rating: number | null;
   notes: string | null;
+  content_hash: string | null;
+  perceptual_hash: string | null;
 }
 
 export interface ImageInfo {
@@ -29,7 +45,9 @@ export interface ImageInfo {
   createdAt: string;
   prompt?: string;
   deleted?: boolean;
+  deletedAt?: string;
   favorite?: boolean;
+  rating?: number;
 }
 
 // Pagination types
@@ -37,6 +55,40 @@ export interface PaginationParams {
   limit?: number;      // Default: 50
   offset?: number;     // Default: 0
   sortOrder?: 'asc' | 'desc';  // Default: 'desc' (newest first)
+  sortBy?: 'createdAt' | 'rating' | 'manual';  // Default: 'createdAt' ('manual' needs filter.collectionId)
+}
+
+// Gallery filters (combined with AND)
+export interface ImageFilter {
+  favoriteOnly?: boolean;
+  minRating?: number;  // 1-5
+  tag?: string;
+  facets?: AttributeFacet[];
+  facetMode?: 'and' | 'or';  // How facets of different keys combine (default: 'and')
+  collectionId?: number;  // Only images in this collection
+  trash?: boolean;  // Only soft-deleted images, most recently deleted first
+}
+
+// Attribute facet selection (values of one key are combined with OR)
+export interface AttributeFacet {
+  key: string;
+  values: string[];
+}
+
+export interface FacetValueCount {
+  value: string;
+  count: number;
+}
+
+export interface FacetKey {
+  key: string;
+  count: number;  // Number of images with the key
+  values: FacetValueCount[];
+}
+
+export interface TagInfo {
+  name: string;
+  count: number;  // Number of non-deleted images with the tag
 }
 
 export interface PaginatedResult<T> {
@@ -56,6 +108,20 @@ export interface CreateImageInput {
   fileSize?: number;
   negativePrompt?: string;
   parameters?: Record<string, unknown>;
+  variables?: Record<string, string | string[]>;
+  batchId?: string;
+  batchJobId?: string;
+  templatePath?: string;
+  rawYaml?: string;
+  mergedYaml?: string;
+  enhancerPresetId?: string;
+  enhancerModel?: string;
+  workflowSnapshot?: Record<string, unknown>;
+  overrideValues?: Record<string, string | number>;
+  randomChoices?: RandomChoices;
+  contentHash?: string;
+  perceptualHash?: string;
+  createdAt?: string;  // Defaults to now (set when adopting existing files)
 }
 
 /**
@@ -67,8 +133,11 @@ export async function createImage(input: CreateImageInput): Promise<ImageRecord>
 
   await db.execute(`
     INSERT INTO images (
-      id, filename, prompt, workflow_id, seed, width, height, file_size, negative_prompt, parameters, created_at
-    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      id, filename, prompt, workflow_id, seed, width, height, file_size, negative_prompt, parameters,
+      variables, batch_id, batch_job_id, template_path, raw_yaml, merged_yaml,
+      enhancer_preset_id, enhancer_model, workflow_snapshot, override_values, random_choices,
+      content_hash, perceptual_hash, created_at
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
   `, [
     input.id,
     input.filename,
@@ -80,7 +149,20 @@ export async function createImage(input: CreateImageInput): Promise<ImageRecord>
     input.fileSize || null,
     input.negativePrompt || null,
     input.parameters ? JSON.stringify(input.parameters) : null,
-    now
+    input.variables ? JSON.stringify(input.variables) : null,
+    input.batchId || null,
+    input.batchJobId || null,
+    input.templatePath || null,
+    input.rawYaml ?? null,
+    input.mergedYaml ?? null,
+    input.enhancerPresetId || null,
+    input.enhancerModel || null,
+    input.workflowSnapshot ? JSON.stringify(input.workflowSnapshot) : null,
+    input.overrideValues ? JSON.stringify(input.overrideValues) : null,
+    input.randomChoices ? JSON.stringify(input.randomChoices) : null,
+    input.contentHash || null,
+    input.perceptualHash || null,
+    input.createdAt || now
   ]);
 
   // Extract and save attributes from YAML (if prompt is YAML format)
@@ -110,54 +192,220 @@ export async function getImage(id: string): Promise<ImageRecord | null> {
 
 const DEFAULT_PAGE_SIZE = 50;
 
+type ImageListRow = {
+  id: string;
+  filename: string;
+  prompt: string;
+  created_at: string;
+  deleted_at: string | null;
+  favorite: number;
+  rating: number | null;
+};
+
+function toImageInfo(row: ImageListRow): ImageInfo {
+  return {
+    id: row.id,
+    filename: row.filename,
+    createdAt: row.created_at,
+    prompt: row.prompt,
+    deleted: !!row.deleted_at,
+    deletedAt: row.deleted_at ?? undefined,
+    favorite: row.favorite === 1,
+    rating: row.rating ?? undefined,
+  };
+}
+
+// FTS5 string literal ("" escapes a quote)
+function ftsString(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+// LIKE pattern with % and _ escaped (use with ESCAPE '\\')
+function likeEscape(value: string): string {
+  return value.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Workflow IDs whose name, file or ID contains the value
+function resolveWorkflowIds(value: string): string[] {
+  const needle = value.toLowerCase();
+  return loadComfyUISettings().workflows
+    .filter((w) => [w.id, w.name, w.file].some((s) => s.toLowerCase().includes(needle)))
+    .map((w) => w.id);
+}
+
+// Compile one query term to a SQL condition (table alias: i)
+function compileQueryTerm(term: GalleryQueryTerm, params: unknown[]): string {
+  switch (term.type) {
+    case 'text':
+      // Words match as prefixes, phrases match exactly
+      params.push(term.phrase ? ftsString(term.value) : `${ftsString(term.value)}*`);
+      return 'i.rowid IN (SELECT rowid FROM images_fts WHERE images_fts MATCH ?)';
+    case 'workflow': {
+      const ids = resolveWorkflowIds(term.value);
+      if (ids.length === 0) ids.push(term.value);
+      params.push(...ids);
+      return `i.workflow_id IN (${ids.map(() => '?').join(', ')})`;
+    }
+    case 'seed':
+      params.push(term.value);
+      return 'i.seed = ?';
+    case 'date': {
+      const { start, end } = getDayRange(term.value);
+      if (term.op === 'after') {
+        params.push(start);
+        return 'i.created_at >= ?';
+      }
+      if (term.op === 'before') {
+        params.push(start);
+        return 'i.created_at < ?';
+      }
+      params.push(start, end);
+      return '(i.created_at >= ? AND i.created_at < ?)';
+    }
+    case 'is':
+      if (term.value === 'favorite') return 'i.favorite = 1';
+      if (term.value === 'rated') return 'i.rating IS NOT NULL';
+      return 'EXISTS (SELECT 1 FROM image_tags it WHERE it.image_id = i.id)';
+    case 'rating':
+      params.push(term.value);
+      return `i.rating ${term.op} ?`;
+    case 'tag':
+      params.push(term.value);
+      return `EXISTS (
+        SELECT 1 FROM image_tags it JOIN tags t ON t.id = it.tag_id
+        WHERE it.image_id = i.id AND t.name = ?
+      )`;
+    case 'template':
+      params.push(`%${likeEscape(term.value)}%`);
+      return "i.template_path LIKE ? ESCAPE '\\'";
+    case 'attribute': {
+      // Key matches the full dotted key or its trailing part (hair.color -> appearance.hair.color)
+      // Value matches exactly (case-insensitive), * is a wildcard
+      params.push(term.key, `%.${likeEscape(term.key)}`);
+      const valueCondition = term.value.includes('*')
+        ? "a.value LIKE ? ESCAPE '\\'"
+        : 'a.value = ? COLLATE NOCASE';
+      params.push(term.value.includes('*') ? likeEscape(term.value).replace(/\*/g, '%') : term.value);
+      return `EXISTS (
+        SELECT 1 FROM image_attributes a
+        WHERE a.image_id = i.id AND (a.key = ? OR a.key LIKE ? ESCAPE '\\') AND ${valueCondition}
+      )`;
+    }
+  }
+}
+
+// Build WHERE conditions for full-text query, deleted state and gallery filters (table alias: i)
+function buildFilterConditions(
+  includeDeleted: boolean,
+  filter?: ImageFilter,
+  query?: string
+): { conditions: string[]; params: unknown[] } {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  // Query language terms (invalid terms are reported by the search box and skipped here)
+  for (const term of query ? parseGalleryQuery(query).terms : []) {
+    const condition = compileQueryTerm(term, params);
+    conditions.push(term.negate ? `NOT COALESCE(${condition}, 0)` : condition);
+  }
+  if (filter?.trash) {
+    conditions.push('i.deleted_at IS NOT NULL');
+  } else if (!includeDeleted) {
+    conditions.push('i.deleted_at IS NULL');
+  }
+  if (filter?.favoriteOnly) {
+    conditions.push('i.favorite = 1');
+  }
+  if (filter?.minRating) {
+    conditions.push('i.rating >= ?');
+    params.push(filter.minRating);
+  }
+  if (filter?.tag) {
+    conditions.push(`EXISTS (
+      SELECT 1 FROM image_tags it JOIN tags t ON t.id = it.tag_id
+      WHERE it.image_id = i.id AND t.name = ?
+    )`);
+    params.push(filter.tag);
+  }
+  if (filter?.collectionId !== undefined) {
+    conditions.push('EXISTS (SELECT 1 FROM collection_images ci WHERE ci.image_id = i.id AND ci.collection_id = ?)');
+    params.push(filter.collectionId);
+  }
+
+  // Attribute facets: (key1 IN values) AND/OR (key2 IN values) ...
+  const facetConditions = (filter?.facets ?? [])
+    .filter((facet) => facet.values.length > 0)
+    .map((facet) => {
+      params.push(facet.key, ...facet.values);
+      return `EXISTS (
+        SELECT 1 FROM image_attributes a
+        WHERE a.image_id = i.id AND a.key = ? AND a.value IN (${facet.values.map(() => '?').join(', ')})
+      )`;
+    });
+  if (facetConditions.length > 0) {
+    conditions.push(`(${facetConditions.join(filter?.facetMode === 'or' ? ' OR ' : ' AND ')})`);
+  }
+
+  return { conditions, params };
+}
+
+function buildOrderClause(
+  pagination?: PaginationParams,
+  filter?: ImageFilter
+): { clause: string; params: unknown[] } {
+  const direction = pagination?.sortOrder === 'asc' ? 'ASC' : 'DESC';
+  // Manual sort: position in the collection (the direction is ignored)
+  if (pagination?.sortBy === 'manual' && filter?.collectionId !== undefined) {
+    return {
+      clause: `ORDER BY (
+        SELECT ci.position FROM collection_images ci WHERE ci.image_id = i.id AND ci.collection_id = ?
+      ), i.created_at DESC`,
+      params: [filter.collectionId],
+    };
+  }
+  if (filter?.trash) {
+    return { clause: 'ORDER BY i.deleted_at DESC', params: [] };
+  }
+  // Rating sort: unrated images last, newest first among equal ratings
+  return pagination?.sortBy === 'rating'
+    ? { clause: `ORDER BY i.rating IS NULL, i.rating ${direction}, i.created_at DESC`, params: [] }
+    : { clause: `ORDER BY i.created_at ${direction}`, params: [] };
+}
+
 /**
  * Get images with pagination (optionally including deleted)
  */
 export async function listImages(
   includeDeleted = false,
-  pagination?: PaginationParams
+  pagination?: PaginationParams,
+  filter?: ImageFilter
 ): Promise<PaginatedResult<ImageInfo>> {
   const db = await getDatabase();
 
   const limit = pagination?.limit ?? DEFAULT_PAGE_SIZE;
   const offset = pagination?.offset ?? 0;
-  const sortOrder = pagination?.sortOrder ?? 'desc';
-  const orderClause = `ORDER BY created_at ${sortOrder === 'asc' ? 'ASC' : 'DESC'}`;
-  const deletedClause = includeDeleted ? '' : 'WHERE deleted_at IS NULL';
+  const { conditions, params } = buildFilterConditions(includeDeleted, filter);
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
   // Get total count
-  const countQuery = includeDeleted
-    ? 'SELECT COUNT(*) as count FROM images'
-    : 'SELECT COUNT(*) as count FROM images WHERE deleted_at IS NULL';
-  const countRows = await db.select<{ count: number }>(countQuery);
+  const countRows = await db.select<{ count: number }>(
+    `SELECT COUNT(*) as count FROM images i ${whereClause}`,
+    params
+  );
   const total = countRows[0]?.count ?? 0;
 
   // Get paginated items
+  const order = buildOrderClause(pagination, filter);
   const query = `
-    SELECT id, filename, prompt, created_at, deleted_at, favorite
-    FROM images
-    ${deletedClause}
-    ${orderClause}
+    SELECT i.id, i.filename, i.prompt, i.created_at, i.deleted_at, i.favorite, i.rating
+    FROM images i
+    ${whereClause}
+    ${order.clause}
     LIMIT ? OFFSET ?
   `;
 
-  const rows = await db.select<{
-    id: string;
-    filename: string;
-    prompt: string;
-    created_at: string;
-    deleted_at: string | null;
-    favorite: number;
-  }>(query, [limit, offset]);
-
-  const items = rows.map((row) => ({
-    id: row.id,
-    filename: row.filename,
-    createdAt: row.created_at,
-    prompt: row.prompt,
-    deleted: !!row.deleted_at,
-    favorite: row.favorite === 1,
-  }));
+  const rows = await db.select<ImageListRow>(query, [...params, ...order.params, limit, offset]);
+  const items = rows.map(toImageInfo);
 
   return {
     items,
@@ -199,6 +447,40 @@ export async function restoreImage(id: string): Promise<boolean> {
   return result.rowsAffected > 0;
 }
 
+/**
+ * Bulk restore soft-deleted images
+ */
+export async function bulkRestoreImages(ids: string[]): Promise<number> {
+  if (ids.length === 0) return 0;
+
+  const db = await getDatabase();
+
+  let count = 0;
+  for (const id of ids) {
+    const result = await db.execute(
+      'UPDATE images SET deleted_at = NULL WHERE id = ? AND deleted_at IS NOT NULL',
+      [id]
+    );
+    count += result.rowsAffected;
+  }
+
+  return count;
+}
+
+/**
+ * IDs of soft-deleted images (optionally only those deleted before a date)
+ */
+export async function getTrashedImageIds(deletedBefore?: string): Promise<string[]> {
+  const db = await getDatabase();
+  const rows = deletedBefore
+    ? await db.select<{ id: string }>(
+      'SELECT id FROM images WHERE deleted_at IS NOT NULL AND deleted_at < ?',
+      [deletedBefore]
+    )
+    : await db.select<{ id: string }>('SELECT id FROM images WHERE deleted_at IS NOT NULL');
+  return rows.map((r) => r.id);
+}
+
 /**
  * Toggle favorite status
  */
@@ -212,66 +494,141 @@ export async function toggleFavorite(id: string): Promise<boolean> {
 }
 
 /**
- * Full-text search with automatic prefix matching and pagination
+ * Set star rating (null clears it)
+ */
+export async function setRating(id: string, rating: number | null): Promise<boolean> {
+  const db = await getDatabase();
+  const value = rating === null ? null : Math.min(5, Math.max(1, Math.round(rating)));
+  const result = await db.execute('UPDATE images SET rating = ? WHERE id = ?', [value, id]);
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Set free-text notes (empty string clears them)
+ */
+export async function setNotes(id: string, notes: string): Promise<boolean> {
+  const db = await getDatabase();
+  const result = await db.execute('UPDATE images SET notes = ? WHERE id = ?', [notes.trim() || null, id]);
+  return result.rowsAffected > 0;
+}
+
+/**
+ * Get tags of an image (sorted by name)
+ */
+export async function getImageTags(id: string): Promise<string[]> {
+  const db = await getDatabase();
+  const rows = await db.select<{ name: string }>(`
+    SELECT t.name FROM image_tags it
+    JOIN tags t ON t.id = it.tag_id
+    WHERE it.image_id = ?
+    ORDER BY t.name COLLATE NOCASE
+  `, [id]);
+  return rows.map((r) => r.name);
+}
+
+/**
+ * List all tags with the number of non-deleted images
+ */
+export async function listTags(): Promise<TagInfo[]> {
+  const db = await getDatabase();
+  return db.select<TagInfo>(`
+    SELECT t.name, COUNT(i.id) as count
+    FROM tags t
+    LEFT JOIN image_tags it ON it.tag_id = t.id
+    LEFT JOIN images i ON i.id = it.image_id AND i.deleted_at IS NULL
+    GROUP BY t.id
+    ORDER BY t.name COLLATE NOCASE
+  `);
+}
+
+/**
+ * Add tags to images (creates missing tags)
+ */
+export async function addTagsToImages(ids: string[], tags: string[]): Promise<number> {
+  const names = normalizeTagNames(tags);
+  if (ids.length === 0 || names.length === 0) return 0;
+
+  const db = await getDatabase();
+  const now = new Date().toISOString();
+
+  let count = 0;
+  for (const name of names) {
+    await db.execute('INSERT OR IGNORE INTO tags (name, created_at) VALUES (?, ?)', [name, now]);
+    for (const id of ids) {
+      const result = await db.execute(
+        'INSERT OR IGNORE INTO image_tags (image_id, tag_id) SELECT ?, id FROM tags WHERE name = ?',
+        [id, name]
+      );
+      count += result.rowsAffected;
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Remove tags from images (tags left without images are deleted)
+ */
+export async function removeTagsFromImages(ids: string[], tags: string[]): Promise<number> {
+  const names = normalizeTagNames(tags);
+  if (ids.length === 0 || names.length === 0) return 0;
+
+  const db = await getDatabase();
+
+  let count = 0;
+  for (const name of names) {
+    for (const id of ids) {
+      const result = await db.execute(
+        'DELETE FROM image_tags WHERE image_id = ? AND tag_id IN (SELECT id FROM tags WHERE name = ?)',
+        [id, name]
+      );
+      count += result.rowsAffected;
+    }
+  }
+  await db.execute('DELETE FROM tags WHERE id NOT IN (SELECT tag_id FROM image_tags)');
+
+  return count;
+}
+
+function normalizeTagNames(tags: string[]): string[] {
+  const names = tags.map((tag) => tag.trim()).filter((tag) => tag.length > 0);
+  return names.filter((name, i) => names.findIndex((n) => n.toLowerCase() === name.toLowerCase()) === i);
+}
+
+/**
+ * Search with the gallery query language (see gallery-query.ts) and pagination
  */
 export async function searchImages(
   query: string,
   includeDeleted = false,
-  pagination?: PaginationParams
+  pagination?: PaginationParams,
+  filter?: ImageFilter
 ): Promise<PaginatedResult<ImageInfo>> {
   const db = await getDatabase();
 
   const limit = pagination?.limit ?? DEFAULT_PAGE_SIZE;
   const offset = pagination?.offset ?? 0;
-  const sortOrder = pagination?.sortOrder ?? 'desc';
-
-  // Build FTS query: add * to each word for prefix matching
-  const ftsQuery = query
-    .replace(/['"]/g, '')
-    .trim()
-    .split(/\s+/)
-    .filter(word => word.length > 0)
-    .map(word => word.endsWith('*') ? word : `${word}*`)
-    .join(' ');
-
-  const deletedClause = includeDeleted ? '' : 'AND i.deleted_at IS NULL';
+  const { conditions, params } = buildFilterConditions(includeDeleted, filter, query);
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
   // Get total count for search results
-  const countRows = await db.select<{ count: number }>(`
-    SELECT COUNT(*) as count
-    FROM images i
-    JOIN images_fts f ON i.id = f.id
-    WHERE images_fts MATCH ?
-    ${deletedClause}
-  `, [ftsQuery]);
+  const countRows = await db.select<{ count: number }>(
+    `SELECT COUNT(*) as count FROM images i ${whereClause}`,
+    params
+  );
   const total = countRows[0]?.count ?? 0;
 
   // Get paginated search results
-  const rows = await db.select<{
-    id: string;
-    filename: string;
-    prompt: string;
-    created_at: string;
-    deleted_at: string | null;
-    favorite: number;
-  }>(`
-    SELECT i.id, i.filename, i.prompt, i.created_at, i.deleted_at, i.favorite
+  const order = buildOrderClause(pagination, filter);
+  const rows = await db.select<ImageListRow>(`
+    SELECT i.id, i.filename, i.prompt, i.created_at, i.deleted_at, i.favorite, i.rating
     FROM images i
-    JOIN images_fts f ON i.id = f.id
-    WHERE images_fts MATCH ?
-    ${deletedClause}
-    ORDER BY i.created_at ${sortOrder === 'asc' ? 'ASC' : 'DESC'}
+    ${whereClause}
+    ${order.clause}
     LIMIT ? OFFSET ?
-  `, [ftsQuery, limit, offset]);
+  `, [...params, ...order.params, limit, offset]);
 
-  const items = rows.map((row) => ({
-    id: row.id,
-    filename: row.filename,
-    createdAt: row.created_at,
-    prompt: row.prompt,
-    deleted: !!row.deleted_at,
-    favorite: row.favorite === 1,
-  }));
+  const items = rows.map(toImageInfo);
 
   return {
     items,
@@ -280,6 +637,67 @@ export async function searchImages(
   };
 }
 
+/**
+ * Most frequent attribute keys and values with counts for the facet sidebar
+ * Counts reflect the full-text query and filters. In AND mode, the counts of a key
+ * ignore that key's own selection so other values stay selectable.
+ */
+export async function getAttributeFacets(
+  query?: string,
+  filter?: ImageFilter,
+  options?: { keyLimit?: number; valueLimit?: number }
+): Promise<FacetKey[]> {
+  const db = await getDatabase();
+  const keyLimit = options?.keyLimit ?? 15;
+  const valueLimit = options?.valueLimit ?? 8;
+  const selection = (filter?.facets ?? []).filter((facet) => facet.values.length > 0);
+
+  // Top keys are ranked over all attribute rows (covering index scan, ignores deleted images)
+  const keys = await db.select<{ key: string; count: number }>(`
+    SELECT key, COUNT(*) as count FROM image_attributes
+    GROUP BY key
+    ORDER BY count DESC, key
+    LIMIT ?
+  `, [keyLimit]);
+
+  // Selected keys outside the top list stay visible so they can be cleared
+  for (const facet of selection) {
+    if (!keys.some((k) => k.key === facet.key)) {
+      keys.push({ key: facet.key, count: 0 });
+    }
+  }
+
+  const result: FacetKey[] = [];
+  for (const { key, count } of keys) {
+    const otherFacets = filter?.facetMode === 'or' ? [] : selection.filter((facet) => facet.key !== key);
+    const { conditions, params } = buildFilterConditions(false, { ...filter, facets: otherFacets }, query);
+
+    const values = await db.select<FacetValueCount>(`
+      SELECT a.value, COUNT(*) as count
+      FROM image_attributes a
+      JOIN images i ON i.id = a.image_id
+      WHERE a.key = ?
+      ${conditions.map((condition) => `AND ${condition}`).join('\n')}
+      GROUP BY a.value
+      ORDER BY count DESC, a.value
+      LIMIT ?
+    `, [key, ...params, valueLimit]);
+
+    const selectedValues = selection.find((facet) => facet.key === key)?.values ?? [];
+    for (const value of selectedValues) {
+      if (!values.some((v) => v.value === value)) {
+        values.push({ value, count: 0 });
+      }
+    }
+
+    if (values.length > 0) {
+      result.push({ key, count, values });
+    }
+  }
+
+  return result;
+}
+
 /**
  * Check if an image exists in the database
  */
@@ -319,6 +737,51 @@ export async function markMissingAsDeleted(missingIds: string[]): Promise<number
   return count;
 }
 
+export type ImageFileRecord = Pick<ImageRecord, 'id' | 'filename' | 'prompt' | 'created_at' | 'deleted_at' | 'content_hash'>;
+
+/**
+ * Get the file-related columns of all images, including deleted ones (for integrity repair)
+ */
+export async function getImageFileRecords(): Promise<ImageFileRecord[]> {
+  const db = await getDatabase();
+  return db.select<ImageFileRecord>(
+    'SELECT id, filename, prompt, created_at, deleted_at, content_hash FROM images ORDER BY created_at DESC'
+  );
+}
+
+/**
+ * Record the content hash of an image file
+ */
+export async function setContentHash(id: string, contentHash: string): Promise<void> {
+  const db = await getDatabase();
+  await db.execute('UPDATE images SET content_hash = ? WHERE id = ?', [contentHash, id]);
+}
+
+export type PerceptualHashRecord = Pick<
+  ImageRecord, 'id' | 'filename' | 'prompt' | 'created_at' | 'favorite' | 'rating' | 'file_size' | 'perceptual_hash'
+>;
+
+/**
+ * Get the perceptual hashes of all non-deleted images (for duplicate detection)
+ */
+export async function getPerceptualHashRecords(): Promise<PerceptualHashRecord[]> {
+  const db = await getDatabase();
+  return db.select<PerceptualHashRecord>(`
+    SELECT id, filename, prompt, created_at, favorite, rating, file_size, perceptual_hash
+    FROM images
+    WHERE deleted_at IS NULL
+    ORDER BY created_at DESC
+  `);
+}
+
+/**
+ * Record the perceptual hash of an image
+ */
+export async function setPerceptualHash(id: string, perceptualHash: string): Promise<void> {
+  const db = await getDatabase();
+  await db.execute('UPDATE images SET perceptual_hash = ? WHERE id = ?', [perceptualHash, id]);
+}
+
 /**
  * Bulk soft delete images
  */
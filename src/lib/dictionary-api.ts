@@ -110,3 +110,27 @@ export function lookupDictionary(
 
   return results;
 }
+
+// YAMLパスから辞書を検索するためのキーを生成
+// 例: "outfit.jacket.style" → ["outfit.jacket", "jacket"] → "jacket.style", "*.style"
+export function getDictionaryEntries(
+  yamlPath: string | undefined,
+  dictionaryCache: Map<string, DictionaryEntry[]>
+): DictionaryEntry[] {
+  if (!yamlPath) return [];
+
+  const parts = yamlPath.split('.');
+  if (parts.length === 0) return [];
+
+  let key = parts[parts.length - 1]; // 最後のキー (例: "style")
+  let contextPath = parts.slice(0, -1); // コンテキストパス (例: ["outfit", "jacket"])
+
+  // YAPS仕様: "base" キーは親キーのエイリアス
+  // 例: pose.base の値は pose の値辞書を使う
+  if (key === 'base' && contextPath.length > 0) {
+    key = contextPath[contextPath.length - 1];
+    contextPath = contextPath.slice(0, -1);
+  }
+
+  return lookupDictionary(dictionaryCache, contextPath, key);
+}
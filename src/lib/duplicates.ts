@@ -0,0 +1,170 @@
+// Duplicate finder for the gallery
+// Groups non-deleted images whose perceptual hashes differ by at most maxDistance bits.
+// A group is a connected component of the "similar" relation, so a chain of similar images
+// (A≈B, B≈C) forms one group. Within a group the best image comes first: favorites, then
+// higher ratings, then larger files, then the oldest image.
+// Only images that share a hash segment are compared (see findSimilarPairs), and the work
+// yields to the UI regularly so large galleries do not freeze the window.
+
+import { getImageMimeType } from './thumbnail';
+import { computePerceptualHash, hammingDistance, parsePerceptualHash, PERCEPTUAL_HASH_BITS } from './perceptual-hash';
+import { getImagesPath, joinPath } from './tauri-utils';
+
+export interface DuplicateImage {
+  id: string;
+  filename: string;
+  prompt: string;
+  createdAt: string;
+  favorite: boolean;
+  rating?: number;
+  fileSize?: number;
+}
+
+export interface DuplicateGroup {
+  images: DuplicateImage[]; // 最良の画像が先頭
+}
+
+// done / total の進捗通知
+export type DuplicateProgressCallback = (done: number, total: number) => void;
+
+// 比較の途中でUIに処理を返す間隔（ミリ秒）
+const YIELD_INTERVAL_MS = 16;
+
+// 残す画像の優先順位（負なら a を優先）
+export function compareDuplicateImages(a: DuplicateImage, b: DuplicateImage): number {
+  return (
+    Number(b.favorite) - Number(a.favorite) ||
+    (b.rating ?? 0) - (a.rating ?? 0) ||
+    (b.fileSize ?? 0) - (a.fileSize ?? 0) ||
+    a.createdAt.localeCompare(b.createdAt)
+  );
+}
+
+// ハッシュを segments 個の区間に分けたときの各区間のキー
+function hashSegmentKeys(hash: string, segments: number): string[] {
+  const value = BigInt(`0x${hash}`);
+  const keys: string[] = [];
+  for (let k = 0; k < segments; k++) {
+    const start = Math.floor((PERCEPTUAL_HASH_BITS * k) / segments);
+    const end = Math.floor((PERCEPTUAL_HASH_BITS * (k + 1)) / segments);
+    const mask = (BigInt(1) << BigInt(end - start)) - BigInt(1);
+    keys.push(`${k}:${((value >> BigInt(start)) & mask).toString(16)}`);
+  }
+  return keys;
+}
+
+// 距離 maxDistance 以内の組を onPair に渡す
+// maxDistance + 1 個の区間に分けると、距離 maxDistance 以内の2つのハッシュはどれかの区間が完全に一致する
+// （鳩の巣原理）。区間ごとのバケットに振り分け、同じバケットに入ったものだけを比較する
+async function findSimilarPairs(
+  hashes: string[],
+  maxDistance: number,
+  onPair: (i: number, j: number) => void,
+  isLinked: (i: number, j: number) => boolean
+): Promise<void> {
+  const parsed = hashes.map(parsePerceptualHash);
+  const segments = Math.min(maxDistance + 1, PERCEPTUAL_HASH_BITS);
+  const buckets = new Map<string, number[]>();
+  hashes.forEach((hash, i) => {
+    for (const key of hashSegmentKeys(hash, segments)) {
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(i);
+      } else {
+        buckets.set(key, [i]);
+      }
+    }
+  });
+
+  let lastYield = performance.now();
+  for (const bucket of buckets.values()) {
+    for (let a = 0; a < bucket.length; a++) {
+      for (let b = a + 1; b < bucket.length; b++) {
+        const i = bucket[a];
+        const j = bucket[b];
+        if (!isLinked(i, j) && hammingDistance(parsed[i], parsed[j]) <= maxDistance) {
+          onPair(i, j);
+        }
+      }
+      if (performance.now() - lastYield > YIELD_INTERVAL_MS) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        lastYield = performance.now();
+      }
+    }
+  }
+}
+
+/**
+ * Find groups of similar images.
+ * Images saved before perceptual hashes were recorded are hashed first (reported via onProgress).
+ */
+export async function findDuplicateGroups(
+  maxDistance: number,
+  onProgress?: DuplicateProgressCallback
+): Promise<DuplicateGroup[]> {
+  const { readFile } = await import('@tauri-apps/plugin-fs');
+  const dbImages = await import('./db/tauri-images');
+
+  const records = await dbImages.getPerceptualHashRecords();
+
+  // ハッシュのない画像を計算して記録
+  const unhashed = records.filter((record) => !record.perceptual_hash);
+  const imagesDir = await getImagesPath();
+  onProgress?.(0, unhashed.length);
+  for (const [i, record] of unhashed.entries()) {
+    try {
+      const data = await readFile(await joinPath(imagesDir, record.filename));
+      record.perceptual_hash = await computePerceptualHash(data, getImageMimeType(record.filename));
+      await dbImages.setPerceptualHash(record.id, record.perceptual_hash);
+    } catch (error) {
+      console.warn(`[Duplicates] Failed to hash ${record.filename}:`, error);
+    }
+    onProgress?.(i + 1, unhashed.length);
+  }
+
+  const hashed = records.filter((record) => record.perceptual_hash);
+
+  // Union-Find で近いもの同士をまとめる
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  await findSimilarPairs(
+    hashed.map((record) => record.perceptual_hash!),
+    maxDistance,
+    (i, j) => {
+      parent[find(j)] = find(i);
+    },
+    (i, j) => find(i) === find(j)
+  );
+
+  const groups = new Map<number, DuplicateImage[]>();
+  hashed.forEach((record, i) => {
+    const root = find(i);
+    const image: DuplicateImage = {
+      id: record.id,
+      filename: record.filename,
+      prompt: record.prompt,
+      createdAt: record.created_at,
+      favorite: record.favorite === 1,
+      rating: record.rating ?? undefined,
+      fileSize: record.file_size ?? undefined,
+    };
+    const group = groups.get(root);
+    if (group) {
+      group.push(image);
+    } else {
+      groups.set(root, [image]);
+    }
+  });
+
+  // 2枚以上のグループを、大きい順に
+  return Array.from(groups.values())
+    .filter((images) => images.length > 1)
+    .map((images) => ({ images: images.sort(compareDuplicateImages) }))
+    .sort((a, b) => b.images.length - a.images.length);
+}
@@ -24,6 +24,7 @@ export interface FileTreeItem {
 export interface FileAPI {
   listFiles(): Promise<FileTreeItem[]>;
   readFile(path: string): Promise<string>;
+  exists(path: string): Promise<boolean>;
   writeFile(path: string, content: string): Promise<void>;
   createFile(path: string, content?: string): Promise<void>;
   createFolder(path: string): Promise<void>;
@@ -110,6 +111,11 @@ class TauriFileAPI implements FileAPI {
     return readTextFile(fullPath);
   }
 
+  async exists(path: string): Promise<boolean> {
+    const fullPath = await this.getFullPath(path);
+    return exists(fullPath);
+  }
+
   async writeFile(path: string, content: string): Promise<void> {
     const fullPath = await this.getFullPath(path);
     await writeTextFile(fullPath, content);
@@ -0,0 +1,196 @@
+// Gallery query language
+// Parses search box input such as:
+//   "red dress" -hat workflow:flux seed:1234 after:2026-01-01 is:favorite hair.color:blonde
+// into terms that tauri-images.ts compiles to SQL. All terms are combined with AND,
+// and any term can be negated with a leading "-".
+
+export type GalleryQueryTerm =
+  | { type: 'text'; value: string; phrase: boolean; negate: boolean }
+  | { type: 'workflow'; value: string; negate: boolean }
+  | { type: 'seed'; value: number; negate: boolean }
+  | { type: 'date'; op: 'after' | 'before' | 'on'; value: string; negate: boolean }
+  | { type: 'is'; value: GalleryQueryIsValue; negate: boolean }
+  | { type: 'rating'; op: '=' | '>' | '>=' | '<' | '<='; value: number; negate: boolean }
+  | { type: 'tag'; value: string; negate: boolean }
+  | { type: 'template'; value: string; negate: boolean }
+  | { type: 'attribute'; key: string; value: string; negate: boolean };
+
+export type GalleryQueryIsValue = 'favorite' | 'rated' | 'tagged';
+
+export type GalleryQueryErrorCode =
+  | 'unterminatedQuote'
+  | 'emptyValue'
+  | 'invalidSeed'
+  | 'invalidDate'
+  | 'invalidRating'
+  | 'unknownIsValue';
+
+export interface GalleryQueryError {
+  code: GalleryQueryErrorCode;
+  message: string;
+  position: number; // 0始まりの文字位置
+  token: string;    // 問題のあった部分
+}
+
+export interface ParsedGalleryQuery {
+  terms: GalleryQueryTerm[];
+  errors: GalleryQueryError[];
+}
+
+const IS_VALUES: GalleryQueryIsValue[] = ['favorite', 'rated', 'tagged'];
+
+// 入力を解析（エラーのある項目は除外して残りを返す）
+export function parseGalleryQuery(input: string): ParsedGalleryQuery {
+  const terms: GalleryQueryTerm[] = [];
+  const errors: GalleryQueryError[] = [];
+  let i = 0;
+
+  const isSpace = (c: string | undefined) => c === undefined || /\s/.test(c);
+
+  // "..." を読む（閉じ引用符がなければ null）
+  const readQuoted = (): string | null => {
+    const end = input.indexOf('"', i + 1);
+    if (end === -1) return null;
+    const value = input.slice(i + 1, end);
+    i = end + 1;
+    return value;
+  };
+
+  const readBare = (stopAtColon: boolean): string => {
+    const start = i;
+    while (i < input.length && !isSpace(input[i]) && !(stopAtColon && input[i] === ':')) {
+      i++;
+    }
+    return input.slice(start, i);
+  };
+
+  while (i < input.length) {
+    if (isSpace(input[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negate = false;
+    if (input[i] === '-' && !isSpace(input[i + 1])) {
+      negate = true;
+      i++;
+    }
+
+    const error = (code: GalleryQueryErrorCode, message: string) => {
+      errors.push({ code, message, position: start, token: input.slice(start, i) });
+    };
+
+    // "フレーズ"
+    if (input[i] === '"') {
+      const value = readQuoted();
+      if (value === null) {
+        i = input.length;
+        error('unterminatedQuote', 'Missing closing quote');
+      } else if (value.trim()) {
+        terms.push({ type: 'text', value: value.trim(), phrase: true, negate });
+      }
+      continue;
+    }
+
+    const word = readBare(true);
+    if (input[i] !== ':' || !word) {
+      // 単語（"-" だけの場合は無視）
+      if (word && word !== '-') terms.push({ type: 'text', value: word, phrase: false, negate });
+      if (input[i] === ':') i++;
+      continue;
+    }
+
+    // key:value / key:"value"
+    i++;
+    let value: string | null;
+    if (input[i] === '"') {
+      value = readQuoted();
+      if (value === null) {
+        i = input.length;
+        error('unterminatedQuote', 'Missing closing quote');
+        continue;
+      }
+    } else {
+      value = readBare(false);
+    }
+    value = value.trim();
+    if (!value) {
+      error('emptyValue', `"${word}:" needs a value`);
+      continue;
+    }
+
+    const term = parseField(word, value, negate);
+    if ('code' in term) {
+      error(term.code, term.message);
+    } else {
+      terms.push(term);
+    }
+  }
+
+  return { terms, errors };
+}
+
+// 組み込みのフィールド（それ以外の key:value は属性として扱う）
+function parseField(
+  name: string,
+  value: string,
+  negate: boolean
+): GalleryQueryTerm | { code: GalleryQueryErrorCode; message: string } {
+  switch (name.toLowerCase()) {
+    case 'workflow':
+      return { type: 'workflow', value, negate };
+    case 'seed':
+      if (!/^\d+$/.test(value)) {
+        return { code: 'invalidSeed', message: `Seed must be a whole number: "${value}"` };
+      }
+      return { type: 'seed', value: Number(value), negate };
+    case 'after':
+    case 'before':
+    case 'on':
+      if (!isValidDate(value)) {
+        return { code: 'invalidDate', message: `Date must be YYYY-MM-DD: "${value}"` };
+      }
+      return { type: 'date', op: name.toLowerCase() as 'after' | 'before' | 'on', value, negate };
+    case 'is': {
+      const isValue = value.toLowerCase() === 'fav' ? 'favorite' : value.toLowerCase();
+      if (!IS_VALUES.includes(isValue as GalleryQueryIsValue)) {
+        return { code: 'unknownIsValue', message: `Unknown "is:" value "${value}" (expected ${IS_VALUES.join(', ')})` };
+      }
+      return { type: 'is', value: isValue as GalleryQueryIsValue, negate };
+    }
+    case 'rating': {
+      const match = /^(>=|<=|>|<|=)?([1-5])$/.exec(value);
+      if (!match) {
+        return { code: 'invalidRating', message: `Rating must be 1-5 with an optional >, >=, <, <=: "${value}"` };
+      }
+      return { type: 'rating', op: (match[1] ?? '=') as '=', value: Number(match[2]), negate };
+    }
+    case 'tag':
+      return { type: 'tag', value, negate };
+    case 'template':
+      return { type: 'template', value, negate };
+    default:
+      return { type: 'attribute', key: name, value, negate };
+  }
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00`);
+  // 2026-02-30 などの存在しない日付を除外
+  return !isNaN(date.getTime()) && toLocalDateString(date) === value;
+}
+
+function toLocalDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// ローカル日付の範囲（その日の0時 〜 翌日0時）をISO文字列で返す
+export function getDayRange(value: string): { start: string; end: string } {
+  const start = new Date(`${value}T00:00:00`);
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { start: start.toISOString(), end: end.toISOString() };
+}
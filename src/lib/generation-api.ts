@@ -0,0 +1,134 @@
+// Generation API - Tauri専用
+// Loads the workflow, applies overrides, runs ComfyUI and saves the resulting images
+// Shared by single generation and the batch queue
+
+import { ComfyUIClient, DEFAULT_GENERATION_TIMEOUT_MS, type GenerationProgress } from './comfyui-api';
+import { imageAPI, type ImageProvenance } from './image-api';
+import { getComfyUIPath, joinPath } from './tauri-utils';
+import type { ComfyUISettings, NodeOverride, WorkflowConfig } from './storage';
+import type { VariableValues } from './variable-utils';
+
+export interface RunGenerationOptions {
+  settings: ComfyUISettings;
+  workflow: WorkflowConfig;
+  prompt: string;
+  negativePrompt?: string;
+  overrideValues: Record<string, string | number>; // 生成パネルで入力された値（nodeId.property → 値）
+  seed?: number; // 省略時はランダム
+  // 画像と一緒に保存する情報
+  variables?: VariableValues;
+  batchId?: string;
+  batchJobId?: string;
+  // テンプレート・エンハンスの情報（ワークフローと上書き値はここで追加）
+  provenance?: Omit<ImageProvenance, 'workflowSnapshot' | 'overrideValues'>;
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal; // 中断すると生成をキャンセルし、画像は保存しない
+}
+
+export interface RunGenerationResult {
+  imageIds: string[];
+  seed?: number;
+  cancelled?: boolean;
+}
+
+// overridesに生成パネルで入力された値を反映
+export function applyOverrideValues(
+  overrides: NodeOverride[],
+  overrideValues: Record<string, string | number>
+): NodeOverride[] {
+  return overrides.map(override => {
+    const key = `${override.nodeId}.${override.property}`;
+    if (key in overrideValues) {
+      return { ...override, value: overrideValues[key] };
+    }
+    return override;
+  });
+}
+
+// ワークフローを読み込んで生成し、画像を保存
+// 失敗時は Error を投げる（キャンセル時は投げずに cancelled: true を返す）
+export async function runGeneration(options: RunGenerationOptions): Promise<RunGenerationResult> {
+  const { settings, workflow: workflowConfig, prompt, negativePrompt, overrideValues, seed } = options;
+
+  // ワークフローを取得
+  const { readTextFile, exists } = await import('@tauri-apps/plugin-fs');
+  const comfyuiDir = await getComfyUIPath();
+  const workflowPath = await joinPath(comfyuiDir, workflowConfig.file);
+
+  if (!(await exists(workflowPath))) {
+    throw new Error(`Workflow file not found: ${workflowConfig.file}`);
+  }
+
+  const content = await readTextFile(workflowPath);
+  const workflow: Record<string, unknown> = JSON.parse(content);
+  if (options.signal?.aborted) {
+    return { imageIds: [], cancelled: true };
+  }
+
+  const effectiveOverrides = applyOverrideValues(workflowConfig.overrides, overrideValues);
+
+  // 生成
+  const client = new ComfyUIClient(settings.url);
+  const result = await client.generate({
+    workflow,
+    prompt,
+    promptNodeId: workflowConfig.promptNodeId,
+    promptProperty: workflowConfig.promptProperty,
+    samplerNodeId: workflowConfig.samplerNodeId,
+    samplerProperty: workflowConfig.samplerProperty,
+    seed,
+    negativePrompt: negativePrompt || undefined,
+    negativeNodeId: workflowConfig.negativeNodeId,
+    negativeProperty: workflowConfig.negativeProperty,
+    overrides: effectiveOverrides,
+    timeoutMs: settings.timeoutSeconds > 0 ? settings.timeoutSeconds * 1000 : DEFAULT_GENERATION_TIMEOUT_MS,
+    signal: options.signal,
+    onProgress: options.onProgress,
+  });
+
+  // キャンセルされたジョブの画像は保存しない
+  if (result.cancelled || options.signal?.aborted) {
+    return { imageIds: [], cancelled: true };
+  }
+  if (!result.success) {
+    throw new Error(result.error || 'Generation failed');
+  }
+  if (result.images.length === 0) {
+    throw new Error('No images returned from ComfyUI');
+  }
+
+  // パラメーターをオブジェクトに変換
+  const parametersObj: Record<string, unknown> = {};
+  for (const override of effectiveOverrides) {
+    if (override.nodeId && override.property && override.value !== '') {
+      parametersObj[override.property] = override.value;
+    }
+  }
+
+  const imageIds: string[] = [];
+  for (const imageUrl of result.images) {
+    try {
+      const saved = await imageAPI.save({
+        imageUrl,
+        prompt,
+        workflowId: workflowConfig.id,
+        seed: result.seed,
+        negativePrompt: negativePrompt || undefined,
+        parameters: Object.keys(parametersObj).length > 0 ? parametersObj : undefined,
+        variables: options.variables,
+        batchId: options.batchId,
+        batchJobId: options.batchJobId,
+        provenance: {
+          ...options.provenance,
+          workflowSnapshot: result.workflow,
+          overrideValues,
+        },
+      });
+      imageIds.push(saved.id);
+    } catch {
+      // Ignore save errors for individual images
+    }
+  }
+
+  return { imageIds, seed: result.seed };
+}
@@ -3,6 +3,8 @@
 // DB operations are handled via tauri-images.ts
 
 import { getImagesPath, joinPath } from './tauri-utils';
+import type { VariableValues } from './variable-utils';
+import type { RandomChoices } from './random-choices';
 
 // Re-export ImageInfo type (simple interface, no db dependency)
 export interface ImageInfo {
@@ -11,7 +13,9 @@ export interface ImageInfo {
   createdAt: string;
   prompt?: string;
   deleted?: boolean;
+  deletedAt?: string; // ゴミ箱に入れた日時
   favorite?: boolean;
+  rating?: number;
 }
 
 // Pagination types (re-exported for convenience)
@@ -19,6 +23,35 @@ export interface PaginationParams {
   limit?: number;
   offset?: number;
   sortOrder?: 'asc' | 'desc';
+  sortBy?: 'createdAt' | 'rating' | 'manual'; // manual: コレクション内の並び順
+}
+
+// ギャラリーの絞り込み条件（すべて AND）
+export interface ImageFilter {
+  favoriteOnly?: boolean;
+  minRating?: number;
+  tag?: string;
+  facets?: AttributeFacet[];
+  facetMode?: 'and' | 'or'; // キー同士の組み合わせ方（同じキーの値同士は常に OR）
+  collectionId?: number;      // コレクション内の画像のみ
+  trash?: boolean;            // ゴミ箱の画像のみ（削除が新しい順）
+}
+
+// 属性ファセット（YAMLのドット区切りキーと選択中の値）
+export interface AttributeFacet {
+  key: string;
+  values: string[];
+}
+
+export interface FacetKey {
+  key: string;
+  count: number;
+  values: { value: string; count: number }[];
+}
+
+export interface TagInfo {
+  name: string;
+  count: number;
 }
 
 export interface PaginatedResult<T> {
@@ -39,26 +72,54 @@ export interface ImageDetail {
   height?: number;
   negativePrompt?: string;
   parameters?: Record<string, unknown>;
+  variables?: VariableValues;
+  batchId?: string;
   deleted?: boolean;
   favorite?: boolean;
+  rating?: number;
+  notes?: string;
+  tags: string[];
+  // 再現用の情報（この機能以前の画像にはない）
+  templatePath?: string;
+  rawYaml?: string;
+  mergedYaml?: string;
+  enhancerPresetId?: string;
+  enhancerModel?: string;
+  workflowSnapshot?: Record<string, unknown>;
+  overrideValues?: Record<string, string | number>;
+  randomChoices?: RandomChoices;
+}
+
+// 画像と一緒に保存する再現用の情報
+export interface ImageProvenance {
+  templatePath?: string;
+  rawYaml?: string;          // 生成時のテンプレートファイルの内容
+  mergedYaml?: string;       // マージ・変数解決後のYAML（エンハンス前）
+  enhancerPresetId?: string; // エンハンスした場合のみ
+  enhancerModel?: string;
+  workflowSnapshot?: Record<string, unknown>; // ComfyUIに送ったワークフロー
+  overrideValues?: Record<string, string | number>;
+  randomChoices?: RandomChoices; // ランダムに選んだ値とシード
 }
 
 // Tauri API implementation - uses Tauri plugins directly
 async function tauriList(
   includeDeleted = false,
-  pagination?: PaginationParams
+  pagination?: PaginationParams,
+  filter?: ImageFilter
 ): Promise<PaginatedResult<ImageInfo>> {
   const dbImages = await import('./db/tauri-images');
-  return dbImages.listImages(includeDeleted, pagination);
+  return dbImages.listImages(includeDeleted, pagination, filter);
 }
 
 async function tauriSearch(
   query: string,
   includeDeleted = false,
-  pagination?: PaginationParams
+  pagination?: PaginationParams,
+  filter?: ImageFilter
 ): Promise<PaginatedResult<ImageInfo>> {
   const dbImages = await import('./db/tauri-images');
-  return dbImages.searchImages(query, includeDeleted, pagination);
+  return dbImages.searchImages(query, includeDeleted, pagination, filter);
 }
 
 async function tauriBulkDelete(ids: string[]): Promise<number> {
@@ -70,6 +131,7 @@ async function tauriGetDetail(id: string): Promise<ImageDetail | null> {
   const dbImages = await import('./db/tauri-images');
   const record = await dbImages.getImage(id);
   if (!record) return null;
+  const tags = await dbImages.getImageTags(id);
 
   return {
     id: record.id,
@@ -82,8 +144,21 @@ async function tauriGetDetail(id: string): Promise<ImageDetail | null> {
     height: record.height || undefined,
     negativePrompt: record.negative_prompt || undefined,
     parameters: record.parameters ? JSON.parse(record.parameters) : undefined,
+    variables: record.variables ? JSON.parse(record.variables) : undefined,
+    batchId: record.batch_id || undefined,
     deleted: !!record.deleted_at,
     favorite: record.favorite === 1,
+    rating: record.rating ?? undefined,
+    notes: record.notes ?? undefined,
+    tags,
+    templatePath: record.template_path || undefined,
+    rawYaml: record.raw_yaml ?? undefined,
+    mergedYaml: record.merged_yaml ?? undefined,
+    enhancerPresetId: record.enhancer_preset_id || undefined,
+    enhancerModel: record.enhancer_model || undefined,
+    workflowSnapshot: record.workflow_snapshot ? JSON.parse(record.workflow_snapshot) : undefined,
+    overrideValues: record.override_values ? JSON.parse(record.override_values) : undefined,
+    randomChoices: record.random_choices ? JSON.parse(record.random_choices) : undefined,
   };
 }
 
@@ -94,10 +169,14 @@ export interface SaveImageOptions {
   seed?: number;
   negativePrompt?: string;
   parameters?: Record<string, unknown>;
+  variables?: VariableValues;
+  batchId?: string;
+  batchJobId?: string;
+  provenance?: ImageProvenance;
 }
 
 async function tauriSave(options: SaveImageOptions): Promise<ImageInfo> {
-  const { imageUrl, prompt, workflowId, seed, negativePrompt, parameters } = options;
+  const { imageUrl, prompt, workflowId, seed, negativePrompt, parameters, variables, batchId, batchJobId, provenance } = options;
   const { fetch: tauriFetch } = await import('@tauri-apps/plugin-http');
   const { writeFile, mkdir, exists } = await import('@tauri-apps/plugin-fs');
   const dbImages = await import('./db/tauri-images');
@@ -119,7 +198,32 @@ async function tauriSave(options: SaveImageOptions): Promise<ImageInfo> {
               contentType.includes('webp') ? 'webp' : 'png';
 
   const arrayBuffer = await response.arrayBuffer();
-  const data = new Uint8Array(arrayBuffer);
+  let data: Uint8Array = new Uint8Array(arrayBuffer);
+
+  // プロンプト・変数などをファイル自体にも埋め込む（PNG: iTXt / WebP: XMP）
+  // 失敗しても画像の保存は続ける
+  if (ext !== 'jpg') {
+    try {
+      const { embedImageMetadata } = await import('./image-metadata');
+      data = embedImageMetadata(data, {
+        version: 1,
+        prompt: prompt || '',
+        negativePrompt,
+        seed,
+        workflowId,
+        variables,
+        parameters,
+        templatePath: provenance?.templatePath,
+        rawYaml: provenance?.rawYaml,
+        mergedYaml: provenance?.mergedYaml,
+        enhancerPresetId: provenance?.enhancerPresetId,
+        enhancerModel: provenance?.enhancerModel,
+        randomChoices: provenance?.randomChoices,
+      });
+    } catch (error) {
+      console.warn('Failed to embed image metadata:', error);
+    }
+  }
 
   // Generate filename
   const timestamp = Date.now();
@@ -130,8 +234,10 @@ async function tauriSave(options: SaveImageOptions): Promise<ImageInfo> {
 
   // Save image file
   await writeFile(filePath, data);
+  await writeThumbnail(filename, data);
 
   // Save metadata to DB
+  const { computeContentHash } = await import('./content-hash');
   const imageRecord = await dbImages.createImage({
     id,
     filename,
@@ -141,6 +247,12 @@ async function tauriSave(options: SaveImageOptions): Promise<ImageInfo> {
     fileSize: data.length,
     negativePrompt,
     parameters,
+    variables,
+    batchId,
+    batchJobId,
+    ...provenance,
+    contentHash: await computeContentHash(data),
+    perceptualHash: await tryPerceptualHash(filename, data),
   });
 
   return {
@@ -153,30 +265,209 @@ async function tauriSave(options: SaveImageOptions): Promise<ImageInfo> {
   };
 }
 
-async function tauriDelete(filename: string, hard = false): Promise<void> {
-  const dbImages = await import('./db/tauri-images');
-  const id = filename.replace(/\.(png|jpg|jpeg|webp)$/, '');
+// ギャラリー用のサムネイルを作成（失敗しても保存は続け、表示時に作り直す）
+async function writeThumbnail(filename: string, data: Uint8Array): Promise<void> {
+  try {
+    const { saveThumbnail } = await import('./thumbnail');
+    await saveThumbnail(filename, data);
+  } catch (error) {
+    console.warn('Failed to create thumbnail:', error);
+  }
+}
 
-  if (hard) {
-    const { remove, exists } = await import('@tauri-apps/plugin-fs');
-    const imagesDir = await getImagesPath();
-    const filePath = await joinPath(imagesDir, filename);
+// 重複検出用の知覚ハッシュ（デコードできなければ undefined、重複検出の初回実行時に再計算する）
+async function tryPerceptualHash(filename: string, data: Uint8Array): Promise<string | undefined> {
+  try {
+    const { computePerceptualHash } = await import('./perceptual-hash');
+    const { getImageMimeType } = await import('./thumbnail');
+    return await computePerceptualHash(data, getImageMimeType(filename));
+  } catch (error) {
+    console.warn('Failed to compute perceptual hash:', error);
+    return undefined;
+  }
+}
+
+export interface ImportImageResult {
+  image: ImageInfo;
+  source: 'imaginr' | 'comfyui' | 'a1111' | null; // メタデータが見つからなければ null
+  templateCreated?: string; // 埋め込まれたYAMLからテンプレートを復元した場合のパス
+  templateError?: { path: string; message: string }; // テンプレートの復元に失敗した場合（画像自体は取り込み済み）
+}
+
+// 埋め込みメタデータのテンプレートパスを検証して正規化（プロンプトフォルダ内の .yaml のみ）
+// 外部から来た値なので、絶対パス・ドライブ名・バックスラッシュ・"." / ".." / 空のセグメントは拒否する
+function normalizeImportedTemplatePath(path: string): string | null {
+  const normalized = path.trim().normalize('NFC');
+  if (normalized.includes('\\') || normalized.includes(':') || normalized.startsWith('/')) return null;
+  const segments = normalized.split('/');
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) return null;
+  if (!/\.yaml$/i.test(segments[segments.length - 1])) return null;
+  return normalized;
+}
+
+// 画像フォルダにあるファイルのレコードを作成（埋め込みメタデータがあればレコードに反映）
+// fallback: 埋め込みメタデータがない場合に使う値（旧形式の .json など）
+async function createRecordForFile(
+  filename: string,
+  data: Uint8Array,
+  fallback: { prompt?: string; createdAt?: string } = {}
+): Promise<ImportImageResult> {
+  const { extractImageMetadata } = await import('./image-metadata');
+  const { computeContentHash } = await import('./content-hash');
+  const dbImages = await import('./db/tauri-images');
 
-    if (await exists(filePath)) {
-      await remove(filePath);
+  const metadata = await extractImageMetadata(data);
+
+  // 元のテンプレートがなければ埋め込まれたYAMLから作り直す（既存ファイルは上書きしない）
+  // 外部から来たパスなのでプロンプトフォルダの外を指すもの・.yaml 以外は無視
+  let templateCreated: string | undefined;
+  let templateError: ImportImageResult['templateError'];
+  const templatePath = metadata?.templatePath ? normalizeImportedTemplatePath(metadata.templatePath) : null;
+  if (templatePath && metadata?.rawYaml !== undefined) {
+    const { fileAPI } = await import('./file-api');
+    try {
+      if (!(await fileAPI.exists(templatePath))) {
+        await fileAPI.createFile(templatePath, metadata.rawYaml);
+        templateCreated = templatePath;
+      }
+    } catch (error) {
+      console.error('Failed to restore template:', templatePath, error);
+      templateError = { path: templatePath, message: error instanceof Error ? error.message : String(error) };
     }
+  }
+
+  const imageRecord = await dbImages.createImage({
+    id: filename.replace(/\.(png|jpg|jpeg|webp)$/i, ''),
+    filename,
+    prompt: metadata?.prompt ?? fallback.prompt ?? '',
+    workflowId: metadata?.workflowId,
+    seed: metadata?.seed,
+    fileSize: data.length,
+    negativePrompt: metadata?.negativePrompt,
+    parameters: metadata?.parameters,
+    variables: metadata?.variables,
+    templatePath: templatePath ?? undefined,
+    rawYaml: metadata?.rawYaml,
+    mergedYaml: metadata?.mergedYaml,
+    enhancerPresetId: metadata?.enhancerPresetId,
+    enhancerModel: metadata?.enhancerModel,
+    randomChoices: metadata?.randomChoices,
+    workflowSnapshot: metadata?.workflowSnapshot,
+    contentHash: await computeContentHash(data),
+    perceptualHash: await tryPerceptualHash(filename, data),
+    createdAt: fallback.createdAt,
+  });
+
+  return {
+    image: {
+      id: imageRecord.id,
+      filename: imageRecord.filename,
+      createdAt: imageRecord.created_at,
+      prompt: imageRecord.prompt,
+      deleted: !!imageRecord.deleted_at,
+      favorite: imageRecord.favorite === 1,
+    },
+    source: metadata?.source ?? null,
+    templateCreated,
+    templateError,
+  };
+}
+
+// 外部の画像ファイルを取り込む（埋め込みメタデータがあればレコードに反映）
+async function tauriImport(sourcePath: string): Promise<ImportImageResult> {
+  const { readFile, writeFile, mkdir, exists } = await import('@tauri-apps/plugin-fs');
+
+  const extMatch = sourcePath.toLowerCase().match(/\.(png|jpe?g|webp)$/);
+  if (!extMatch) {
+    throw new Error(`Unsupported image file: ${sourcePath}`);
+  }
+  const ext = extMatch[1] === 'jpeg' ? 'jpg' : extMatch[1];
+
+  const data = await readFile(sourcePath);
+
+  const imagesDir = await getImagesPath();
+  if (!(await exists(imagesDir))) {
+    await mkdir(imagesDir, { recursive: true });
+  }
+
+  const timestamp = Date.now();
+  const randomSuffix = Math.random().toString(36).substring(2, 6);
+  const filename = `${timestamp}-${randomSuffix}.${ext}`;
+  await writeFile(await joinPath(imagesDir, filename), data);
+  await writeThumbnail(filename, data);
+
+  return createRecordForFile(filename, data);
+}
+
+// 画像フォルダにあるがレコードのないファイルをギャラリーに登録する
+async function tauriAdopt(
+  filename: string,
+  fallback?: { prompt?: string; createdAt?: string }
+): Promise<ImportImageResult> {
+  const { readFile } = await import('@tauri-apps/plugin-fs');
+  const data = await readFile(await tauriGetImagePath(filename));
+  return createRecordForFile(filename, data, fallback);
+}
+
+// 画像ファイル・サムネイル・旧形式のメタデータ(.json)を削除し、解放したバイト数を返す
+async function removeImageFiles(filename: string): Promise<number> {
+  const { remove, exists, stat } = await import('@tauri-apps/plugin-fs');
+  const { removeThumbnail } = await import('./thumbnail');
+  const imagesDir = await getImagesPath();
+  const filePath = await joinPath(imagesDir, filename);
+  const metaPath = filePath.replace(/\.(png|jpg|jpeg|webp)$/, '.json');
 
-    const metaPath = filePath.replace(/\.(png|jpg|jpeg|webp)$/, '.json');
-    if (await exists(metaPath)) {
-      await remove(metaPath);
+  let freedBytes = 0;
+  for (const path of [filePath, metaPath]) {
+    if (await exists(path)) {
+      freedBytes += (await stat(path)).size;
+      await remove(path);
     }
+  }
+  freedBytes += await removeThumbnail(filename);
+  return freedBytes;
+}
 
+async function tauriDelete(filename: string, hard = false): Promise<void> {
+  const dbImages = await import('./db/tauri-images');
+  const id = filename.replace(/\.(png|jpg|jpeg|webp)$/, '');
+
+  if (hard) {
+    await removeImageFiles(filename);
     await dbImages.hardDeleteImage(id);
   } else {
     await dbImages.deleteImage(id);
   }
 }
 
+// ゴミ箱からの完全削除の結果
+export interface TrashPurgeResult {
+  deleted: number;
+  freedBytes: number;
+}
+
+async function tauriPurge(ids: string[]): Promise<TrashPurgeResult> {
+  const dbImages = await import('./db/tauri-images');
+
+  let deleted = 0;
+  let freedBytes = 0;
+  for (const id of ids) {
+    const record = await dbImages.getImage(id);
+    if (!record) continue;
+    try {
+      freedBytes += await removeImageFiles(record.filename);
+    } catch (error) {
+      // ファイルを消せなくてもレコードは削除する（次回の整合性チェックで孤立ファイルとして検出される）
+      console.error(`Failed to remove files of ${record.filename}:`, error);
+    }
+    if (await dbImages.hardDeleteImage(id)) {
+      deleted++;
+    }
+  }
+
+  return { deleted, freedBytes };
+}
+
 async function tauriGetImagePath(filename: string): Promise<string> {
   const imagesDir = await getImagesPath();
   return joinPath(imagesDir, filename);
@@ -186,9 +477,10 @@ async function tauriGetImagePath(filename: string): Promise<string> {
 export const imageAPI = {
   async list(
     includeDeleted = false,
-    pagination?: PaginationParams
+    pagination?: PaginationParams,
+    filter?: ImageFilter
   ): Promise<PaginatedResult<ImageInfo>> {
-    return tauriList(includeDeleted, pagination);
+    return tauriList(includeDeleted, pagination, filter);
   },
 
   async getDetail(id: string): Promise<ImageDetail | null> {
@@ -199,6 +491,14 @@ export const imageAPI = {
     return tauriSave(options);
   },
 
+  async import(sourcePath: string): Promise<ImportImageResult> {
+    return tauriImport(sourcePath);
+  },
+
+  async adopt(filename: string, fallback?: { prompt?: string; createdAt?: string }): Promise<ImportImageResult> {
+    return tauriAdopt(filename, fallback);
+  },
+
   async delete(filename: string, hard = false): Promise<void> {
     return tauriDelete(filename, hard);
   },
@@ -206,15 +506,75 @@ export const imageAPI = {
   async bulkDelete(ids: string[]): Promise<number> {
     return tauriBulkDelete(ids);
   },
+
+  // ゴミ箱から戻す
+  async restore(ids: string[]): Promise<number> {
+    const dbImages = await import('./db/tauri-images');
+    return dbImages.bulkRestoreImages(ids);
+  },
+
+  // ファイルごと完全に削除
+  async purge(ids: string[]): Promise<TrashPurgeResult> {
+    return tauriPurge(ids);
+  },
+
+  async emptyTrash(): Promise<TrashPurgeResult> {
+    const dbImages = await import('./db/tauri-images');
+    return tauriPurge(await dbImages.getTrashedImageIds());
+  },
+
+  // ゴミ箱に入れてから retentionDays 日以上たった画像を完全に削除
+  async purgeExpiredTrash(retentionDays: number): Promise<TrashPurgeResult> {
+    if (retentionDays <= 0) return { deleted: 0, freedBytes: 0 };
+    const dbImages = await import('./db/tauri-images');
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000).toISOString();
+    return tauriPurge(await dbImages.getTrashedImageIds(cutoff));
+  },
+
+  async toggleFavorite(id: string): Promise<void> {
+    const dbImages = await import('./db/tauri-images');
+    await dbImages.toggleFavorite(id);
+  },
+
+  async setRating(id: string, rating: number | null): Promise<void> {
+    const dbImages = await import('./db/tauri-images');
+    await dbImages.setRating(id, rating);
+  },
+
+  async setNotes(id: string, notes: string): Promise<void> {
+    const dbImages = await import('./db/tauri-images');
+    await dbImages.setNotes(id, notes);
+  },
+
+  async getFacets(query?: string, filter?: ImageFilter): Promise<FacetKey[]> {
+    const dbImages = await import('./db/tauri-images');
+    return dbImages.getAttributeFacets(query, filter);
+  },
+
+  async listTags(): Promise<TagInfo[]> {
+    const dbImages = await import('./db/tauri-images');
+    return dbImages.listTags();
+  },
+
+  async addTags(ids: string[], tags: string[]): Promise<number> {
+    const dbImages = await import('./db/tauri-images');
+    return dbImages.addTagsToImages(ids, tags);
+  },
+
+  async removeTags(ids: string[], tags: string[]): Promise<number> {
+    const dbImages = await import('./db/tauri-images');
+    return dbImages.removeTagsFromImages(ids, tags);
+  },
 };
 
 // Helper to search images with pagination
 export async function searchImagesByQuery(
   query: string,
   includeDeleted = false,
-  pagination?: PaginationParams
+  pagination?: PaginationParams,
+  filter?: ImageFilter
 ): Promise<PaginatedResult<ImageInfo>> {
-  return tauriSearch(query, includeDeleted, pagination);
+  return tauriSearch(query, includeDeleted, pagination, filter);
 }
 
 // Helper to get image URL
@@ -223,3 +583,21 @@ export async function getImageDisplayUrl(filename: string): Promise<string> {
   const imagePath = await tauriGetImagePath(filename);
   return convertFileSrc(imagePath);
 }
+
+// Helper to get thumbnail URL (created on first use for images saved before thumbnails existed)
+export async function getThumbnailDisplayUrl(filename: string): Promise<string> {
+  const { getThumbnailUrl } = await import('./thumbnail');
+  return getThumbnailUrl(filename);
+}
+
+// バイト数を読みやすい単位に変換（例: 12.3 MB）
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
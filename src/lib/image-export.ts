@@ -0,0 +1,376 @@
+// Export of selected gallery images
+// Copies images to a folder or a zip with names built from a template ({template}_{seed}_{date}),
+// optionally converted to another format and/or downscaled, with sidecar metadata:
+// - json: <name>.json per image with the full generation metadata
+// - txt:  <name>.txt per image with the prompt (caption for training datasets)
+// - csv:  one manifest.csv for all images
+// Converted PNG/WebP files get the Imaginr metadata embedded again; JPEG files carry none.
+
+import { getImagesPath, joinPath } from './tauri-utils';
+import { getImageMimeType } from './thumbnail';
+import { imageAPI, type ImageDetail } from './image-api';
+
+export type ImageExportDestination = 'folder' | 'zip';
+export type ImageExportFormat = 'original' | 'png' | 'jpeg' | 'webp';
+export type ImageExportSidecar = 'none' | 'json' | 'txt' | 'csv';
+
+export interface ImageExportOptions {
+  destination: ImageExportDestination;
+  filenameTemplate: string;
+  format: ImageExportFormat;
+  maxSize: number; // 長辺の最大ピクセル数（0: 元のサイズ。拡大はしない）
+  sidecar: ImageExportSidecar;
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  destination: 'folder',
+  filenameTemplate: '{template}_{seed}_{date}',
+  format: 'original',
+  maxSize: 0,
+  sidecar: 'none',
+};
+
+// ファイル名テンプレートで使えるトークン
+export const FILENAME_TEMPLATE_TOKENS = [
+  'index', 'id', 'template', 'seed', 'date', 'time', 'workflow', 'rating', 'prompt',
+] as const;
+
+export interface ImageExportResult {
+  path: string;     // 書き出したフォルダまたはzipファイル
+  exported: number;
+  missing: number;  // ファイルが見つからず書き出せなかった画像
+}
+
+// done / total の進捗通知
+export type ImageExportProgressCallback = (done: number, total: number) => void;
+
+export const CSV_MANIFEST_FILENAME = 'manifest.csv';
+const CONVERSION_QUALITY = 0.92;
+// {prompt} トークンに使う先頭の文字数
+const PROMPT_TOKEN_LENGTH = 40;
+
+const FORMAT_MIME_TYPES: Record<Exclude<ImageExportFormat, 'original'>, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+};
+
+const FORMAT_EXTENSIONS: Record<Exclude<ImageExportFormat, 'original'>, string> = {
+  png: 'png',
+  jpeg: 'jpg',
+  webp: 'webp',
+};
+
+/**
+ * Whether the webview can encode the format (WebKit cannot encode WebP)
+ */
+export function canEncodeImageFormat(format: ImageExportFormat): boolean {
+  if (format === 'original') return true;
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+  return canvas.toDataURL(FORMAT_MIME_TYPES[format]).startsWith(`data:${FORMAT_MIME_TYPES[format]}`);
+}
+
+// ファイル名に使えない文字を置き換える
+function toSafeFileName(name: string): string {
+  return name.replace(/[<>:"/\\|?*\x00-\x1f]/g, '_').replace(/\s+/g, ' ').replace(/[. ]+$/, '').trim();
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// ファイル名テンプレートの {token} を画像の情報で置き換える（拡張子は含まない）
+export function renderExportFileName(
+  template: string,
+  detail: ImageDetail,
+  index: number,
+  total: number
+): string {
+  const created = new Date(detail.createdAt);
+  const validDate = !Number.isNaN(created.getTime());
+  const templateName = detail.templatePath
+    ?.split(/[\\/]/).pop()
+    ?.replace(/\.ya?ml$/i, '');
+
+  const values: Record<string, string> = {
+    index: String(index + 1).padStart(Math.max(3, String(total).length), '0'),
+    id: detail.id,
+    template: templateName ?? '',
+    seed: detail.seed !== undefined ? String(detail.seed) : '',
+    date: validDate ? `${created.getFullYear()}-${pad2(created.getMonth() + 1)}-${pad2(created.getDate())}` : '',
+    time: validDate ? `${pad2(created.getHours())}${pad2(created.getMinutes())}${pad2(created.getSeconds())}` : '',
+    workflow: detail.workflowId ?? '',
+    rating: detail.rating ? String(detail.rating) : '',
+    prompt: (detail.prompt ?? '').replace(/\s+/g, ' ').trim().slice(0, PROMPT_TOKEN_LENGTH),
+  };
+
+  const rendered = template.replace(/\{(\w+)\}/g, (match, token: string) => values[token] ?? match);
+  // 空のトークンで残った区切り文字をまとめる
+  const name = toSafeFileName(rendered)
+    .replace(/([_\- ])[_\- ]+/g, '$1')
+    .replace(/^[_\- ]+|[_\- ]+$/g, '');
+  return name || detail.id;
+}
+
+function getExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot >= 0 ? filename.substring(dot + 1).toLowerCase() : 'png';
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, CONVERSION_QUALITY));
+}
+
+// 形式の変換・縮小（必要なときだけ再エンコードする）
+async function convertImage(
+  data: Uint8Array,
+  filename: string,
+  options: ImageExportOptions
+): Promise<{ data: Uint8Array; ext: string; reencoded: boolean; width: number; height: number }> {
+  const sourceExt = getExtension(filename);
+  const targetExt = options.format === 'original' ? sourceExt : FORMAT_EXTENSIONS[options.format];
+  const sameFormat = targetExt === sourceExt || (targetExt === 'jpg' && sourceExt === 'jpeg');
+
+  const bitmap = await createImageBitmap(new Blob([data as BlobPart], { type: getImageMimeType(filename) }));
+  try {
+    const scale = options.maxSize > 0 ? Math.min(1, options.maxSize / Math.max(bitmap.width, bitmap.height)) : 1;
+    if (scale === 1 && sameFormat) {
+      return { data, ext: sourceExt, reencoded: false, width: bitmap.width, height: bitmap.height };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    const mimeType = options.format === 'original' ? getImageMimeType(filename) : FORMAT_MIME_TYPES[options.format];
+    // JPEGは透過できないので白で埋める
+    if (mimeType === 'image/jpeg') {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // 未対応の形式では toBlob がPNGを返す
+    const blob = await canvasToBlob(canvas, mimeType);
+    if (!blob || blob.type !== mimeType) {
+      throw new Error(`Encoding ${mimeType} is not supported`);
+    }
+    return {
+      data: new Uint8Array(await blob.arrayBuffer()),
+      ext: targetExt,
+      reencoded: true,
+      width: canvas.width,
+      height: canvas.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// 再エンコードで失われたメタデータを埋め直す（JPEGは未対応なのでそのまま）
+async function reembedMetadata(data: Uint8Array, detail: ImageDetail): Promise<Uint8Array> {
+  try {
+    const { embedImageMetadata } = await import('./image-metadata');
+    return embedImageMetadata(data, {
+      version: 1,
+      prompt: detail.prompt || '',
+      negativePrompt: detail.negativePrompt,
+      seed: detail.seed,
+      workflowId: detail.workflowId,
+      variables: detail.variables,
+      parameters: detail.parameters,
+      templatePath: detail.templatePath,
+      rawYaml: detail.rawYaml,
+      mergedYaml: detail.mergedYaml,
+      enhancerPresetId: detail.enhancerPresetId,
+      enhancerModel: detail.enhancerModel,
+      randomChoices: detail.randomChoices,
+    });
+  } catch (error) {
+    console.warn('Failed to embed image metadata:', error);
+    return data;
+  }
+}
+
+// JSONサイドカーの内容
+function toSidecarJson(file: string, detail: ImageDetail): string {
+  return JSON.stringify({
+    format: 'imaginr-image',
+    version: 1,
+    file,
+    id: detail.id,
+    createdAt: detail.createdAt,
+    prompt: detail.prompt,
+    negativePrompt: detail.negativePrompt,
+    seed: detail.seed,
+    workflowId: detail.workflowId,
+    width: detail.width,
+    height: detail.height,
+    parameters: detail.parameters,
+    variables: detail.variables,
+    templatePath: detail.templatePath,
+    rawYaml: detail.rawYaml,
+    mergedYaml: detail.mergedYaml,
+    enhancerPresetId: detail.enhancerPresetId,
+    enhancerModel: detail.enhancerModel,
+    overrideValues: detail.overrideValues,
+    randomChoices: detail.randomChoices,
+    favorite: detail.favorite,
+    rating: detail.rating,
+    notes: detail.notes,
+    tags: detail.tags,
+  }, null, 2);
+}
+
+const CSV_COLUMNS = [
+  'file', 'id', 'created_at', 'prompt', 'negative_prompt', 'seed', 'workflow', 'template',
+  'width', 'height', 'favorite', 'rating', 'tags', 'notes',
+];
+
+function escapeCsv(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsvRow(file: string, detail: ImageDetail): string {
+  return [
+    file,
+    detail.id,
+    detail.createdAt,
+    detail.prompt,
+    detail.negativePrompt,
+    detail.seed,
+    detail.workflowId,
+    detail.templatePath,
+    detail.width,
+    detail.height,
+    detail.favorite ? 1 : 0,
+    detail.rating,
+    detail.tags.join(';'),
+    detail.notes,
+  ].map(escapeCsv).join(',');
+}
+
+// 既存のファイルと重ならない名前（name, name_2, name_3, ...）
+// extensions は画像とサイドカーの拡張子（どれか1つでもあれば使わない）
+async function reserveFileName(
+  baseName: string,
+  extensions: string[],
+  used: Set<string>,
+  folder: string | null
+): Promise<string> {
+  const { exists } = await import('@tauri-apps/plugin-fs');
+  for (let n = 1; ; n++) {
+    const name = n === 1 ? baseName : `${baseName}_${n}`;
+    if (used.has(name.toLowerCase())) continue;
+    if (folder) {
+      let taken = false;
+      for (const ext of extensions) {
+        if (await exists(await joinPath(folder, `${name}.${ext}`))) {
+          taken = true;
+          break;
+        }
+      }
+      if (taken) continue;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  }
+}
+
+/**
+ * Export images in the given order
+ * - folder: writes into the destination folder; existing files are never overwritten (names are numbered)
+ * - zip: writes the zip file at destination
+ */
+export async function exportImages(
+  ids: string[],
+  options: ImageExportOptions,
+  destination: string,
+  onProgress?: ImageExportProgressCallback
+): Promise<ImageExportResult> {
+  const { readFile, writeFile, writeTextFile, exists } = await import('@tauri-apps/plugin-fs');
+
+  const imagesDir = await getImagesPath();
+  const folder = options.destination === 'folder' ? destination : null;
+  const usedNames = new Set<string>();
+  const entries: { name: string; data: Uint8Array }[] = [];
+  const csvRows = [CSV_COLUMNS.join(',')];
+  const encoder = new TextEncoder();
+  let exported = 0;
+  let missing = 0;
+
+  // フォルダはその場で書き込み、zipはまとめて最後に書く
+  const output = async (name: string, data: Uint8Array | string) => {
+    if (folder) {
+      const path = await joinPath(folder, name);
+      await (typeof data === 'string' ? writeTextFile(path, data) : writeFile(path, data));
+    } else {
+      entries.push({ name, data: typeof data === 'string' ? encoder.encode(data) : data });
+    }
+  };
+
+  onProgress?.(0, ids.length);
+  for (const [i, id] of ids.entries()) {
+    const detail = await imageAPI.getDetail(id);
+    const sourcePath = detail ? await joinPath(imagesDir, detail.filename) : null;
+    if (!detail || !sourcePath || !await exists(sourcePath)) {
+      missing++;
+      onProgress?.(i + 1, ids.length);
+      continue;
+    }
+
+    const converted = await convertImage(await readFile(sourcePath), detail.filename, options);
+    const data = converted.reencoded ? await reembedMetadata(converted.data, detail) : converted.data;
+    const baseName = await reserveFileName(
+      renderExportFileName(options.filenameTemplate, detail, i, ids.length),
+      options.sidecar === 'json' || options.sidecar === 'txt' ? [converted.ext, options.sidecar] : [converted.ext],
+      usedNames,
+      folder
+    );
+    const file = `${baseName}.${converted.ext}`;
+    await output(file, data);
+
+    // 幅・高さは書き出したサイズ（縮小した場合は元の画像と異なる）
+    const exportedDetail = { ...detail, width: converted.width, height: converted.height };
+    switch (options.sidecar) {
+      case 'json':
+        await output(`${baseName}.json`, toSidecarJson(file, exportedDetail));
+        break;
+      case 'txt':
+        await output(`${baseName}.txt`, detail.prompt ?? '');
+        break;
+      case 'csv':
+        csvRows.push(toCsvRow(file, exportedDetail));
+        break;
+    }
+
+    exported++;
+    onProgress?.(i + 1, ids.length);
+  }
+
+  if (options.sidecar === 'csv') {
+    let manifestName = CSV_MANIFEST_FILENAME;
+    if (folder) {
+      const base = CSV_MANIFEST_FILENAME.replace(/\.csv$/, '');
+      for (let n = 2; await exists(await joinPath(folder, manifestName)); n++) {
+        manifestName = `${base}_${n}.csv`;
+      }
+    }
+    // Excelで文字化けしないようにBOMを付ける
+    await output(manifestName, `\uFEFF${csvRows.join('\r\n')}\r\n`);
+  }
+
+  if (!folder) {
+    const { createZip } = await import('./zip');
+    await writeFile(destination, createZip(entries));
+  }
+
+  return { path: destination, exported, missing };
+}
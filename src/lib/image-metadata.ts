@@ -0,0 +1,455 @@
+// Image metadata - read/write prompt metadata embedded in image files
+// Writes Imaginr's own chunk (PNG iTXt / WebP XMP) and reads it back,
+// together with ComfyUI's `prompt` / `workflow` chunks and A1111 `parameters`
+
+import type { VariableValues } from './variable-utils';
+import type { RandomChoices } from './random-choices';
+import { crc32 } from './crc32';
+
+// PNGのテキストチャンクのキーワード / XMPの名前空間
+export const IMAGINR_METADATA_KEY = 'imaginr';
+const XMP_NAMESPACE = 'https://imaginr.studio/ns/1.0/';
+
+// ファイルに埋め込む情報
+export interface ImaginrMetadata {
+  version: 1;
+  prompt: string;
+  negativePrompt?: string;
+  seed?: number;
+  workflowId?: string;
+  variables?: VariableValues;
+  parameters?: Record<string, unknown>;
+  templatePath?: string;
+  rawYaml?: string;
+  mergedYaml?: string;
+  enhancerPresetId?: string;
+  enhancerModel?: string;
+  randomChoices?: RandomChoices;
+}
+
+// 読み取った情報（どの形式から読んだかによって埋まる項目が異なる）
+export interface ExtractedImageMetadata {
+  source: 'imaginr' | 'comfyui' | 'a1111';
+  prompt: string;
+  negativePrompt?: string;
+  seed?: number;
+  workflowId?: string;
+  variables?: VariableValues;
+  parameters?: Record<string, unknown>;
+  templatePath?: string;
+  rawYaml?: string;
+  mergedYaml?: string;
+  enhancerPresetId?: string;
+  enhancerModel?: string;
+  randomChoices?: RandomChoices;
+  workflowSnapshot?: Record<string, unknown>; // ComfyUIのAPI形式ワークフロー
+}
+
+export type ImageFormat = 'png' | 'webp';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export function detectImageFormat(data: Uint8Array): ImageFormat | null {
+  if (PNG_SIGNATURE.every((byte, i) => data[i] === byte)) return 'png';
+  if (readAscii(data, 0, 4) === 'RIFF' && readAscii(data, 8, 4) === 'WEBP') return 'webp';
+  return null;
+}
+
+// メタデータを埋め込んだ新しいバイト列を返す（未対応の形式はそのまま返す）
+export function embedImageMetadata(data: Uint8Array, metadata: ImaginrMetadata): Uint8Array {
+  const json = JSON.stringify(metadata);
+  switch (detectImageFormat(data)) {
+    case 'png':
+      return writePngText(data, IMAGINR_METADATA_KEY, json);
+    case 'webp':
+      return writeWebpXmp(data, buildXmp(json));
+    default:
+      return data;
+  }
+}
+
+// 埋め込まれたメタデータを読む（Imaginr > ComfyUI > A1111 の順に優先）
+export async function extractImageMetadata(data: Uint8Array): Promise<ExtractedImageMetadata | null> {
+  const format = detectImageFormat(data);
+  if (!format) return null;
+
+  let imaginrJson: string | undefined;
+  let comfyPrompt: string | undefined;
+  let a1111Parameters: string | undefined;
+
+  if (format === 'png') {
+    const texts = await readPngTexts(data);
+    imaginrJson = texts[IMAGINR_METADATA_KEY];
+    comfyPrompt = texts.prompt;
+    a1111Parameters = texts.parameters;
+  } else {
+    const { xmp, exifStrings } = readWebpMetadata(data);
+    imaginrJson = xmp ? parseXmp(xmp) : undefined;
+    // ComfyUIのWebP保存ノードはEXIFに "Prompt:{...}" / "Workflow:{...}" を書く
+    comfyPrompt = exifStrings.find((s) => s.startsWith('Prompt:'))?.slice('Prompt:'.length);
+  }
+
+  const workflowSnapshot = comfyPrompt ? parseJsonObject(comfyPrompt) : undefined;
+
+  if (imaginrJson) {
+    const parsed = parseJsonObject(imaginrJson) as Partial<ImaginrMetadata> | undefined;
+    if (parsed && typeof parsed.prompt === 'string') {
+      const rest = { ...parsed };
+      delete rest.version;
+      return { ...rest, prompt: parsed.prompt, source: 'imaginr', workflowSnapshot };
+    }
+  }
+  if (workflowSnapshot) {
+    return { ...parseComfyPrompt(workflowSnapshot), source: 'comfyui', workflowSnapshot };
+  }
+  if (a1111Parameters) {
+    return { ...parseA1111Parameters(a1111Parameters), source: 'a1111' };
+  }
+  return null;
+}
+
+// ComfyUIのAPI形式ワークフローからプロンプトとシードを取り出す
+// サンプラーの positive / negative 入力をたどる（見つからなければ最初のテキストノード）
+export function parseComfyPrompt(
+  workflow: Record<string, unknown>
+): Pick<ExtractedImageMetadata, 'prompt' | 'negativePrompt' | 'seed'> {
+  type Node = { class_type?: string; inputs?: Record<string, unknown> };
+  const nodes = workflow as Record<string, Node>;
+
+  const resolveText = (ref: unknown, depth = 0): string | undefined => {
+    if (depth > 5 || !Array.isArray(ref)) return undefined;
+    const inputs = nodes[String(ref[0])]?.inputs;
+    if (!inputs) return undefined;
+    for (const key of ['text', 'text_g', 'string', 'value', 'conditioning']) {
+      const value = inputs[key];
+      if (typeof value === 'string') return value;
+      if (Array.isArray(value)) {
+        const resolved = resolveText(value, depth + 1);
+        if (resolved !== undefined) return resolved;
+      }
+    }
+    return undefined;
+  };
+
+  for (const node of Object.values(nodes)) {
+    const inputs = node?.inputs;
+    if (!inputs || !('positive' in inputs)) continue;
+    const seed = Number(inputs.seed ?? inputs.noise_seed);
+    return {
+      prompt: resolveText(inputs.positive) ?? '',
+      negativePrompt: resolveText(inputs.negative),
+      seed: Number.isFinite(seed) ? seed : undefined,
+    };
+  }
+
+  const textNode = Object.values(nodes).find((node) => typeof node?.inputs?.text === 'string');
+  return { prompt: (textNode?.inputs?.text as string | undefined) ?? '' };
+}
+
+// A1111形式の parameters を解析
+// prompt\nNegative prompt: ...\nSteps: 20, Sampler: Euler a, Seed: 123, ...
+export function parseA1111Parameters(
+  text: string
+): Pick<ExtractedImageMetadata, 'prompt' | 'negativePrompt' | 'seed' | 'parameters'> {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+
+  let paramsLine = '';
+  const last = lines[lines.length - 1] ?? '';
+  if (/^Steps: /.test(last)) {
+    paramsLine = last;
+    lines.pop();
+  }
+
+  const negativeIndex = lines.findIndex((line) => line.startsWith('Negative prompt:'));
+  const promptLines = negativeIndex === -1 ? lines : lines.slice(0, negativeIndex);
+  const negativeLines = negativeIndex === -1 ? [] : lines.slice(negativeIndex);
+  const negativePrompt = negativeLines.join('\n').replace(/^Negative prompt:\s*/, '').trim();
+
+  const parameters: Record<string, unknown> = {};
+  const pattern = /\s*([A-Za-z][\w \-/]*?): ("(?:\\.|[^"])*"|[^,]*)(?:,|$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(paramsLine)) !== null) {
+    if (match[0] === '') break;
+    const raw = match[2].trim();
+    const value = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\"/g, '"') : raw;
+    const numeric = Number(value);
+    parameters[match[1].trim()] = value !== '' && Number.isFinite(numeric) ? numeric : value;
+  }
+
+  const seed = typeof parameters.Seed === 'number' ? parameters.Seed : undefined;
+  delete parameters.Seed;
+
+  return {
+    prompt: promptLines.join('\n').trim(),
+    negativePrompt: negativePrompt || undefined,
+    seed,
+    parameters: Object.keys(parameters).length > 0 ? parameters : undefined,
+  };
+}
+
+// --- PNG ---
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readPngChunks(data: Uint8Array): PngChunk[] {
+  const chunks: PngChunk[] = [];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= data.length) {
+    const length = view.getUint32(offset);
+    const type = readAscii(data, offset + 4, 4);
+    chunks.push({ type, data: data.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+function writePngChunks(chunks: PngChunk[]): Uint8Array {
+  const total = PNG_SIGNATURE.length + chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  out.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    const typeBytes = asciiBytes(chunk.type);
+    view.setUint32(offset, chunk.data.length);
+    out.set(typeBytes, offset + 4);
+    out.set(chunk.data, offset + 8);
+    view.setUint32(offset + 8 + chunk.data.length, crc32(concatBytes(typeBytes, chunk.data)));
+    offset += 12 + chunk.data.length;
+  }
+  return out;
+}
+
+// 同じキーワードの既存チャンクを置き換え、IEND の直前に iTXt（非圧縮UTF-8）を追加
+function writePngText(data: Uint8Array, keyword: string, text: string): Uint8Array {
+  const chunks = readPngChunks(data).filter((chunk) =>
+    !((chunk.type === 'tEXt' || chunk.type === 'iTXt' || chunk.type === 'zTXt') &&
+      readKeyword(chunk.data) === keyword)
+  );
+  // keyword\0 compressionFlag compressionMethod languageTag\0 translatedKeyword\0 text
+  const itxt = concatBytes(
+    asciiBytes(keyword),
+    new Uint8Array([0, 0, 0, 0, 0]),
+    new TextEncoder().encode(text)
+  );
+  const endIndex = chunks.findIndex((chunk) => chunk.type === 'IEND');
+  chunks.splice(endIndex === -1 ? chunks.length : endIndex, 0, { type: 'iTXt', data: itxt });
+  return writePngChunks(chunks);
+}
+
+// tEXt / zTXt / iTXt をすべて読む（キーワード → テキスト）
+async function readPngTexts(data: Uint8Array): Promise<Record<string, string>> {
+  const texts: Record<string, string> = {};
+  for (const chunk of readPngChunks(data)) {
+    try {
+      const keyword = readKeyword(chunk.data);
+      const rest = chunk.data.subarray(keyword.length + 1);
+      if (chunk.type === 'tEXt') {
+        texts[keyword] = new TextDecoder('latin1').decode(rest);
+      } else if (chunk.type === 'zTXt') {
+        texts[keyword] = new TextDecoder('latin1').decode(await inflate(rest.subarray(1)));
+      } else if (chunk.type === 'iTXt') {
+        const compressed = rest[0] === 1;
+        let offset = 2;
+        offset = rest.indexOf(0, offset) + 1; // language tag
+        offset = rest.indexOf(0, offset) + 1; // translated keyword
+        const body = rest.subarray(offset);
+        texts[keyword] = new TextDecoder().decode(compressed ? await inflate(body) : body);
+      }
+    } catch (error) {
+      console.warn(`Failed to read PNG ${chunk.type} chunk:`, error);
+    }
+  }
+  return texts;
+}
+
+function readKeyword(data: Uint8Array): string {
+  const end = data.indexOf(0);
+  return new TextDecoder('latin1').decode(data.subarray(0, end === -1 ? data.length : end));
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// --- WebP ---
+
+interface RiffChunk {
+  fourcc: string;
+  data: Uint8Array;
+}
+
+function readRiffChunks(data: Uint8Array): RiffChunk[] {
+  const chunks: RiffChunk[] = [];
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 12;
+  while (offset + 8 <= data.length) {
+    const fourcc = readAscii(data, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    chunks.push({ fourcc, data: data.subarray(offset + 8, offset + 8 + size) });
+    offset += 8 + size + (size % 2);
+  }
+  return chunks;
+}
+
+function writeRiffChunks(chunks: RiffChunk[]): Uint8Array {
+  const total = 12 + chunks.reduce((sum, chunk) => sum + 8 + chunk.data.length + (chunk.data.length % 2), 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  out.set(asciiBytes('RIFF'), 0);
+  view.setUint32(4, total - 8, true);
+  out.set(asciiBytes('WEBP'), 8);
+  let offset = 12;
+  for (const chunk of chunks) {
+    out.set(asciiBytes(chunk.fourcc), offset);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    out.set(chunk.data, offset + 8);
+    offset += 8 + chunk.data.length + (chunk.data.length % 2);
+  }
+  return out;
+}
+
+// XMPチャンクを追加（シンプル形式の場合は VP8X 拡張形式に変換）
+function writeWebpXmp(data: Uint8Array, xmp: string): Uint8Array {
+  const XMP_FLAG = 0x04;
+  const ALPHA_FLAG = 0x10;
+  const chunks = readRiffChunks(data).filter((chunk) => chunk.fourcc !== 'XMP ');
+
+  const vp8x = chunks.find((chunk) => chunk.fourcc === 'VP8X');
+  if (vp8x) {
+    const header = new Uint8Array(vp8x.data);
+    header[0] |= XMP_FLAG;
+    vp8x.data = header;
+  } else {
+    const size = getWebpSize(chunks);
+    if (!size) return data;
+    const header = new Uint8Array(10);
+    header[0] = XMP_FLAG | (size.alpha ? ALPHA_FLAG : 0);
+    writeUint24(header, 4, size.width - 1);
+    writeUint24(header, 7, size.height - 1);
+    chunks.unshift({ fourcc: 'VP8X', data: header });
+  }
+
+  chunks.push({ fourcc: 'XMP ', data: new TextEncoder().encode(xmp) });
+  return writeRiffChunks(chunks);
+}
+
+// シンプル形式（VP8 / VP8L）の画像サイズ
+function getWebpSize(chunks: RiffChunk[]): { width: number; height: number; alpha: boolean } | null {
+  const lossy = chunks.find((chunk) => chunk.fourcc === 'VP8 ');
+  if (lossy && lossy.data.length >= 10) {
+    const d = lossy.data;
+    return {
+      width: (d[6] | (d[7] << 8)) & 0x3fff,
+      height: (d[8] | (d[9] << 8)) & 0x3fff,
+      alpha: false,
+    };
+  }
+  const lossless = chunks.find((chunk) => chunk.fourcc === 'VP8L');
+  if (lossless && lossless.data.length >= 5 && lossless.data[0] === 0x2f) {
+    const d = lossless.data;
+    const bits = (d[1] | (d[2] << 8) | (d[3] << 16) | (d[4] << 24)) >>> 0;
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >>> 14) & 0x3fff) + 1,
+      alpha: ((bits >>> 28) & 1) === 1,
+    };
+  }
+  return null;
+}
+
+function readWebpMetadata(data: Uint8Array): { xmp?: string; exifStrings: string[] } {
+  let xmp: string | undefined;
+  const exifStrings: string[] = [];
+  for (const chunk of readRiffChunks(data)) {
+    if (chunk.fourcc === 'XMP ') {
+      xmp = new TextDecoder().decode(chunk.data);
+    } else if (chunk.fourcc === 'EXIF') {
+      // EXIFの文字列値をNUL区切りで取り出す（タグの構造までは解析しない）
+      const text = new TextDecoder('latin1').decode(chunk.data);
+      for (const part of text.split('\0')) {
+        const start = part.search(/(Prompt|Workflow):\{/);
+        if (start !== -1) exifStrings.push(decodeUtf8(part.slice(start)));
+      }
+    }
+  }
+  return { xmp, exifStrings };
+}
+
+function buildXmp(json: string): string {
+  return [
+    '<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    `<rdf:Description rdf:about="" xmlns:imaginr="${XMP_NAMESPACE}">`,
+    `<imaginr:metadata>${escapeXml(json)}</imaginr:metadata>`,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n');
+}
+
+function parseXmp(xmp: string): string | undefined {
+  const match = /<imaginr:metadata>([\s\S]*?)<\/imaginr:metadata>/.exec(xmp);
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+// --- helpers ---
+
+function readAscii(data: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...data.subarray(offset, offset + length));
+}
+
+function asciiBytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0));
+}
+
+// latin1 として読んだ文字列を UTF-8 として読み直す
+function decodeUtf8(latin1: string): string {
+  return new TextDecoder().decode(asciiBytes(latin1));
+}
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function writeUint24(out: Uint8Array, offset: number, value: number): void {
+  out[offset] = value & 0xff;
+  out[offset + 1] = (value >> 8) & 0xff;
+  out[offset + 2] = (value >> 16) & 0xff;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+function parseJsonObject(text: string): Record<string, unknown> | undefined {
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,78 @@
+// Perceptual hash for near-duplicate detection
+// dHash: the image is reduced to 9x8 grayscale cells and each bit records whether a cell is
+// brighter than its right neighbour. Visually identical images (re-encodes, tiny changes) end up
+// within a few bits of each other, so similarity is the Hamming distance between two hashes.
+// Hashes are 64 bits, stored as 16 hex digits.
+
+const HASH_COLUMNS = 9;
+const HASH_ROWS = 8;
+// 各セルを何ピクセル四方で平均するか（ブラウザの縮小だけに頼るとエイリアシングで不安定になる）
+const SAMPLES_PER_CELL = 8;
+
+export const PERCEPTUAL_HASH_BITS = 64;
+
+/**
+ * Compute the dHash of image data
+ */
+export async function computePerceptualHash(data: Uint8Array, mimeType: string): Promise<string> {
+  const bitmap = await createImageBitmap(new Blob([data as BlobPart], { type: mimeType }));
+  try {
+    const width = HASH_COLUMNS * SAMPLES_PER_CELL;
+    const height = HASH_ROWS * SAMPLES_PER_CELL;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    const pixels = context.getImageData(0, 0, width, height).data;
+
+    // セルごとの平均輝度
+    const cells = new Float64Array(HASH_COLUMNS * HASH_ROWS);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4;
+        const luma = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+        cells[Math.floor(y / SAMPLES_PER_CELL) * HASH_COLUMNS + Math.floor(x / SAMPLES_PER_CELL)] += luma;
+      }
+    }
+
+    let hash = '';
+    for (let row = 0; row < HASH_ROWS; row++) {
+      let byte = 0;
+      for (let column = 0; column < HASH_COLUMNS - 1; column++) {
+        const cell = row * HASH_COLUMNS + column;
+        byte = (byte << 1) | (cells[cell] > cells[cell + 1] ? 1 : 0);
+      }
+      hash += byte.toString(16).padStart(2, '0');
+    }
+    return hash;
+  } finally {
+    bitmap.close();
+  }
+}
+
+// 16桁の16進数を上位・下位32ビットに分ける（比較を速くするため）
+export function parsePerceptualHash(hash: string): [number, number] {
+  return [parseInt(hash.slice(0, 8), 16) >>> 0, parseInt(hash.slice(8, 16), 16) >>> 0];
+}
+
+function popCount(value: number): number {
+  let count = 0;
+  let x = value >>> 0;
+  while (x) {
+    x &= x - 1;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Number of differing bits between two parsed hashes
+ */
+export function hammingDistance(a: [number, number], b: [number, number]): number {
+  return popCount(a[0] ^ b[0]) + popCount(a[1] ^ b[1]);
+}
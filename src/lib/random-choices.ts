@@ -0,0 +1,221 @@
+// Random picks at generation time
+// Three kinds of random elements are resolved when an image is generated:
+// - random variables: ${name|?} / ${name:random} pick from enum options or the dictionary entries
+//   for the variable's YAML path (a value of "?" typed into the form does the same)
+// - inline choices: {red|blue|green} picks one option (choices may nest)
+// - wildcards: __name__ picks one line of wildcards/name.txt (__hair/colors__ → wildcards/hair/colors.txt)
+// Picks come from a seeded generator, so the same seed and template reproduce the same prompt.
+// Conditions (_if / _cases / when) see the picked values: the template is merged again after the picks.
+// Every pick is recorded (RandomChoices) and saved with the image.
+
+import yaml from 'js-yaml';
+import { getDictionaryEntries, type DictionaryEntry } from './dictionary-api';
+import {
+  extractVariablesWithPath,
+  needsRandomPick,
+  resolveVariables,
+  type VariableValues,
+} from './variable-utils';
+import { excludeNegative, extractNegativePrompt, objectToYaml } from './yaml-utils';
+import { getWildcardsPath, joinPath } from './tauri-utils';
+
+export interface RandomPick {
+  kind: 'variable' | 'choice' | 'wildcard';
+  key: string; // 変数名 / 選択肢の元の表記 / ワイルドカード名
+  value: string;
+}
+
+export interface RandomChoices {
+  seed: number;
+  picks: RandomPick[];
+}
+
+export interface RandomPromptOptions {
+  seed?: number; // 省略時は新しいシード
+  dictionaryCache: Map<string, DictionaryEntry[]>;
+  // 選んだ値でテンプレートをマージし直す（_if / _cases / when の条件を選んだ値で評価するため）
+  remerge?: (values: VariableValues) => Promise<Record<string, unknown>>;
+}
+
+export interface RandomPromptResult {
+  prompt: string; // negative を除外したYAML
+  negativePrompt: string;
+  values: VariableValues; // ランダムに選んだ値を含む変数の値
+  randomChoices: RandomChoices;
+}
+
+// {a|b|c}（${...} の変数は除く）。内側の選択肢から展開する
+const CHOICE_PATTERN = /(?<!\$)\{([^{}]*\|[^{}]*)\}/g;
+// __name__（サブフォルダは / 区切り）
+const WILDCARD_PATTERN = /__([\w\-/]+?)__/g;
+// ワイルドカードの中の選択肢・ワイルドカードを展開する深さ、ランダム変数を選んでマージし直す回数の上限（循環参照対策）
+const MAX_EXPANSION_DEPTH = 10;
+
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000);
+}
+
+// バッチのジョブごとのシード（同じシードでもジョブごとに違う値を選ぶ）
+export function deriveJobSeed(seed: number, index: number): number {
+  return (seed + Math.imul(index, 0x9e3779b9)) >>> 0;
+}
+
+// 32ビットのシード付き乱数（mulberry32）
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+function pickOne<T>(items: T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// ワイルドカードファイルの選択肢（空行と # のコメント行は除く）
+export function parseWildcardFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+async function loadWildcard(name: string): Promise<string[]> {
+  const segments = name.split('/').filter(Boolean);
+  if (segments.length === 0 || segments.some((segment) => segment === '..')) {
+    throw new Error(`Invalid wildcard name: __${name}__`);
+  }
+  const { exists, readTextFile } = await import('@tauri-apps/plugin-fs');
+  const path = await joinPath(await getWildcardsPath(), ...segments.slice(0, -1), `${segments[segments.length - 1]}.txt`);
+  if (!await exists(path)) {
+    throw new Error(`Wildcard file not found: __${name}__ (${path})`);
+  }
+  const options = parseWildcardFile(await readTextFile(path));
+  if (options.length === 0) {
+    throw new Error(`Wildcard file has no options: __${name}__ (${path})`);
+  }
+  return options;
+}
+
+// 文字列に選択肢・ワイルドカードが含まれるか
+function hasInlineRandom(text: string): boolean {
+  return new RegExp(CHOICE_PATTERN.source).test(text) || new RegExp(WILDCARD_PATTERN.source).test(text);
+}
+
+/**
+ * Whether the merged data has anything to pick at generation time
+ */
+export function hasRandomElements(data: Record<string, unknown>, values: VariableValues): boolean {
+  if (extractVariablesWithPath(data).some((variable) => needsRandomPick(variable, values[variable.name]))) {
+    return true;
+  }
+  const visit = (value: unknown): boolean => {
+    if (typeof value === 'string') return hasInlineRandom(value);
+    if (Array.isArray(value)) return value.some(visit);
+    if (value && typeof value === 'object') {
+      return Object.entries(value).some(([key, child]) => !key.startsWith('_') && visit(child));
+    }
+    return false;
+  };
+  return visit(data);
+}
+
+/**
+ * Pick values for random variables, inline choices and wildcards, and render the prompt.
+ * Throws when a random variable has no candidates or a wildcard file is missing.
+ */
+export async function renderRandomPrompt(
+  data: Record<string, unknown>,
+  values: VariableValues,
+  options: RandomPromptOptions
+): Promise<RandomPromptResult> {
+  const seed = options.seed ?? createRandomSeed();
+  const random = createRandom(seed);
+  const picks: RandomPick[] = [];
+
+  // ランダム変数（定義順に選ぶ）
+  // 選んだ値で条件の結果が変わるので、remerge があれば選んだ値でマージし直し、
+  // 新しく現れたランダム変数もあれば続けて選ぶ
+  let merged = data;
+  const pickedValues: VariableValues = { ...values };
+  const picked = new Set<string>();
+  for (let depth = 0; depth < MAX_EXPANSION_DEPTH; depth++) {
+    let pickedAny = false;
+    for (const variable of extractVariablesWithPath(merged)) {
+      if (picked.has(variable.name) || !needsRandomPick(variable, values[variable.name])) continue;
+      const candidates = variable.options?.length
+        ? variable.options
+        : getDictionaryEntries(variable.yamlPath, options.dictionaryCache).map((entry) => entry.value);
+      if (candidates.length === 0) {
+        throw new Error(`No dictionary entries to pick from for random variable "${variable.name}"`);
+      }
+      const value = pickOne(candidates, random);
+      pickedValues[variable.name] = variable.isMulti ? [value] : value;
+      picks.push({ kind: 'variable', key: variable.name, value });
+      picked.add(variable.name);
+      pickedAny = true;
+    }
+    if (!pickedAny || !options.remerge) break;
+    merged = await options.remerge(pickedValues);
+  }
+
+  const wildcards = new Map<string, string[]>();
+  const expandText = async (text: string): Promise<string> => {
+    let result = text;
+    for (let depth = 0; depth < MAX_EXPANSION_DEPTH && hasInlineRandom(result); depth++) {
+      // 選択肢は内側から1段ずつ
+      result = result.replace(CHOICE_PATTERN, (match, body: string) => {
+        const value = pickOne(body.split('|'), random).trim();
+        picks.push({ kind: 'choice', key: match, value });
+        return value;
+      });
+      // ワイルドカードは出現順に読み込んで選ぶ
+      const parts: string[] = [];
+      let lastIndex = 0;
+      for (const match of result.matchAll(WILDCARD_PATTERN)) {
+        const name = match[1];
+        if (!wildcards.has(name)) wildcards.set(name, await loadWildcard(name));
+        const value = pickOne(wildcards.get(name)!, random);
+        picks.push({ kind: 'wildcard', key: name, value });
+        parts.push(result.slice(lastIndex, match.index), value);
+        lastIndex = match.index + match[0].length;
+      }
+      parts.push(result.slice(lastIndex));
+      result = parts.join('');
+    }
+    return result;
+  };
+
+  const expand = async (value: unknown): Promise<unknown> => {
+    if (typeof value === 'string') return expandText(value);
+    if (Array.isArray(value)) {
+      const items: unknown[] = [];
+      for (const item of value) items.push(await expand(item));
+      return items;
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(value)) {
+        result[key] = await expand(child);
+      }
+      return result;
+    }
+    return value;
+  };
+
+  // 変数を展開したYAMLをパースし直し、文字列の値ごとに選択肢・ワイルドカードを展開
+  const resolved = yaml.load(resolveVariables(objectToYaml(merged), pickedValues)) as Record<string, unknown> | null;
+  const expanded = (resolved && typeof resolved === 'object' ? await expand(resolved) : {}) as Record<string, unknown>;
+  const prompt = objectToYaml(excludeNegative(expanded));
+
+  return {
+    prompt,
+    negativePrompt: extractNegativePrompt(expanded),
+    values: pickedValues,
+    randomChoices: { seed, picks },
+  };
+}
@@ -2,6 +2,7 @@
 // Tauri専用
 
 import { getSettingsPath, getAppDataPath, joinPath } from './tauri-utils';
+import type { ImageExportOptions } from './image-export';
 
 const STORAGE_KEY = 'image-prompt-builder-state';
 // 後方互換性のためのlocalStorageキー（キャッシュ用）
@@ -116,6 +117,7 @@ export interface ComfyUISettings {
   url: string;
   activeWorkflowId: string;  // 現在選択中のワークフローID
   workflows: WorkflowConfig[];
+  timeoutSeconds: number;    // 1回の生成の待ち時間の上限
   // 後方互換性のため残す（マイグレーション用）
   workflowFile?: string;
   promptNodeId?: string;
@@ -127,6 +129,7 @@ const defaultComfyUISettings: ComfyUISettings = {
   url: 'http://localhost:8188',
   activeWorkflowId: '',
   workflows: [],
+  timeoutSeconds: 300,
 };
 
 /**
@@ -360,6 +363,48 @@ export async function saveActiveEnhancerPresetId(presetId: string): Promise<void
   await saveOllamaSettingsAsync({ activePresetId: presetId });
 }
 
+// ============================================
+// ギャラリー設定
+// ============================================
+
+export interface GallerySettings {
+  trashRetentionDays: number; // ゴミ箱の画像を起動時に完全削除するまでの日数（0: 自動削除しない）
+  duplicateMaxDistance: number; // 重複とみなす知覚ハッシュの最大ハミング距離（0: 見た目が同一のみ）
+  exportOptions: ImageExportOptions | null; // 前回の書き出し設定（null: 既定値）
+}
+
+const defaultGallerySettings: GallerySettings = {
+  trashRetentionDays: 0,
+  duplicateMaxDistance: 6,
+  exportOptions: null,
+};
+
+/**
+ * Load gallery settings from cache (synchronous)
+ */
+export function loadGallerySettings(): GallerySettings {
+  const settings = loadSettingsFromCache();
+  return settings.gallery;
+}
+
+/**
+ * Fetch gallery settings from file (Tauri)
+ */
+export async function fetchGallerySettings(): Promise<GallerySettings> {
+  const settings = await fetchSettings();
+  return settings.gallery;
+}
+
+/**
+ * Save gallery settings to file (Tauri)
+ */
+export async function saveGallerySettingsAsync(settings: Partial<GallerySettings>): Promise<GallerySettings> {
+  const current = await fetchSettings();
+  const newGallery = { ...current.gallery, ...settings };
+  await saveSettings({ gallery: newGallery });
+  return newGallery;
+}
+
 // ============================================
 // 統一設定 (Unified Settings)
 // ============================================
@@ -368,12 +413,14 @@ export interface Settings {
   language: SupportedLanguage;
   comfyui: ComfyUISettings;
   ollama: OllamaSettings;
+  gallery: GallerySettings;
 }
 
 const defaultSettings: Settings = {
   language: 'en',
   comfyui: defaultComfyUISettings,
   ollama: defaultOllamaSettings,
+  gallery: defaultGallerySettings,
 };
 
 /**
@@ -415,7 +462,9 @@ export function loadSettingsFromCache(): Settings {
         ...defaultSettings,
         ...parsed,
         language: parsed.language || getDefaultLanguage(),
+        comfyui: { ...defaultComfyUISettings, ...parsed.comfyui },
         ollama: mergedOllama,
+        gallery: { ...defaultGallerySettings, ...parsed.gallery },
       };
     }
   } catch (error) {
@@ -451,6 +500,7 @@ export async function fetchSettings(): Promise<Settings> {
         language: parsed.language || getDefaultLanguage(),
         comfyui: { ...defaultComfyUISettings, ...parsed.comfyui },
         ollama: mergedOllama,
+        gallery: { ...defaultGallerySettings, ...parsed.gallery },
       };
     } else {
       // 新規: デフォルト設定（ブラウザ言語を使用）
@@ -479,6 +529,7 @@ export async function saveSettings(settings: Partial<Settings>): Promise<Setting
       language: settings.language ?? current.language,
       comfyui: settings.comfyui ? { ...current.comfyui, ...settings.comfyui } : current.comfyui,
       ollama: settings.ollama ? { ...current.ollama, ...settings.ollama } : current.ollama,
+      gallery: settings.gallery ? { ...current.gallery, ...settings.gallery } : current.gallery,
     };
 
     const { writeTextFile, mkdir, exists } = await import('@tauri-apps/plugin-fs');
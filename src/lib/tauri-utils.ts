@@ -54,6 +54,14 @@ export async function getDictionaryPath(): Promise<string> {
   return joinPath(appData, 'dictionary');
 }
 
+/**
+ * Get the wildcards directory path (__name__ → wildcards/name.txt)
+ */
+export async function getWildcardsPath(): Promise<string> {
+  const appData = await getAppDataPath();
+  return joinPath(appData, 'wildcards');
+}
+
 /**
  * Get the images directory path
  */
@@ -62,6 +70,14 @@ export async function getImagesPath(): Promise<string> {
   return joinPath(appData, 'images');
 }
 
+/**
+ * Get the thumbnail cache directory path
+ */
+export async function getThumbnailsPath(): Promise<string> {
+  const appData = await getAppDataPath();
+  return joinPath(appData, 'thumbnails');
+}
+
 /**
  * Get the ComfyUI workflows directory path
  */
@@ -0,0 +1,336 @@
+// Conditional blocks in templates
+// Applied to the merged data after all files are merged (before objectToYaml):
+// - `_if: <expression>` inside a mapping keeps the mapping only when the expression is true
+//   (a list item that is a mapping with `_if` is dropped the same way)
+// - `{ _cases: [...] }` is replaced by the first case whose `_if` is true; a case without `_if`
+//   always matches, and `_value` gives a case a scalar or list value instead of a mapping
+// Expressions are also used for `when` on `_layers`.
+//
+// Expression syntax: operands are variables (${name}, ${name|default}), 'quoted' / "quoted" strings
+// or bare text; operators are == != < <= > >= (numbers), in [a, b] / not in [a, b], !, &&, || and
+// parentheses. An operand on its own is true unless it is empty, false, 0, no or off.
+
+import { createVariablePattern, isTrueValue, resolveVariables } from './variable-utils';
+import type { VariableValues } from './variable-utils';
+
+export const CONDITION_KEY = '_if';
+export const CASES_KEY = '_cases';
+export const CASE_VALUE_KEY = '_value';
+
+// 式の構文・型のエラー（column は式の中の位置、1始まり）
+export class TemplateExpressionError extends Error {
+  column: number;
+
+  constructor(message: string, column: number) {
+    super(message);
+    this.name = 'TemplateExpressionError';
+    this.column = column;
+  }
+}
+
+type Token =
+  | { type: 'value'; value: string; column: number }
+  | { type: 'operator'; value: string; column: number }
+  | { type: 'end'; column: number };
+
+// 記号の演算子（長いものから照合）
+const SYMBOL_OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '(', ')', '[', ']', ','];
+
+// 裸の文字列がここで終わるか（文字列の途中の "!" は演算子として扱わない）
+function isBareTextEnd(expression: string, index: number): boolean {
+  return SYMBOL_OPERATORS.some((operator) => operator !== '!' && expression.startsWith(operator, index));
+}
+
+// 式をトークンに分ける
+// 変数は値に置き換えてから文字列の一部として扱う（値に記号が含まれていても演算子にはならない）
+function tokenize(expression: string, values: VariableValues): Token[] {
+  const tokens: Token[] = [];
+  const variablePattern = createVariablePattern();
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // 引用符で囲んだ文字列
+    if (char === '"' || char === "'") {
+      const end = expression.indexOf(char, i + 1);
+      if (end === -1) {
+        throw new TemplateExpressionError(`Missing closing ${char}`, i + 1);
+      }
+      tokens.push({ type: 'value', value: resolveVariables(expression.slice(i + 1, end), values), column: i + 1 });
+      i = end + 1;
+      continue;
+    }
+
+    const symbol = SYMBOL_OPERATORS.find((operator) => expression.startsWith(operator, i));
+    if (symbol) {
+      tokens.push({ type: 'operator', value: symbol, column: i + 1 });
+      i += symbol.length;
+      continue;
+    }
+
+    // 裸の文字列（変数を含む）。末尾の " in" / " not in" は演算子として切り出す
+    const start = i;
+    let text = '';
+    while (i < expression.length) {
+      if (expression.startsWith('${', i)) {
+        variablePattern.lastIndex = i;
+        const match = variablePattern.exec(expression);
+        if (match && match.index === i) {
+          text += resolveVariables(match[0], values);
+          i += match[0].length;
+          continue;
+        }
+      }
+      if (isBareTextEnd(expression, i)) break;
+      text += expression[i];
+      i++;
+    }
+    const membership = expression[i] === '[' ? text.match(/^(.*?)\s*\b(not\s+in|in)\s*$/) : null;
+    if (membership) {
+      if (membership[1].trim()) {
+        tokens.push({ type: 'value', value: membership[1].trim(), column: start + 1 });
+      }
+      tokens.push({ type: 'operator', value: membership[2].replace(/\s+/, ' '), column: start + 1 + membership[1].length });
+    } else {
+      tokens.push({ type: 'value', value: text.trim(), column: start + 1 });
+    }
+  }
+
+  tokens.push({ type: 'end', column: expression.length + 1 });
+  return tokens;
+}
+
+function describe(token: Token): string {
+  return token.type === 'end' ? 'end of condition' : `'${token.value}'`;
+}
+
+function toNumber(value: string, operator: string, column: number): number {
+  const number = Number(value);
+  if (value.trim() === '' || Number.isNaN(number)) {
+    throw new TemplateExpressionError(`'${operator}' needs numbers, got '${value}'`, column);
+  }
+  return number;
+}
+
+// 再帰下降で評価する（値はすべて文字列、真偽は isTrueValue で判定）
+class ExpressionParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): boolean {
+    const result = this.parseOr();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      throw new TemplateExpressionError(`Unexpected ${describe(token)}`, token.column);
+    }
+    return result;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && token.value === value;
+  }
+
+  private expect(value: string) {
+    const token = this.next();
+    if (token.type !== 'operator' || token.value !== value) {
+      throw new TemplateExpressionError(`Expected '${value}' but found ${describe(token)}`, token.column);
+    }
+  }
+
+  private parseOr(): boolean {
+    let result = this.parseAnd();
+    while (this.isOperator('||')) {
+      this.next();
+      const right = this.parseAnd();
+      result = result || right;
+    }
+    return result;
+  }
+
+  private parseAnd(): boolean {
+    let result = this.parseNot();
+    while (this.isOperator('&&')) {
+      this.next();
+      const right = this.parseNot();
+      result = result && right;
+    }
+    return result;
+  }
+
+  private parseNot(): boolean {
+    if (this.isOperator('!')) {
+      this.next();
+      return !this.parseNot();
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): boolean {
+    if (this.isOperator('(')) {
+      this.next();
+      const result = this.parseOr();
+      this.expect(')');
+      return result;
+    }
+
+    const left = this.parseValue();
+    const token = this.peek();
+    if (token.type !== 'operator') return isTrueValue(left);
+
+    switch (token.value) {
+      case '==':
+      case '!=': {
+        this.next();
+        const right = this.parseValue();
+        return (left === right) === (token.value === '==');
+      }
+      case '<':
+      case '<=':
+      case '>':
+      case '>=': {
+        this.next();
+        const rightToken = this.peek();
+        const a = toNumber(left, token.value, token.column);
+        const b = toNumber(this.parseValue(), token.value, rightToken.column);
+        if (token.value === '<') return a < b;
+        if (token.value === '<=') return a <= b;
+        if (token.value === '>') return a > b;
+        return a >= b;
+      }
+      case 'in':
+      case 'not in': {
+        this.next();
+        const included = this.parseList().includes(left);
+        return token.value === 'in' ? included : !included;
+      }
+      default:
+        return isTrueValue(left);
+    }
+  }
+
+  private parseList(): string[] {
+    this.expect('[');
+    const items: string[] = [];
+    if (this.isOperator(']')) {
+      this.next();
+      return items;
+    }
+    for (;;) {
+      items.push(this.parseValue());
+      if (this.isOperator(',')) {
+        this.next();
+        continue;
+      }
+      this.expect(']');
+      return items;
+    }
+  }
+
+  private parseValue(): string {
+    const token = this.next();
+    if (token.type !== 'value') {
+      throw new TemplateExpressionError(`Expected a value but found ${describe(token)}`, token.column);
+    }
+    return token.value;
+  }
+}
+
+/**
+ * Evaluate a condition with the given variable values.
+ * Throws TemplateExpressionError for syntax errors and non-numeric comparisons.
+ */
+export function evaluateExpression(expression: string, values: VariableValues): boolean {
+  if (!expression.trim()) {
+    throw new TemplateExpressionError('Empty condition', 1);
+  }
+  return new ExpressionParser(tokenize(expression, values)).parse();
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// 条件の評価ごとに呼ばれる（path は _if キー自身のパス）
+export interface ConditionHandlers {
+  onCondition?: (path: string[], expression: string) => void;
+  onError?: (path: string[], expression: string, error: TemplateExpressionError) => void;
+}
+
+// 取り除く値の目印
+const REMOVED = Symbol('removed');
+
+/**
+ * Apply `_if` / `_cases` blocks to merged data.
+ * A condition that fails to evaluate counts as false and is reported through onError.
+ */
+export function applyConditionals(
+  data: Record<string, unknown>,
+  values: VariableValues,
+  handlers: ConditionHandlers = {}
+): Record<string, unknown> {
+  const check = (condition: unknown, path: string[]): boolean => {
+    const expression = String(condition);
+    handlers.onCondition?.(path, expression);
+    try {
+      return evaluateExpression(expression, values);
+    } catch (error) {
+      if (!(error instanceof TemplateExpressionError)) throw error;
+      handlers.onError?.(path, expression, error);
+      return false;
+    }
+  };
+
+  const visit = (value: unknown, path: string[]): unknown => {
+    if (Array.isArray(value)) {
+      return value
+        .map((item, index) => visit(item, [...path, String(index)]))
+        .filter((item) => item !== REMOVED);
+    }
+    if (!isPlainObject(value)) return value;
+
+    // _cases: 最初に条件が成り立つケースの値に置き換える（ルートは対象外）
+    if (CASES_KEY in value && path.length > 0) {
+      const cases = Array.isArray(value[CASES_KEY]) ? value[CASES_KEY] : [];
+      for (const [index, item] of cases.entries()) {
+        const casePath = [...path, CASES_KEY, String(index)];
+        if (!isPlainObject(item)) continue;
+        if (CONDITION_KEY in item && !check(item[CONDITION_KEY], [...casePath, CONDITION_KEY])) continue;
+        if (CASE_VALUE_KEY in item) return visit(item[CASE_VALUE_KEY], path);
+        const rest = { ...item };
+        delete rest[CONDITION_KEY];
+        return visit(rest, path);
+      }
+      return REMOVED;
+    }
+
+    // _if: 条件が成り立たなければマッピングごと取り除く（ルートは対象外）
+    if (CONDITION_KEY in value && path.length > 0) {
+      if (!check(value[CONDITION_KEY], [...path, CONDITION_KEY])) return REMOVED;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key === CONDITION_KEY && path.length > 0) continue;
+      const visited = visit(child, [...path, key]);
+      if (visited !== REMOVED) result[key] = visited;
+    }
+    return result;
+  };
+
+  return visit(data, []) as Record<string, unknown>;
+}
@@ -0,0 +1,66 @@
+// Generation settings in templates
+// A `_generation` block (a root key, merged through _base / _layers like other keys) sets the values of
+// the node overrides configured for the workflow:
+//   _generation:
+//     width: 832                          # every override whose property is "width"
+//     steps: ${steps:int(10..50)|30}       # variables work as in the prompt
+//     "12.strength_model": 0.8            # a single node: nodeId.property
+// Template values take priority over the workflow settings and the generation panel.
+
+import { GENERATION_KEY, resolveVariables, type VariableValues } from './variable-utils';
+import type { NodeOverride } from './storage';
+
+export interface GenerationOverrides {
+  values: Record<string, string | number>; // nodeId.property → 値（生成パネルの上書き値と同じ形式）
+  unmatched: string[]; // ワークフローの上書き設定に一致しなかったキー
+}
+
+// 数値として読める値は数値にする（生成パネルの入力と同じ扱い）
+function toOverrideValue(text: string): string | number {
+  const number = Number(text);
+  return Number.isFinite(number) ? number : text;
+}
+
+// マージ結果の _generation ブロック（なければ undefined）
+export function getGenerationSettings(data: Record<string, unknown>): Record<string, unknown> | undefined {
+  const block = data[GENERATION_KEY];
+  return block && typeof block === 'object' && !Array.isArray(block) ? block as Record<string, unknown> : undefined;
+}
+
+/**
+ * Resolve a `_generation` block into override values for the workflow.
+ * Entries whose value resolves to an empty string are left to the workflow settings.
+ */
+export function resolveGenerationOverrides(
+  block: Record<string, unknown> | undefined,
+  values: VariableValues,
+  overrides: NodeOverride[]
+): GenerationOverrides {
+  const result: GenerationOverrides = { values: {}, unmatched: [] };
+  if (!block) return result;
+
+  const entries = Object.entries(block).filter(
+    ([, value]) => value !== null && value !== undefined && typeof value !== 'object'
+  );
+  // プロパティ名だけのキーを先に、nodeId.property のキーを後に適用（特定のノードの指定を優先）
+  const byProperty = entries.filter(([key]) => !key.includes('.'));
+  const byNode = entries.filter(([key]) => key.includes('.'));
+
+  for (const [key, value] of [...byProperty, ...byNode]) {
+    const matches = overrides.filter((override) =>
+      override.nodeId && override.property &&
+      (key.includes('.') ? `${override.nodeId}.${override.property}` === key : override.property === key)
+    );
+    if (matches.length === 0) {
+      result.unmatched.push(key);
+      continue;
+    }
+
+    const text = resolveVariables(String(value), values).trim();
+    if (text === '') continue;
+    for (const override of matches) {
+      result.values[`${override.nodeId}.${override.property}`] = toOverrideValue(text);
+    }
+  }
+  return result;
+}
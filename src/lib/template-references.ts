@@ -0,0 +1,58 @@
+// テンプレート間の参照（_base / _layers）の管理
+
+import { fileAPI } from './file-api';
+import { rewriteReferences, type FileData } from './yaml-utils';
+
+// 移動・リネーム前のパス → 移動後のパス（フォルダの場合は配下のパスも変換）
+export function createPathMapper(from: string, to: string): (path: string) => string {
+  return (path: string) => {
+    if (path === from) return to;
+    if (path.startsWith(from + '/')) return to + path.substring(from.length);
+    return path;
+  };
+}
+
+// 参照の書き換え結果（failed: 読み書きに失敗したファイル）
+export interface ReferenceUpdateResult {
+  updated: string[];
+  failed: string[];
+}
+
+// 移動・リネーム後に、全テンプレートの _base / _layers 参照を書き換えて保存する
+// templatePaths: 移動後のテンプレートパス一覧
+export async function updateReferencesAfterMove(
+  from: string,
+  to: string,
+  templatePaths: string[]
+): Promise<ReferenceUpdateResult> {
+  const mapPath = createPathMapper(from, to);
+  const toOldPath = createPathMapper(to, from); // 移動後 → 移動前
+  const result: ReferenceUpdateResult = { updated: [], failed: [] };
+
+  for (const path of templatePaths) {
+    try {
+      const content = await fileAPI.readFile(path);
+      const rewritten = rewriteReferences(content, toOldPath(path), path, mapPath);
+      if (rewritten !== content) {
+        await fileAPI.writeFile(path, rewritten);
+        result.updated.push(path);
+      }
+    } catch (error) {
+      console.error(`Failed to update references in ${path}:`, error);
+      result.failed.push(path);
+    }
+  }
+
+  return result;
+}
+
+// 読み込み済みのファイル（未保存の編集を含むタブの内容）のパスと参照を移動後に合わせる
+// 保存時に古い参照が書き戻されないよう、ディスク上のファイルと同じ書き換えを適用する
+export function rewriteLoadedFiles(files: FileData, from: string, to: string): FileData {
+  const mapPath = createPathMapper(from, to);
+  const next: FileData = {};
+  for (const [path, content] of Object.entries(files)) {
+    next[mapPath(path)] = rewriteReferences(content, path, mapPath(path), mapPath);
+  }
+  return next;
+}
@@ -0,0 +1,58 @@
+// Text diff for comparing prompts
+// LCS over lines (multi-line YAML) or comma-separated tokens (single-line prompts)
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+// 比較単位に分割（複数行なら行単位、1行ならカンマ区切り）
+export function splitForDiff(text: string): string[] {
+  if (text.includes('\n')) {
+    return text.split('\n');
+  }
+  return text.split(/(?<=,)\s*/).filter((token) => token.length > 0);
+}
+
+// base → target の差分（removed は base にだけ、added は target にだけある部分）
+export function diffSequences(base: string[], target: string[]): DiffPart[] {
+  const n = base.length;
+  const m = target.length;
+
+  // lcs[i][j]: base[i..] と target[j..] の最長共通部分列の長さ
+  const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = base[i] === target[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], value: string) => parts.push({ type, value });
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (base[i] === target[j]) {
+      push('equal', base[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', base[i]);
+      i++;
+    } else {
+      push('added', target[j]);
+      j++;
+    }
+  }
+  while (i < n) push('removed', base[i++]);
+  while (j < m) push('added', target[j++]);
+
+  return parts;
+}
+
+export function diffText(base: string, target: string): DiffPart[] {
+  return diffSequences(splitForDiff(base), splitForDiff(target));
+}
@@ -0,0 +1,173 @@
+// Thumbnail cache for the gallery
+// Downscaled WebP copies of the images are stored in <appData>/thumbnails/<id>.webp.
+// They are written when an image is saved or imported, and created lazily for older
+// images the first time the gallery shows them. Webviews that cannot encode WebP
+// (WebKit) fall back to JPEG (<id>.jpg).
+
+import { getImagesPath, getThumbnailsPath, joinPath } from './tauri-utils';
+
+// 短辺の長さ（グリッドのセルは正方形に切り抜くので短辺を合わせる。高DPIを考慮して大きめ）
+export const THUMBNAIL_SIZE = 384;
+const THUMBNAIL_QUALITY = 0.8;
+const THUMBNAIL_EXTENSIONS = ['webp', 'jpg'] as const;
+type ThumbnailExtension = typeof THUMBNAIL_EXTENSIONS[number];
+
+// 同時に作成するサムネイルの数（大量のスクロールでCPUを占有しないように）
+const MAX_CONCURRENT_BACKFILLS = 2;
+
+// ファイル名 → 表示用URL
+const thumbnailUrls = new Map<string, string>();
+// 作成中のサムネイル（同じ画像を重複して作らない）
+const pendingThumbnails = new Map<string, Promise<string>>();
+
+let activeBackfills = 0;
+const backfillQueue: (() => void)[] = [];
+
+function getImageId(filename: string): string {
+  return filename.replace(/\.(png|jpg|jpeg|webp)$/i, '');
+}
+
+export function getImageMimeType(filename: string): string {
+  if (/\.jpe?g$/i.test(filename)) return 'image/jpeg';
+  if (/\.webp$/i.test(filename)) return 'image/webp';
+  return 'image/png';
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, type, THUMBNAIL_QUALITY));
+}
+
+/**
+ * Downscale image data to a thumbnail (WebP, or JPEG where WebP encoding is unsupported)
+ */
+export async function createThumbnail(
+  data: Uint8Array,
+  mimeType: string
+): Promise<{ data: Uint8Array; ext: ThumbnailExtension }> {
+  const bitmap = await createImageBitmap(new Blob([data as BlobPart], { type: mimeType }));
+  try {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.min(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context is not available');
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // WebPに未対応の場合 toBlob はPNGを返すのでJPEGで作り直す
+    let blob = await canvasToBlob(canvas, 'image/webp');
+    let ext: ThumbnailExtension = 'webp';
+    if (!blob || blob.type !== 'image/webp') {
+      blob = await canvasToBlob(canvas, 'image/jpeg');
+      ext = 'jpg';
+    }
+    if (!blob) {
+      throw new Error('Failed to encode thumbnail');
+    }
+    return { data: new Uint8Array(await blob.arrayBuffer()), ext };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Create and store the thumbnail of an image. Returns the thumbnail file path.
+ * Pass the image data when it is already in memory (save / import) to skip reading the file.
+ */
+export async function saveThumbnail(filename: string, data?: Uint8Array): Promise<string> {
+  const { readFile, writeFile, mkdir, exists } = await import('@tauri-apps/plugin-fs');
+
+  const imageData = data ?? await readFile(await joinPath(await getImagesPath(), filename));
+  const thumbnail = await createThumbnail(imageData, getImageMimeType(filename));
+
+  const thumbnailsDir = await getThumbnailsPath();
+  if (!(await exists(thumbnailsDir))) {
+    await mkdir(thumbnailsDir, { recursive: true });
+  }
+  const thumbnailPath = await joinPath(thumbnailsDir, `${getImageId(filename)}.${thumbnail.ext}`);
+  await writeFile(thumbnailPath, thumbnail.data);
+  return thumbnailPath;
+}
+
+// 保存済みのサムネイルのパス（なければ null）
+async function findThumbnail(filename: string): Promise<string | null> {
+  const { exists } = await import('@tauri-apps/plugin-fs');
+  const thumbnailsDir = await getThumbnailsPath();
+  for (const ext of THUMBNAIL_EXTENSIONS) {
+    const path = await joinPath(thumbnailsDir, `${getImageId(filename)}.${ext}`);
+    if (await exists(path)) return path;
+  }
+  return null;
+}
+
+// 同時実行数を制限してサムネイルを作成する
+// 終わったときに待っている呼び出しがあれば枠をそのまま引き渡す（空いた枠を割り込みで取られないように）
+async function backfillThumbnail(filename: string): Promise<string> {
+  if (activeBackfills >= MAX_CONCURRENT_BACKFILLS) {
+    await new Promise<void>((resolve) => backfillQueue.push(resolve));
+  } else {
+    activeBackfills++;
+  }
+  try {
+    return await saveThumbnail(filename);
+  } finally {
+    const next = backfillQueue.shift();
+    if (next) {
+      next();
+    } else {
+      activeBackfills--;
+    }
+  }
+}
+
+/**
+ * Display URL of the thumbnail. Creates the thumbnail first if it does not exist yet,
+ * and falls back to the full image if that fails (e.g. the file cannot be decoded).
+ */
+export async function getThumbnailUrl(filename: string): Promise<string> {
+  const cached = thumbnailUrls.get(filename);
+  if (cached) return cached;
+
+  let pending = pendingThumbnails.get(filename);
+  if (!pending) {
+    pending = (async () => {
+      const { convertFileSrc } = await import('@tauri-apps/api/core');
+      try {
+        const path = await findThumbnail(filename) ?? await backfillThumbnail(filename);
+        const url = convertFileSrc(path);
+        thumbnailUrls.set(filename, url);
+        return url;
+      } catch (error) {
+        // 作成できない画像は元画像を使う（このセッション中は再試行しない）
+        console.warn(`Failed to create thumbnail of ${filename}:`, error);
+        const url = convertFileSrc(await joinPath(await getImagesPath(), filename));
+        thumbnailUrls.set(filename, url);
+        return url;
+      }
+    })().finally(() => pendingThumbnails.delete(filename));
+    pendingThumbnails.set(filename, pending);
+  }
+  return pending;
+}
+
+/**
+ * Delete the thumbnail of an image. Returns the freed bytes.
+ */
+export async function removeThumbnail(filename: string): Promise<number> {
+  const { remove, exists, stat } = await import('@tauri-apps/plugin-fs');
+  thumbnailUrls.delete(filename);
+
+  const thumbnailsDir = await getThumbnailsPath();
+  let freedBytes = 0;
+  for (const ext of THUMBNAIL_EXTENSIONS) {
+    const path = await joinPath(thumbnailsDir, `${getImageId(filename)}.${ext}`);
+    if (await exists(path)) {
+      freedBytes += (await stat(path)).size;
+      await remove(path);
+    }
+  }
+  return freedBytes;
+}
@@ -1,60 +1,230 @@
 // 変数ユーティリティ
 
+// 変数の型（${name:type} の形式で注釈。省略時は string）
+// random: 値が未入力なら生成時に辞書からランダムに選ぶ（random-choices.ts）
+export type VariableType = 'string' | 'number' | 'int' | 'bool' | 'enum' | 'random';
+
+// ${name|?} のデフォルト値（random と同じく生成時にランダムに選ぶ）
+export const RANDOM_DEFAULT_VALUE = '?';
+
 export interface VariableDefinition {
   name: string;
   defaultValue?: string;
   yamlPath?: string; // YAMLパス (例: "outfit.jacket.style")
   isMulti?: boolean; // 複数選択可能な変数 (${varName[]} 形式)
+  type?: VariableType;
+  min?: number;       // number / int の範囲
+  max?: number;
+  step?: number;
+  options?: string[]; // enum の選択肢
+  // _vars での宣言（変数フォームの表示用）
+  label?: string;
+  help?: string;
+  group?: string;
+  order?: number;
+  required?: boolean;
 }
 
 export interface VariableValues {
   [name: string]: string | string[];
 }
 
+// ${name}, ${name[]}, ${name:type}, ${name|default} とその組み合わせ
+// 1: 変数名, 2: "[]", 3: 型注釈, 4: デフォルト値
+const VARIABLE_PATTERN_SOURCE = String.raw`\$\{([^}\[\]|:]+)(\[\])?(?::([^}|]*))?(?:\|([^}]*))?\}`;
+
+export function createVariablePattern(): RegExp {
+  return new RegExp(VARIABLE_PATTERN_SOURCE, 'g');
+}
+
+type VariableTypeInfo = Pick<VariableDefinition, 'type' | 'min' | 'max' | 'step' | 'options'>;
+
+function parseNumber(text: string | undefined): number | undefined {
+  if (text === undefined || text.trim() === '') return undefined;
+  const value = Number(text.trim());
+  return Number.isFinite(value) ? value : undefined;
+}
+
+// 型注釈を解析
+// number / number(0..2) / number(0..2, 0.1) / int(1..10) / bool / enum(a,b,c) / random / string
+// 解釈できない注釈は string として扱う
+export function parseVariableType(spec: string | undefined): VariableTypeInfo {
+  const match = spec?.trim().match(/^(\w+)\s*(?:\((.*)\))?$/);
+  if (!match) return {};
+  const [, typeName, args] = match;
+
+  switch (typeName.toLowerCase()) {
+    case 'number':
+    case 'int': {
+      const type = typeName.toLowerCase() as 'number' | 'int';
+      const [range = '', step] = (args ?? '').split(',');
+      const [min, max] = range.includes('..') ? range.split('..') : [undefined, undefined];
+      return {
+        type,
+        min: parseNumber(min),
+        max: parseNumber(max),
+        step: parseNumber(step) ?? (type === 'int' ? 1 : undefined),
+      };
+    }
+    case 'bool':
+    case 'boolean':
+      return { type: 'bool' };
+    case 'random':
+      return { type: 'random' };
+    case 'enum': {
+      const options = (args ?? '').split(',').map((option) => option.trim()).filter((option) => option !== '');
+      return options.length > 0 ? { type: 'enum', options } : {};
+    }
+    default:
+      return {};
+  }
+}
+
+// 同じ変数名は最初の定義を使用（デフォルト値がある方を優先。型注釈はどれか1つにあればよい）
+function addVariable(variables: Map<string, VariableDefinition>, variable: VariableDefinition) {
+  const existing = variables.get(variable.name);
+  const typeSource = variable.type ? variable : existing;
+  const typeInfo: VariableTypeInfo = typeSource?.type
+    ? { type: typeSource.type, min: typeSource.min, max: typeSource.max, step: typeSource.step, options: typeSource.options }
+    : {};
+
+  if (!existing || (variable.defaultValue && !existing.defaultValue)) {
+    variables.set(variable.name, { ...variable, ...typeInfo });
+  } else if (variable.type && !existing.type) {
+    Object.assign(existing, typeInfo);
+  }
+}
+
 // YAMLコンテンツから変数を抽出（パス情報なし、後方互換）
 // 形式: ${varName} または ${varName|defaultValue}
 export function extractVariables(content: string): VariableDefinition[] {
-  const variablePattern = /\$\{([^}|]+)(?:\|([^}]*))?\}/g;
+  const variablePattern = createVariablePattern();
   const variables: Map<string, VariableDefinition> = new Map();
 
   let match;
   while ((match = variablePattern.exec(content)) !== null) {
-    const name = match[1].trim();
-    const defaultValue = match[2]?.trim();
-
-    // 同じ変数名は最初の定義を使用（デフォルト値がある方を優先）
-    if (!variables.has(name) || (defaultValue && !variables.get(name)?.defaultValue)) {
-      variables.set(name, { name, defaultValue });
-    }
+    addVariable(variables, {
+      name: match[1].trim(),
+      defaultValue: match[4]?.trim(),
+      isMulti: match[2] === '[]',
+      ...parseVariableType(match[3]),
+    });
   }
 
   return Array.from(variables.values());
 }
 
+// 変数の宣言ブロック（ルートのキー）
+// _vars:
+//   hair_color:
+//     label: Hair color
+//     help: Leave empty to use the dictionary
+//     group: Appearance
+//     order: 1
+//     required: true
+//     type: enum(black, blonde)   # ${name:type} と同じ注釈
+//     options: [black, blonde]    # 許可する値（enum になる。random なら選ぶ候補）
+//   mood: Mood                    # 文字列だけならラベル
+// 通常のキーと同じく _base / _layers のマージで子が項目ごとに上書きできる
+export const VARIABLE_SCHEMA_KEY = '_vars';
+
+// ワークフローの上書き値を指定するブロック（ルートのキー。template-generation.ts）
+// プロンプトには含めないが、値の中の変数は変数フォームに出す
+export const GENERATION_KEY = '_generation';
+
+// デフォルト値は ${name|default} に書く（値の置換は宣言を参照しないため）
+type VariableDeclaration = Omit<VariableDefinition, 'name' | 'yamlPath' | 'isMulti' | 'defaultValue'>;
+
+function toText(value: unknown): string | undefined {
+  if (value === undefined || value === null || typeof value === 'object') return undefined;
+  const text = String(value).trim();
+  return text === '' ? undefined : text;
+}
+
+// 1つの変数の宣言を解析（解釈できない項目は無視）
+function parseVariableDeclaration(value: unknown): VariableDeclaration {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    const label = toText(value);
+    return label ? { label } : {};
+  }
+
+  const spec = value as Record<string, unknown>;
+  const declaration: VariableDeclaration = {
+    label: toText(spec.label),
+    help: toText(spec.help),
+    group: toText(spec.group),
+    order: typeof spec.order === 'number' && Number.isFinite(spec.order) ? spec.order : undefined,
+    required: spec.required === undefined ? undefined : isTrueValue(String(spec.required)),
+    ...parseVariableType(toText(spec.type)),
+  };
+
+  const options = Array.isArray(spec.options)
+    ? spec.options.map(toText).filter((option): option is string => option !== undefined)
+    : [];
+  if (options.length > 0) {
+    declaration.options = options;
+    // 数値・真偽値の型と一緒に書かれた選択肢は無視し、それ以外は enum として扱う
+    if (!declaration.type || declaration.type === 'string') declaration.type = 'enum';
+    else if (declaration.type !== 'enum' && declaration.type !== 'random') delete declaration.options;
+  }
+
+  // 未指定の項目はキーごと除く（見つかった変数の値を上書きしないため）
+  return Object.fromEntries(
+    Object.entries(declaration).filter(([, item]) => item !== undefined)
+  ) as VariableDeclaration;
+}
+
+// _vars の宣言を見つかった変数に反映（宣言だけの変数も追加する）
+// 宣言の型は ${...} の注釈より優先
+function applyVariableDeclarations(variables: Map<string, VariableDefinition>, schema: unknown) {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return;
+
+  for (const [rawName, spec] of Object.entries(schema)) {
+    const name = rawName.trim();
+    if (!name) continue;
+    const declaration = parseVariableDeclaration(spec);
+    const existing = variables.get(name);
+    // 型を宣言した場合は、注釈の範囲・選択肢を引き継がない
+    const base: VariableDefinition = existing && declaration.type
+      ? { ...existing, min: undefined, max: undefined, step: undefined, options: undefined }
+      : existing ?? { name };
+    variables.set(name, { ...base, ...declaration });
+  }
+}
+
+// 宣言の order の順に並べる（order のない変数は見つかった順で後ろに）
+function sortVariables(variables: VariableDefinition[]): VariableDefinition[] {
+  return variables
+    .map((variable, index) => ({ variable, index }))
+    .sort((a, b) =>
+      (a.variable.order ?? Infinity) - (b.variable.order ?? Infinity) || a.index - b.index
+    )
+    .map(({ variable }) => variable);
+}
+
 // YAMLオブジェクトから変数を抽出（パス情報付き）
 // パースされたYAMLを走査して、各変数のコンテキストパスを記録
 // 形式: ${varName}, ${varName|default}, ${varName[]}, ${varName[]|default}
+// 型注釈付き: ${varName:number(0..2)|1.0}, ${varName:bool|false}, ${varName[]:enum(a,b)}
+// ルートから走査する場合は _vars の宣言も反映し、order の順に並べる
 export function extractVariablesWithPath(
   obj: unknown,
   currentPath: string[] = []
 ): VariableDefinition[] {
   const variables: Map<string, VariableDefinition> = new Map();
-  // [] をオプションでキャプチャ: ${name} or ${name[]} or ${name|default} or ${name[]|default}
-  const variablePattern = /\$\{([^}\[\]|]+)(\[\])?(?:\|([^}]*))?\}/g;
+  const variablePattern = createVariablePattern();
 
   function traverse(value: unknown, path: string[]) {
     if (typeof value === 'string') {
       let match;
       while ((match = variablePattern.exec(value)) !== null) {
-        const name = match[1].trim();
-        const isMulti = match[2] === '[]';
-        const defaultValue = match[3]?.trim();
-        const yamlPath = path.join('.');
-
-        // 同じ変数名は最初の定義を使用（デフォルト値がある方を優先）
-        if (!variables.has(name) || (defaultValue && !variables.get(name)?.defaultValue)) {
-          variables.set(name, { name, defaultValue, yamlPath, isMulti });
-        }
+        addVariable(variables, {
+          name: match[1].trim(),
+          defaultValue: match[4]?.trim(),
+          yamlPath: path.join('.'),
+          isMulti: match[2] === '[]',
+          ...parseVariableType(match[3]),
+        });
       }
       // Reset regex lastIndex for next string
       variablePattern.lastIndex = 0;
@@ -64,28 +234,57 @@ export function extractVariablesWithPath(
       });
     } else if (value && typeof value === 'object') {
       for (const [key, val] of Object.entries(value)) {
-        // _base, _layers, _replace はスキップ
-        if (key.startsWith('_')) continue;
+        // _base, _layers, _replace はスキップ（ルートの _generation は変数を探す）
+        if (key.startsWith('_') && !(path.length === 0 && key === GENERATION_KEY)) continue;
         traverse(val, [...path, key]);
       }
     }
   }
 
   traverse(obj, currentPath);
-  return Array.from(variables.values());
+  if (currentPath.length === 0 && obj && typeof obj === 'object' && !Array.isArray(obj)) {
+    applyVariableDeclarations(variables, (obj as Record<string, unknown>)[VARIABLE_SCHEMA_KEY]);
+  }
+  return sortVariables(Array.from(variables.values()));
+}
+
+// 値が未入力のときに生成時にランダムに選ぶ変数か
+export function isRandomVariable(variable: Pick<VariableDefinition, 'type' | 'defaultValue'>): boolean {
+  return variable.type === 'random' || variable.defaultValue === RANDOM_DEFAULT_VALUE;
+}
+
+// 生成時にランダムに選ぶ必要があるか
+// 値（未入力ならデフォルト値）が "?"、または random 型で値もデフォルトもない場合
+export function needsRandomPick(
+  variable: Pick<VariableDefinition, 'type' | 'defaultValue'>,
+  value: string | string[] | undefined
+): boolean {
+  if (Array.isArray(value) && value.length > 0) return false;
+  const effective = typeof value === 'string' && value !== '' ? value : (variable.defaultValue ?? '');
+  return effective === RANDOM_DEFAULT_VALUE || (variable.type === 'random' && effective === '');
+}
+
+export interface ResolveVariablesOptions {
+  // ランダムに選ぶ変数を ${...} のまま残す（プレビュー用。生成時は選んだ値を values に入れる）
+  keepRandom?: boolean;
 }
 
 // 変数を値で置換
 // 配列変数 ${varName[]} は YAML 配列形式に展開
+// ランダムに選ぶ変数は空文字列になる（keepRandom なら元の表記のまま）
 export function resolveVariables(
   content: string,
-  values: VariableValues
+  values: VariableValues,
+  options: ResolveVariablesOptions = {}
 ): string {
   return content.replace(
-    /\$\{([^}\[\]|]+)(\[\])?(?:\|([^}]*))?\}/g,
-    (match, name, isMultiBracket, defaultValue) => {
+    createVariablePattern(),
+    (match, name, isMultiBracket, typeSpec, defaultValue) => {
       const varName = name.trim();
       const value = values[varName];
+      if (needsRandomPick({ type: parseVariableType(typeSpec).type, defaultValue: defaultValue?.trim() }, value)) {
+        return options.keepRandom ? match : '';
+      }
 
       // 配列変数の場合
       if (isMultiBracket === '[]') {
@@ -111,7 +310,123 @@ export function resolveVariables(
   );
 }
 
+// パース済みのデータに含まれる変数のうち、bindings にあるものだけを値で置換（ほかの変数は ${...} のまま残す）
+// _base / _layers の with で渡した引数をマージ前に埋め込むのに使う
+// 文字列全体が配列変数 ${name[]} で値が配列ならその配列に、それ以外の配列の値は ", " 区切りにする
+export function bindVariables(value: unknown, bindings: VariableValues): unknown {
+  if (typeof value === 'string') {
+    const whole = new RegExp(`^${VARIABLE_PATTERN_SOURCE}$`).exec(value.trim());
+    const wholeValue = whole ? bindings[whole[1].trim()] : undefined;
+    if (whole?.[2] === '[]' && Array.isArray(wholeValue)) return [...wholeValue];
+
+    return value.replace(createVariablePattern(), (match, name: string, _multi, _type, defaultValue?: string) => {
+      const bound = bindings[name.trim()];
+      if (bound === undefined) return match;
+      const text = Array.isArray(bound) ? bound.join(', ') : bound;
+      return text !== '' ? text : (defaultValue?.trim() ?? '');
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => bindVariables(item, bindings));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, child]) => [key, bindVariables(child, bindings)])
+    );
+  }
+  return value;
+}
+
 // 変数がすべて解決されているかチェック
 export function hasUnresolvedVariables(content: string): boolean {
   return /\$\{[^}]+\}/.test(content);
 }
+
+// ============================================
+// 型付き変数の検証
+// ============================================
+
+const BOOLEAN_VALUES = ['true', 'false', 'yes', 'no', 'on', 'off', '1', '0'];
+
+export type VariableValidationError =
+  | { kind: 'number' }
+  | { kind: 'integer' }
+  | { kind: 'min'; min: number }
+  | { kind: 'max'; max: number }
+  | { kind: 'bool' }
+  | { kind: 'enum'; options: string[] }
+  | { kind: 'required' };
+
+export interface VariableValidationIssue {
+  name: string;
+  value: string;
+  error: VariableValidationError;
+}
+
+// bool 変数の値が真かどうか（"false" / "0" / "no" / "off" / 空は偽）
+export function isTrueValue(value: string): boolean {
+  return value.trim() !== '' && !['false', '0', 'no', 'off'].includes(value.trim().toLowerCase());
+}
+
+// 1つの値を型注釈に照らして検証（空の値は検証しない）
+export function validateVariableValue(
+  variable: VariableDefinition,
+  value: string
+): VariableValidationError | null {
+  const text = value.trim();
+  if (text === '') return null;
+
+  switch (variable.type) {
+    case 'number':
+    case 'int': {
+      const number = Number(text);
+      if (!Number.isFinite(number)) return { kind: 'number' };
+      if (variable.type === 'int' && !Number.isInteger(number)) return { kind: 'integer' };
+      if (variable.min !== undefined && number < variable.min) return { kind: 'min', min: variable.min };
+      if (variable.max !== undefined && number > variable.max) return { kind: 'max', max: variable.max };
+      return null;
+    }
+    case 'bool':
+      return BOOLEAN_VALUES.includes(text.toLowerCase()) ? null : { kind: 'bool' };
+    case 'enum':
+      return variable.options?.includes(text) ? null : { kind: 'enum', options: variable.options ?? [] };
+    default:
+      return null;
+  }
+}
+
+// 必須の変数が未入力か（デフォルト値があれば未入力でもよい。ランダムに選ぶ変数は除く）
+export function isMissingRequired(
+  variable: VariableDefinition,
+  value: string | string[] | undefined
+): boolean {
+  if (!variable.required || needsRandomPick(variable, value)) return false;
+  const isEmpty = Array.isArray(value) ? value.length === 0 : (value ?? '').trim() === '';
+  return isEmpty && (variable.defaultValue ?? '').trim() === '';
+}
+
+// 入力値（未入力ならデフォルト値）をすべて検証
+export function validateVariables(
+  variables: VariableDefinition[],
+  values: VariableValues
+): VariableValidationIssue[] {
+  const issues: VariableValidationIssue[] = [];
+  for (const variable of variables) {
+    const value = values[variable.name];
+    if (isMissingRequired(variable, value)) {
+      issues.push({ name: variable.name, value: '', error: { kind: 'required' } });
+      continue;
+    }
+    if (!variable.type || variable.type === 'string') continue;
+    // ランダムに選ぶ変数は生成時に選ぶので検証しない
+    if (needsRandomPick(variable, value)) continue;
+    const candidates = Array.isArray(value)
+      ? value
+      : [value !== undefined && value !== '' ? value : (variable.defaultValue ?? '')];
+    for (const candidate of candidates) {
+      const error = validateVariableValue(variable, candidate);
+      if (error) issues.push({ name: variable.name, value: candidate, error });
+    }
+  }
+  return issues;
+}
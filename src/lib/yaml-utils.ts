@@ -1,52 +1,261 @@
 import yaml from 'js-yaml';
+import { VARIABLE_SCHEMA_KEY, bindVariables, extractVariablesWithPath, resolveVariables } from './variable-utils';
+import type { VariableDefinition, VariableValues } from './variable-utils';
+import { applyConditionals, evaluateExpression, TemplateExpressionError } from './template-conditions';
 
 export interface FileData {
   [key: string]: string;
 }
 
+// _layers の要素（when があれば条件が成り立つときだけマージ）
+// with: 参照先のファイル（とその _base / _layers）の変数に渡す値。マージ前に埋め込む
+// _base もオブジェクト形式で with を渡せる（when は使わない）
+export interface LayerEntry {
+  file: string;
+  when?: string;
+  with?: VariableValues;
+}
+
 export interface ParsedYaml {
-  _base?: string;
-  _layers?: string[];
+  _base?: string | LayerEntry;
+  _layers?: (string | LayerEntry)[];
   _replace?: string[];
+  _remove?: string[];
+  _append?: Record<string, unknown>;
+  _prepend?: Record<string, unknown>;
   [key: string]: unknown;
 }
 
+// マージ用のディレクティブ（データとしてはマージしない）
+const MERGE_DIRECTIVES = new Set(['_base', '_layers', '_replace', '_remove', '_append', '_prepend']);
+
 // ファイル読み込み関数の型
 export type FileReader = (path: string) => Promise<string | null>;
 
+// 参照パスを解決
+// "./" や "../" で始まる場合は参照元ファイルのフォルダからの相対パス、それ以外はテンプレートルートからのパス
+export function resolveReferencePath(from: string, reference: string): string {
+  const ref = reference.trim();
+  const isRelative = ref.startsWith('./') || ref.startsWith('../');
+  const baseDir = isRelative ? from.split('/').slice(0, -1) : [];
+  const segments = [...baseDir];
+  for (const segment of ref.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+// from のフォルダから to への相対参照（"./" または "../" 始まり）を作る
+export function toRelativeReference(from: string, to: string): string {
+  const fromDir = from.split('/').slice(0, -1);
+  const toParts = to.split('/');
+  let common = 0;
+  while (common < fromDir.length && common < toParts.length - 1 && fromDir[common] === toParts[common]) {
+    common++;
+  }
+  const ups = fromDir.length - common;
+  const rest = toParts.slice(common).join('/');
+  return ups === 0 ? `./${rest}` : `${'../'.repeat(ups)}${rest}`;
+}
+
+// 参照がグロブパターン（* や ?）を含むか
+export function isGlobReference(reference: string): boolean {
+  return /[*?]/.test(reference);
+}
+
+// グロブパターンを正規表現に変換（** はフォルダをまたぐ、* と ? はフォルダ内）
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// 参照を実際のファイルパスのリストに展開（グロブは fileList から一致するものを名前順に）
+// 参照元ファイル自身はグロブの結果に含めない
+export function expandReference(from: string, reference: string, fileList: string[]): string[] {
+  const resolved = resolveReferencePath(from, reference);
+  if (!isGlobReference(resolved)) return [resolved];
+  const regex = globToRegExp(resolved);
+  return fileList
+    .filter((path) => path !== from && regex.test(path))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+// 1つの参照を移動後のパスに合わせて書き換える
+function rewriteReference(
+  reference: string,
+  oldPath: string,
+  newPath: string,
+  mapPath: (path: string) => string
+): string {
+  const target = resolveReferencePath(oldPath, reference);
+  let newTarget: string;
+  if (isGlobReference(target)) {
+    // グロブはワイルドカードより前のフォルダ部分だけを移動先に合わせる
+    const segments = target.split('/');
+    const wildcardIndex = segments.findIndex((segment) => isGlobReference(segment));
+    const prefix = segments.slice(0, wildcardIndex).join('/');
+    const rest = segments.slice(wildcardIndex).join('/');
+    newTarget = prefix ? `${mapPath(prefix)}/${rest}` : rest;
+  } else {
+    newTarget = mapPath(target);
+  }
+
+  const ref = reference.trim();
+  if (ref.startsWith('./') || ref.startsWith('../')) {
+    // 相対参照: 移動後も同じファイルを指すならそのまま
+    if (resolveReferencePath(newPath, ref) === newTarget) return reference;
+    return toRelativeReference(newPath, newTarget);
+  }
+  return newTarget === target ? reference : newTarget;
+}
+
+// ファイル・フォルダの移動やリネームに合わせて _base / _layers の参照を書き換える
+// oldPath / newPath: このファイルの移動前後のパス（移動していなければ同じ）
+// mapPath: 移動前のパス → 移動後のパス（対象外のパスはそのまま返す）
+// 書式（クォート・コメント・インデント）は維持する
+export function rewriteReferences(
+  content: string,
+  oldPath: string,
+  newPath: string,
+  mapPath: (path: string) => string
+): string {
+  const rewrite = (reference: string) => rewriteReference(reference, oldPath, newPath, mapPath);
+  let inLayers = false;
+  // with: のキーの列（その下の行は引数の値なので書き換えない）
+  let withIndent: number | null = null;
+
+  return content
+    .split('\n')
+    .map((line) => {
+      // オブジェクト形式: _base: { file: x.yaml, with: ... }
+      const flowBaseMatch = line.match(/^(\s*_base\s*:\s*\{.*?\bfile\s*:\s*)(['"]?)([^,'"}]+?)\2(\s*[,}].*)$/);
+      if (flowBaseMatch) {
+        inLayers = false;
+        const [, prefix, quote, reference, suffix] = flowBaseMatch;
+        return `${prefix}${quote}${rewrite(reference)}${quote}${suffix}`;
+      }
+
+      const baseMatch = line.match(/^(\s*_base\s*:\s*)(['"]?)([^'"#{]+?)\2(\s*(?:#.*)?)$/);
+      if (baseMatch) {
+        inLayers = false;
+        const [, prefix, quote, reference, suffix] = baseMatch;
+        return `${prefix}${quote}${rewrite(reference)}${quote}${suffix}`;
+      }
+
+      // インライン形式: _layers: [a.yaml, b.yaml]
+      const flowMatch = line.match(/^(\s*_layers\s*:\s*)\[(.*)\](\s*(?:#.*)?)$/);
+      if (flowMatch) {
+        inLayers = false;
+        const [, prefix, items, suffix] = flowMatch;
+        const rewritten = items.split(',').map((item) => {
+          const itemMatch = item.match(/^(\s*)(['"]?)(.*?)\2(\s*)$/);
+          if (!itemMatch || !itemMatch[3]) return item;
+          const [, lead, quote, reference, trail] = itemMatch;
+          return `${lead}${quote}${rewrite(reference)}${quote}${trail}`;
+        });
+        return `${prefix}[${rewritten.join(',')}]${suffix}`;
+      }
+
+      // _layers のブロック、またはブロック形式の _base（次の行に file: / with:）
+      if (/^\s*(_layers|_base)\s*:\s*(#.*)?$/.test(line)) {
+        inLayers = true;
+        withIndent = null;
+        return line;
+      }
+
+      if (inLayers) {
+        if (withIndent !== null) {
+          const indent = line.search(/\S/);
+          if (indent === -1 || line.trim().startsWith('#') || indent > withIndent) return line;
+          withIndent = null;
+        }
+        const withMatch = line.match(/^(\s*(?:-\s*)?)with\s*:\s*(#.*)?$/);
+        if (withMatch) {
+          withIndent = withMatch[1].length;
+          return line;
+        }
+
+        // 条件付きレイヤー・引数付きの参照: "- file: x.yaml" / "  file: x.yaml" / "- { file: x.yaml, when: ... }"
+        const fileMatch = line.match(/^(\s*(?:-\s*)?file\s*:\s*)(['"]?)([^'"#]+?)\2(\s*(?:#.*)?)$/);
+        if (fileMatch) {
+          const [, prefix, quote, reference, suffix] = fileMatch;
+          return `${prefix}${quote}${rewrite(reference)}${quote}${suffix}`;
+        }
+        const flowFileMatch = line.match(/^(\s*-\s*\{.*?\bfile\s*:\s*)(['"]?)([^,'"}]+?)\2(\s*[,}].*)$/);
+        if (flowFileMatch) {
+          const [, prefix, quote, reference, suffix] = flowFileMatch;
+          return `${prefix}${quote}${rewrite(reference)}${quote}${suffix}`;
+        }
+        // "- when: ..." のようなマッピングの行は参照ではない
+        const itemMatch = line.match(/^(\s*-\s*)(['"]?)([^'"#]+?)\2(\s*(?:#.*)?)$/);
+        if (itemMatch && !/^[\w-]+\s*:(\s|$)/.test(itemMatch[3])) {
+          const [, prefix, quote, reference, suffix] = itemMatch;
+          return `${prefix}${quote}${rewrite(reference)}${quote}${suffix}`;
+        }
+        // 空行・コメント・インデントされた行は _layers ブロックの続き
+        if (line.trim() && !line.trim().startsWith('#') && !/^\s/.test(line)) {
+          inLayers = false;
+        }
+      }
+      return line;
+    })
+    .join('\n');
+}
+
 // 深いマージ（overlay が base を上書き）
 // replaceKeys: これらのキーは深いマージせず完全置換
+//   "outfit" のようなキー名はどの階層でも一致、"appearance.hair" のようなドット区切りはそのパスのみ
+// path: base / overlay のルートからのパス（再帰用）
 export function deepMerge<T extends Record<string, unknown>>(
   base: T,
   overlay: Partial<T>,
-  replaceKeys: Set<string> = new Set()
+  replaceKeys: Set<string> = new Set(),
+  path: string[] = []
 ): T {
   const result = { ...base };
 
   for (const key of Object.keys(overlay) as (keyof T)[]) {
-    if (key === '_base' || key === '_layers' || key === '_replace') continue;
+    if (MERGE_DIRECTIVES.has(key as string)) continue;
 
     const baseVal = result[key];
     const overlayVal = overlay[key];
+    const keyPath = [...path, key as string];
 
     // _replace で指定されたキーは完全置換
-    if (replaceKeys.has(key as string)) {
+    if (replaceKeys.has(key as string) || replaceKeys.has(keyPath.join('.'))) {
       result[key] = overlayVal as T[keyof T];
       continue;
     }
 
-    if (
-      baseVal &&
-      typeof baseVal === 'object' &&
-      !Array.isArray(baseVal) &&
-      overlayVal &&
-      typeof overlayVal === 'object' &&
-      !Array.isArray(overlayVal)
-    ) {
-      result[key] = deepMerge(
-        baseVal as Record<string, unknown>,
-        overlayVal as Record<string, unknown>,
-        replaceKeys
+    if (isPlainObject(baseVal) && isPlainObject(overlayVal)) {
+      result[key] = deepMerge<Record<string, unknown>>(
+        baseVal,
+        overlayVal,
+        replaceKeys,
+        keyPath
       ) as T[keyof T];
     } else if (overlayVal !== undefined) {
       result[key] = overlayVal as T[keyof T];
@@ -56,105 +265,878 @@ export function deepMerge<T extends Record<string, unknown>>(
   return result;
 }
 
-// ファイルを解決してマージ（同期版 - キャッシュ済みファイル用）
-export function resolveAndMerge(
-  filename: string,
-  files: FileData
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// ドット区切りのパスの値を取得
+function getAtPath(data: Record<string, unknown>, parts: string[]): unknown {
+  let current: unknown = data;
+  for (const part of parts) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[part];
+  }
+  return current;
+}
+
+// ドット区切りのパスに値を設定（途中のオブジェクトはコピーして作り直す）
+function setAtPath(
+  data: Record<string, unknown>,
+  parts: string[],
+  value: unknown
 ): Record<string, unknown> {
-  const content = files[filename];
-  if (!content) {
-    console.warn(`File not found: ${filename}`);
-    return {};
+  const [head, ...rest] = parts;
+  if (rest.length === 0) return { ...data, [head]: value };
+  const child = isPlainObject(data[head]) ? data[head] : {};
+  return { ...data, [head]: setAtPath(child, rest, value) };
+}
+
+// ドット区切りのパスのキーを削除（存在しなければそのまま返す）
+function removeAtPath(data: Record<string, unknown>, parts: string[]): Record<string, unknown> {
+  const [head, ...rest] = parts;
+  if (!(head in data)) return data;
+  if (rest.length === 0) {
+    const result = { ...data };
+    delete result[head];
+    return result;
   }
+  const child = data[head];
+  if (!isPlainObject(child)) return data;
+  return { ...data, [head]: removeAtPath(child, rest) };
+}
 
-  let parsed: ParsedYaml;
-  try {
-    parsed = yaml.load(content) as ParsedYaml;
-  } catch {
-    // パースエラーは編集中に頻繁に発生するので、警告レベルで静かに処理
-    return {};
+// 値の出どころ（ファイルと行）
+export interface ValueSource {
+  file: string;
+  line?: number; // 1始まり
+}
+
+// マージ結果の各リーフパスの出どころ
+// file/line: 最後に書き込んだファイル, overridden: 上書きされたファイル（適用順）
+export interface ProvenanceEntry extends ValueSource {
+  overridden: ValueSource[];
+}
+
+// リーフパス（例: "lighting.key"）→ 出どころ
+export type ProvenanceMap = Record<string, ProvenanceEntry>;
+
+// YAMLテキストを行単位で走査し、各行のキーパスを返す
+// 配列要素・ブロックスカラーの行は親キー（値全体がリーフ）のパスになる
+// キーに属さない行（空行・コメント）は null
+export function mapYamlLinesToPaths(content: string): (string | null)[] {
+  const stack: { indent: number; key: string }[] = [];
+  // 配列・ブロックスカラーを値に持つキー（より深い行はすべてこのキーに属する）
+  let leafOwner: { indent: number } | null = null;
+  const result: (string | null)[] = [];
+  const currentPath = () => (stack.length > 0 ? stack.map((s) => s.key).join('.') : null);
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    const indent = line.length - line.trimStart().length;
+
+    if (!trimmed || trimmed.startsWith('#')) {
+      result.push(null);
+      continue;
+    }
+
+    if (leafOwner) {
+      const isSequenceItem = trimmed.startsWith('-');
+      if (indent > leafOwner.indent || (indent === leafOwner.indent && isSequenceItem)) {
+        result.push(currentPath());
+        continue;
+      }
+      leafOwner = null;
+    }
+
+    // 配列の最初の要素（"key:" の直後、同じインデントの "- " も許容）
+    if (trimmed.startsWith('-')) {
+      while (stack.length > 0 && stack[stack.length - 1].indent > indent) {
+        stack.pop();
+      }
+      if (stack.length > 0) {
+        leafOwner = { indent: stack[stack.length - 1].indent };
+      }
+      result.push(currentPath());
+      continue;
+    }
+
+    const keyMatch = trimmed.match(/^(["']?)([^"'#:\s][^"'#:]*?)\1\s*:(?:\s+(.*))?$/);
+    if (!keyMatch) {
+      // 複数行にわたるスカラー値の続き
+      result.push(currentPath());
+      continue;
+    }
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+    stack.push({ indent, key: keyMatch[2].trim() });
+    result.push(currentPath());
+
+    // ブロックスカラー（| や >）の中身はこのキーに属する
+    if (/^[|>][-+0-9]*\s*(#.*)?$/.test(keyMatch[3] ?? '')) {
+      leafOwner = { indent };
+    }
   }
 
-  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  return result;
+}
+
+// キーパス → 最初に現れた行番号（1始まり）
+function buildKeyLineMap(content: string): Map<string, number> {
+  const map = new Map<string, number>();
+  mapYamlLinesToPaths(content).forEach((path, index) => {
+    if (path && !map.has(path)) {
+      map.set(path, index + 1);
+    }
+  });
+  return map;
+}
 
-  // _replace キーを収集
-  const replaceKeys = new Set<string>(parsed._replace || []);
+// オブジェクトのリーフパスを列挙（配列・スカラーがリーフ、トップレベルの _ キーは除外）
+function collectLeafPaths(value: unknown, prefix: string[] = [], paths: string[] = []): string[] {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (entries.length === 0 && prefix.length > 0) {
+      paths.push(prefix.join('.'));
+    }
+    for (const [key, child] of entries) {
+      if (prefix.length === 0 && key.startsWith('_')) continue;
+      collectLeafPaths(child, [...prefix, key], paths);
+    }
+  } else if (prefix.length > 0) {
+    paths.push(prefix.join('.'));
+  }
+  return paths;
+}
 
-  // _base があれば読み込んでマージのベースにする
-  let result: Record<string, unknown> = {};
-  if (parsed._base) {
-    result = resolveAndMerge(parsed._base, files);
+// ファイル自身が書き込んだリーフパスの出どころ
+function buildOwnProvenance(
+  file: string,
+  lineMap: Map<string, number>,
+  data: Record<string, unknown>
+): ProvenanceMap {
+  const provenance: ProvenanceMap = {};
+  for (const path of collectLeafPaths(data)) {
+    provenance[path] = { file, line: lineMap.get(path), overridden: [] };
   }
+  return provenance;
+}
+
+function sameSource(a: ValueSource, b: ValueSource): boolean {
+  return a.file === b.file && a.line === b.line;
+}
+
+// deepMerge と同じ規則で出どころをマージ
+// merged: deepMerge(base, overlay) の結果（残ったリーフパスの判定に使用）
+function mergeProvenance(
+  base: ProvenanceMap,
+  overlay: ProvenanceMap,
+  merged: Record<string, unknown>
+): ProvenanceMap {
+  const result: ProvenanceMap = {};
+  const mergedPaths = collectLeafPaths(merged);
 
-  // _layers を順番にマージ
-  if (parsed._layers && Array.isArray(parsed._layers)) {
-    for (const layerFile of parsed._layers) {
-      const layerData = resolveAndMerge(layerFile, files);
-      result = deepMerge(result, layerData);
+  for (const path of mergedPaths) {
+    const over = overlay[path];
+    const prev = base[path];
+    if (over && prev) {
+      result[path] = {
+        ...over,
+        overridden: [...prev.overridden, { file: prev.file, line: prev.line }, ...over.overridden],
+      };
+    } else if (over) {
+      result[path] = { ...over, overridden: [...over.overridden] };
+    } else if (prev) {
+      result[path] = prev;
     }
   }
 
-  // 最後に自分自身をマージ（_replaceを適用）
-  result = deepMerge(result, parsed as Record<string, unknown>, replaceKeys);
+  // 置換・型の変更で消えたベース側のパスは、それを消したリーフの上書き元として記録
+  const remaining = new Set(mergedPaths);
+  const dropped = new Map<string, ValueSource[]>();
+  for (const [path, prev] of Object.entries(base)) {
+    if (remaining.has(path)) continue;
+    const parts = path.split('.');
+    for (let depth = parts.length - 1; depth >= 1; depth--) {
+      const ancestor = parts.slice(0, depth).join('.');
+      const winners = mergedPaths.filter(
+        (p) => (p === ancestor || p.startsWith(ancestor + '.')) && overlay[p]
+      );
+      if (winners.length === 0) continue;
+      for (const winner of winners) {
+        dropped.set(winner, [...(dropped.get(winner) ?? []), { file: prev.file, line: prev.line }]);
+      }
+      break;
+    }
+  }
+  for (const [winner, sources] of dropped) {
+    const entry = result[winner];
+    const extra = sources.filter((source) => !entry.overridden.some((s) => sameSource(s, source)));
+    entry.overridden = [...extra, ...entry.overridden];
+  }
 
   return result;
 }
 
-// ファイルを解決してマージ（非同期版 - 動的読み込み）
-export async function resolveAndMergeAsync(
-  filename: string,
-  files: FileData,
-  readFile: FileReader
-): Promise<Record<string, unknown>> {
-  // キャッシュになければ読み込み
-  let content = files[filename];
-  if (!content) {
-    const loaded = await readFile(filename);
-    if (!loaded) {
-      console.warn(`File not found: ${filename}`);
-      return {};
+// マージ診断の種類
+// cycle: 循環参照, missing: 参照先ファイルなし, parse: YAML構文エラー, diamond: 同じファイルを複数経路で参照
+// type: _append / _prepend の対象が配列（またはスカラー）でない
+// remove: _remove のパスに削除するキーがない
+// condition: _if / _cases / when の条件式が不正（reference は条件式）
+export type MergeDiagnosticKind = 'cycle' | 'missing' | 'parse' | 'diamond' | 'type' | 'remove' | 'condition';
+
+// マージ診断（どのファイルで何が見つかったか）
+export interface MergeDiagnostic {
+  kind: MergeDiagnosticKind;
+  severity: 'error' | 'warning' | 'info';
+  file: string; // 問題が見つかったファイル
+  message: string;
+  reference?: string; // 参照先ファイル（cycle / missing / diamond）、対象のキーパス（type / remove）、条件式（condition）
+  chain?: string[]; // 参照経路（cycle / diamond）
+  line?: number; // 1始まり
+  column?: number; // 1始まり
+}
+
+// マージ結果（データ + 出どころ + 診断）
+// data には _if / _cases の条件を適用済み
+// conditionVariables: _layers の when 条件・_if / _cases の条件で使われている変数（変数フォーム用）
+export interface MergeResult {
+  data: Record<string, unknown>;
+  provenance: ProvenanceMap;
+  diagnostics: MergeDiagnostic[];
+  conditionVariables: VariableDefinition[];
+}
+
+// マージのオプション
+export interface MergeOptions {
+  fileList?: string[]; // グロブ展開に使うテンプレートのパス一覧（省略時はキャッシュ済みファイル）
+  variables?: VariableValues; // _layers の when 条件・_if / _cases の条件の評価に使う変数の値
+}
+
+// マージ途中の結果
+interface ResolvedFile {
+  data: Record<string, unknown>;
+  provenance: ProvenanceMap;
+}
+
+// データと出どころを同時にマージ
+function mergeResolved(base: ResolvedFile, overlay: ResolvedFile): ResolvedFile {
+  const data = deepMerge(base.data, overlay.data);
+  return { data, provenance: mergeProvenance(base.provenance, overlay.provenance, data) };
+}
+
+// _replace / _remove の値をパスの一覧にする（単一の文字列も可）
+function toPathList(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (!Array.isArray(value)) return [];
+  return value.filter((item) => item !== null && item !== undefined).map(String);
+}
+
+// _remove: それまでのマージ結果からパスを削除（出どころも配下ごと削除）
+// 削除するものがなければ null
+function removeResolvedPath(resolved: ResolvedFile, path: string): ResolvedFile | null {
+  const parts = path.split('.');
+  const parent = parts.length > 1 ? getAtPath(resolved.data, parts.slice(0, -1)) : resolved.data;
+  if (!isPlainObject(parent) || !(parts[parts.length - 1] in parent)) return null;
+
+  const data = removeAtPath(resolved.data, parts);
+  const provenance: ProvenanceMap = {};
+  for (const [key, entry] of Object.entries(resolved.provenance)) {
+    if (key !== path && !key.startsWith(path + '.')) provenance[key] = entry;
+  }
+  return { data, provenance };
+}
+
+// パスの値を、ファイルの解決を始める前の状態（outer）に戻す（出どころも配下ごと戻す）
+// _replace はファイル自身の _base / _layers が持ち込んだ内容だけに作用し、
+// 参照元やそれ以前のレイヤーがマージした内容はそのまま残る
+function restoreResolvedPath(resolved: ResolvedFile, outer: ResolvedFile, path: string): ResolvedFile {
+  const parts = path.split('.');
+  if (parts.length > 1 && !isPlainObject(getAtPath(resolved.data, parts.slice(0, -1)))) return resolved;
+
+  const previous = getAtPath(outer.data, parts);
+  const data = previous === undefined
+    ? removeAtPath(resolved.data, parts)
+    : setAtPath(resolved.data, parts, previous);
+  const isUnder = (key: string) => key === path || key.startsWith(path + '.');
+  const provenance: ProvenanceMap = {};
+  for (const [key, entry] of Object.entries(resolved.provenance)) {
+    if (!isUnder(key)) provenance[key] = entry;
+  }
+  for (const [key, entry] of Object.entries(outer.provenance)) {
+    if (isUnder(key)) provenance[key] = entry;
+  }
+  return { data, provenance };
+}
+
+// _replace に一致する自分自身のキーのパス（deepMerge と同じ規則: キー名はどの階層でも、ドット区切りはそのパスのみ）
+function collectReplacePaths(
+  data: Record<string, unknown>,
+  replaceKeys: Set<string>,
+  prefix: string[] = []
+): string[] {
+  const paths: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (MERGE_DIRECTIVES.has(key)) continue;
+    const path = [...prefix, key];
+    if (replaceKeys.has(key) || replaceKeys.has(path.join('.'))) {
+      paths.push(path.join('.'));
+    } else if (isPlainObject(value)) {
+      paths.push(...collectReplacePaths(value, replaceKeys, path));
+    }
+  }
+  return paths;
+}
+
+// _append / _prepend の値を「パス → 追加する値」に展開
+// ネストしたマップ（appearance: { accessories: [...] }）とドット区切りのキー（appearance.accessories）の両方に対応
+function flattenListOperations(
+  value: Record<string, unknown>,
+  prefix: string[] = []
+): [string, unknown][] {
+  const operations: [string, unknown][] = [];
+  for (const [key, child] of Object.entries(value)) {
+    const path = [...prefix, key];
+    if (isPlainObject(child) && Object.keys(child).length > 0) {
+      operations.push(...flattenListOperations(child, path));
+    } else {
+      operations.push([path.join('.'), child]);
     }
-    content = loaded;
-    files[filename] = content; // キャッシュに追加
   }
+  return operations;
+}
+
+// 途中にスカラー・配列があるパスには追加できない
+function isListPath(data: Record<string, unknown>, parts: string[]): boolean {
+  let current: unknown = data;
+  for (const part of parts) {
+    if (current === undefined) return true;
+    if (!isPlainObject(current)) return false;
+    current = current[part];
+  }
+  return !isPlainObject(current);
+}
+
+// _append / _prepend: それまでのマージ結果の配列に要素を追加
+// 既存の値がスカラーなら1要素の配列として扱い、値がなければ新しい配列を作る
+function applyListOperations(
+  ctx: ResolveContext,
+  resolved: ResolvedFile,
+  file: string,
+  lineMap: Map<string, number>,
+  directive: '_append' | '_prepend',
+  operations: unknown
+): ResolvedFile {
+  if (!isPlainObject(operations)) return resolved;
+
+  let { data, provenance } = resolved;
+  for (const [path, value] of flattenListOperations(operations)) {
+    const parts = path.split('.');
+    const line = lineMap.get(`${directive}.${path}`) ?? lineMap.get(directive);
+    if (!isListPath(data, parts)) {
+      ctx.diagnostics.push({
+        kind: 'type',
+        severity: 'warning',
+        file,
+        message: `${directive}: ${path} is not a list`,
+        reference: path,
+        line,
+      });
+      continue;
+    }
 
+    const current = getAtPath(data, parts);
+    const existing = current === undefined || current === null ? [] : Array.isArray(current) ? current : [current];
+    const items = Array.isArray(value) ? value : [value];
+    data = setAtPath(data, parts, directive === '_append' ? [...existing, ...items] : [...items, ...existing]);
+
+    // 出どころ: 追加したファイルを最新とし、それまでの要素の出どころは上書き元として残す
+    const prev = provenance[path];
+    const next: ProvenanceMap = {};
+    for (const [key, entry] of Object.entries(provenance)) {
+      // 空オブジェクトだった親はリーフではなくなる
+      if (!path.startsWith(key + '.')) {
+        next[key] = entry;
+      }
+    }
+    next[path] = {
+      file,
+      line,
+      overridden: prev ? [...prev.overridden, { file: prev.file, line: prev.line }] : [],
+    };
+    provenance = next;
+  }
+  return { data, provenance };
+}
+
+// ファイル自身の内容を、それまでのマージ結果に適用
+// _remove → 自分自身（_replace を適用） → _prepend / _append の順
+// outer: このファイルの _base / _layers を解決する前のマージ結果（_replace で使う）
+function applyOwnContent(
+  ctx: ResolveContext,
+  file: string,
+  content: string,
+  parsed: ParsedYaml,
+  outer: ResolvedFile
+) {
+  const lineMap = buildKeyLineMap(content);
+  let result = ctx.result;
+  const own = parsed as Record<string, unknown>;
+
+  // 削除はそれまでのマージ結果全体に作用する（レイヤーから継承したキーも削除できる）
+  for (const path of toPathList(parsed._remove)) {
+    const removed = removeResolvedPath(result, path);
+    if (removed) {
+      result = removed;
+    } else {
+      ctx.diagnostics.push({
+        kind: 'remove',
+        severity: 'warning',
+        file,
+        message: `_remove: ${path} does not exist`,
+        reference: path,
+        line: lineMap.get('_remove'),
+      });
+    }
+  }
+  // 置換するキーは _base / _layers の値を捨て、参照元までの値に自分自身を深いマージする
+  for (const path of collectReplacePaths(own, new Set(toPathList(parsed._replace)))) {
+    result = restoreResolvedPath(result, outer, path);
+  }
+
+  result = mergeResolved(result, { data: own, provenance: buildOwnProvenance(file, lineMap, own) });
+
+  result = applyListOperations(ctx, result, file, lineMap, '_prepend', parsed._prepend);
+  result = applyListOperations(ctx, result, file, lineMap, '_append', parsed._append);
+  ctx.result = result;
+}
+
+// 参照文字列が書かれている行・列を探す（_base / _layers 内の位置）
+function findReferencePosition(
+  content: string,
+  reference: string
+): { line: number; column: number } | undefined {
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (!/^\s*(_base\s*:|_layers\s*:|-|file\s*:)/.test(line)) continue;
+    const index = line.indexOf(reference);
+    if (index !== -1) {
+      return { line: i + 1, column: index + 1 };
+    }
+  }
+  return undefined;
+}
+
+// YAMLをパースし、エラーは診断として記録
+function parseTemplate(
+  filename: string,
+  content: string,
+  diagnostics: MergeDiagnostic[]
+): ParsedYaml | null {
   let parsed: ParsedYaml;
   try {
     parsed = yaml.load(content) as ParsedYaml;
-  } catch {
-    return {};
+  } catch (error) {
+    // パースエラーは編集中に頻繁に発生するので、console には出さず診断にのみ記録
+    // ダイヤモンド参照で同じファイルを再度パースした場合は重複させない
+    if (diagnostics.some((d) => d.kind === 'parse' && d.file === filename)) return null;
+    const mark = error instanceof yaml.YAMLException ? error.mark : undefined;
+    diagnostics.push({
+      kind: 'parse',
+      severity: 'error',
+      file: filename,
+      message: error instanceof yaml.YAMLException ? error.reason : String(error),
+      line: mark ? mark.line + 1 : undefined,
+      column: mark ? mark.column + 1 : undefined,
+    });
+    return null;
   }
 
-  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return {};
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  return parsed;
+}
 
-  // _replace キーを収集
-  const replaceKeys = new Set<string>(parsed._replace || []);
+// 参照元（診断の位置特定用）
+interface Referrer {
+  file: string;
+  content: string;
+  reference: string; // ファイルに書かれた参照文字列
+  hasBindings?: boolean; // with で値を渡している（同じファイルを別の値で使うのはダイヤモンドとして報告しない）
+}
 
-  // _base があれば読み込んでマージのベースにする
-  let result: Record<string, unknown> = {};
-  if (parsed._base) {
-    result = await resolveAndMergeAsync(parsed._base, files, readFile);
+// マージ中の状態
+// _base → _layers → 自分自身 の順に辿り、各ファイルの内容を result に順番に適用する
+// （_append / _prepend / _remove はそれまでにマージされた内容全体に、_replace はそのファイルの
+//   _base / _layers が持ち込んだ内容だけに作用する）
+interface ResolveContext {
+  diagnostics: MergeDiagnostic[];
+  stack: string[]; // 現在の参照経路（祖先）
+  resolved: Map<string, string[]>; // 解決済みファイル → 最初に到達した経路
+  result: ResolvedFile;
+  fileList: string[];
+  variables: VariableValues;
+  conditionVariables: Map<string, VariableDefinition>;
+}
+
+function createResolveContext(fileList: string[], variables: VariableValues = {}): ResolveContext {
+  return {
+    diagnostics: [],
+    stack: [],
+    resolved: new Map(),
+    result: { data: {}, provenance: {} },
+    fileList,
+    variables,
+    conditionVariables: new Map(),
+  };
+}
+
+function finishResolve(ctx: ResolveContext, filename: string): MergeResult {
+  applyResolvedConditionals(ctx, filename);
+  return {
+    ...ctx.result,
+    diagnostics: ctx.diagnostics,
+    conditionVariables: Array.from(ctx.conditionVariables.values()),
+  };
+}
+
+// 条件式の変数を変数フォーム用に記録
+function collectConditionVariables(ctx: ResolveContext, expression: string, path: string[]) {
+  for (const variable of extractVariablesWithPath(expression, path)) {
+    if (!ctx.conditionVariables.has(variable.name)) {
+      ctx.conditionVariables.set(variable.name, variable);
+    }
   }
+}
+
+// マージ結果に _if / _cases を適用（出どころも残ったリーフに合わせる）
+// 不正な条件式は偽として扱い、書かれていたファイル・行を診断に記録
+function applyResolvedConditionals(ctx: ResolveContext, filename: string) {
+  const { provenance } = ctx.result;
+  // パスかその祖先（配列の要素はリーフにならない）の出どころ
+  const findSource = (path: string[]): ProvenanceEntry | undefined => {
+    for (let depth = path.length; depth > 0; depth--) {
+      const entry = provenance[path.slice(0, depth).join('.')];
+      if (entry) return entry;
+    }
+    return undefined;
+  };
+
+  const data = applyConditionals(ctx.result.data, ctx.variables, {
+    onCondition: (path, expression) => collectConditionVariables(ctx, expression, path),
+    onError: (path, expression, error) => {
+      const source = findSource(path);
+      ctx.diagnostics.push({
+        kind: 'condition',
+        severity: 'error',
+        file: source?.file ?? filename,
+        message: error.message,
+        reference: expression,
+        line: source?.line,
+      });
+    },
+  });
 
-  // _layers を順番にマージ
-  if (parsed._layers && Array.isArray(parsed._layers)) {
-    for (const layerFile of parsed._layers) {
-      const layerData = await resolveAndMergeAsync(layerFile, files, readFile);
-      result = deepMerge(result, layerData);
+  // _cases で選ばれた値のリーフは _cases の出どころを引き継ぐ
+  const next: ProvenanceMap = {};
+  for (const path of collectLeafPaths(data)) {
+    const parts = path.split('.');
+    let entry: ProvenanceEntry | undefined = provenance[path];
+    for (let depth = parts.length; !entry && depth > 0; depth--) {
+      entry = provenance[`${parts.slice(0, depth).join('.')}._cases`];
     }
+    if (entry) next[path] = entry;
   }
+  ctx.result = { data, provenance: next };
+}
 
-  // 最後に自分自身をマージ（_replaceを適用）
-  result = deepMerge(result, parsed as Record<string, unknown>, replaceKeys);
+// 参照を辿る前のチェック（循環なら false を返してスキップ）
+function enterReference(
+  ctx: ResolveContext,
+  filename: string,
+  referrer: Referrer | null
+): boolean {
+  const position = referrer ? findReferencePosition(referrer.content, referrer.reference) : undefined;
 
-  return result;
+  // 祖先に同じファイルがある → 循環参照
+  const cycleStart = ctx.stack.indexOf(filename);
+  if (cycleStart !== -1) {
+    const chain = [...ctx.stack.slice(cycleStart), filename];
+    ctx.diagnostics.push({
+      kind: 'cycle',
+      severity: 'error',
+      file: referrer?.file ?? filename,
+      message: `Circular reference: ${chain.join(' -> ')}`,
+      reference: filename,
+      chain,
+      ...position,
+    });
+    return false;
+  }
+
+  // 祖先以外の経路で既に解決済み → ダイヤモンド（エラーではないが二重にマージされる）
+  const firstChain = ctx.resolved.get(filename);
+  if (firstChain && referrer && !referrer.hasBindings) {
+    ctx.diagnostics.push({
+      kind: 'diamond',
+      severity: 'info',
+      file: referrer.file,
+      message: `${filename} is also included via ${firstChain.join(' -> ')}`,
+      reference: filename,
+      chain: [...ctx.stack, filename],
+      ...position,
+    });
+  }
+
+  ctx.stack.push(filename);
+  return true;
+}
+
+function leaveReference(ctx: ResolveContext, filename: string) {
+  ctx.stack.pop();
+  if (!ctx.resolved.has(filename)) {
+    ctx.resolved.set(filename, [...ctx.stack, filename]);
+  }
+}
+
+function reportMissing(
+  ctx: ResolveContext,
+  filename: string,
+  referrer: Referrer | null
+) {
+  ctx.diagnostics.push({
+    kind: 'missing',
+    severity: 'error',
+    file: referrer?.file ?? filename,
+    message: `File not found: ${filename}`,
+    reference: filename,
+    ...(referrer ? findReferencePosition(referrer.content, referrer.reference) : undefined),
+  });
+}
+
+// with の値を変数の値に正規化（数値・真偽値は文字列、null は空文字列）
+function normalizeBindings(value: unknown): VariableValues | undefined {
+  if (!isPlainObject(value)) return undefined;
+  const bindings: VariableValues = {};
+  for (const [name, item] of Object.entries(value)) {
+    bindings[name.trim()] = Array.isArray(item)
+      ? item.filter((v) => v !== null && v !== undefined).map(String)
+      : item === null || item === undefined ? '' : String(item);
+  }
+  return bindings;
+}
+
+// _base の値・_layers の要素を { file, when, with } に正規化（不正な要素は null）
+function normalizeLayer(layer: unknown): LayerEntry | null {
+  if (typeof layer === 'string') return { file: layer };
+  if (isPlainObject(layer) && typeof layer.file === 'string') {
+    return {
+      file: layer.file,
+      when: layer.when === undefined || layer.when === null ? undefined : String(layer.when),
+      with: normalizeBindings(layer.with),
+    };
+  }
+  return null;
+}
+
+// 参照元のスコープに with の値を重ねる（with の値に含まれる変数は参照元のスコープで先に置換済み）
+function extendScope(scope: VariableValues, bindings: VariableValues | undefined): VariableValues {
+  return bindings ? { ...scope, ...bindings } : scope;
+}
+
+// スコープの変数をファイルの内容に埋め込む
+// 値を渡した変数の _vars の宣言は、親の変数フォームに出さないよう取り除く
+function bindScope(parsed: ParsedYaml | null, scope: VariableValues): ParsedYaml | null {
+  if (!parsed || Object.keys(scope).length === 0) return parsed;
+  const bound = bindVariables(parsed, scope) as ParsedYaml;
+  const schema = bound[VARIABLE_SCHEMA_KEY];
+  if (isPlainObject(schema)) {
+    bound[VARIABLE_SCHEMA_KEY] = Object.fromEntries(
+      Object.entries(schema).filter(([name]) => !(name.trim() in scope))
+    );
+  }
+  return bound;
+}
+
+// when 条件を評価（不正な条件式はレイヤーをスキップして診断に記録）
+function evaluateLayerCondition(ctx: ResolveContext, file: string, content: string, condition: string): boolean {
+  try {
+    return evaluateExpression(condition, ctx.variables);
+  } catch (error) {
+    if (!(error instanceof TemplateExpressionError)) throw error;
+    ctx.diagnostics.push({
+      kind: 'condition',
+      severity: 'error',
+      file,
+      message: error.message,
+      reference: condition,
+      ...findConditionPosition(content, condition, error.column),
+    });
+    return false;
+  }
+}
+
+// 条件式が書かれている行・列を探す（column: 条件式の中の位置）
+function findConditionPosition(
+  content: string,
+  condition: string,
+  column: number
+): { line: number; column: number } | undefined {
+  const lines = content.split('\n');
+  for (let i = 0; i < lines.length; i++) {
+    const index = lines[i].indexOf(condition);
+    if (index !== -1) {
+      return { line: i + 1, column: index + column };
+    }
+  }
+  return undefined;
+}
+
+// _layers の参照を展開（グロブに一致するファイルがなければ診断に記録）
+// when 条件が成り立たないレイヤーはスキップ
+function expandLayers(
+  ctx: ResolveContext,
+  file: string,
+  content: string,
+  layers: unknown[]
+): { path: string; referrer: Referrer; bindings?: VariableValues }[] {
+  const expanded: { path: string; referrer: Referrer; bindings?: VariableValues }[] = [];
+  for (const layer of layers) {
+    const entry = normalizeLayer(layer);
+    if (!entry) continue;
+
+    if (entry.when !== undefined) {
+      collectConditionVariables(ctx, entry.when, ['_layers']);
+      if (!evaluateLayerCondition(ctx, file, content, entry.when)) continue;
+    }
+
+    const reference = entry.file;
+    const referrer = { file, content, reference, hasBindings: !!entry.with };
+    const paths = expandReference(file, reference, ctx.fileList);
+    if (paths.length === 0) {
+      reportMissing(ctx, resolveReferencePath(file, reference), referrer);
+    }
+    for (const path of paths) {
+      expanded.push({ path, referrer, bindings: entry.with });
+    }
+  }
+  return expanded;
+}
+
+// ファイルを解決してマージ（同期版 - キャッシュ済みファイル用）
+export function resolveAndMerge(
+  filename: string,
+  files: FileData,
+  options: MergeOptions = {}
+): MergeResult {
+  const ctx = createResolveContext(options.fileList ?? Object.keys(files), options.variables);
+  resolveFile(filename, null);
+  return finishResolve(ctx, filename);
+
+  function resolveFile(file: string, referrer: Referrer | null, scope: VariableValues = {}) {
+    if (!enterReference(ctx, file, referrer)) return;
+    try {
+      const content = files[file];
+      if (!content) {
+        reportMissing(ctx, file, referrer);
+        return;
+      }
+
+      // with で渡された値はマージ前に埋め込む（渡されていない変数は親の変数フォームへ）
+      const parsed = bindScope(parseTemplate(file, content, ctx.diagnostics), scope);
+      if (!parsed) return;
+      const outer = ctx.result;
+
+      // _base があれば先にマージ
+      const base = normalizeLayer(parsed._base);
+      if (base) {
+        const reference = base.file;
+        resolveFile(
+          resolveReferencePath(file, reference),
+          { file, content, reference, hasBindings: !!base.with },
+          extendScope(scope, base.with)
+        );
+      }
+
+      // _layers を順番にマージ（グロブは名前順に展開）
+      if (parsed._layers && Array.isArray(parsed._layers)) {
+        for (const layer of expandLayers(ctx, file, content, parsed._layers)) {
+          resolveFile(layer.path, layer.referrer, extendScope(scope, layer.bindings));
+        }
+      }
+
+      // 最後に自分自身を適用
+      applyOwnContent(ctx, file, content, parsed, outer);
+    } finally {
+      leaveReference(ctx, file);
+    }
+  }
+}
+
+// ファイルを解決してマージ（非同期版 - 動的読み込み）
+export async function resolveAndMergeAsync(
+  filename: string,
+  files: FileData,
+  readFile: FileReader,
+  options: MergeOptions = {}
+): Promise<MergeResult> {
+  const ctx = createResolveContext(options.fileList ?? Object.keys(files), options.variables);
+  await resolveFile(filename, null);
+  return finishResolve(ctx, filename);
+
+  async function resolveFile(file: string, referrer: Referrer | null, scope: VariableValues = {}) {
+    if (!enterReference(ctx, file, referrer)) return;
+    try {
+      // キャッシュになければ読み込み
+      let content = files[file];
+      if (!content) {
+        const loaded = await readFile(file);
+        if (!loaded) {
+          reportMissing(ctx, file, referrer);
+          return;
+        }
+        content = loaded;
+        files[file] = content; // キャッシュに追加
+      }
+
+      // with で渡された値はマージ前に埋め込む（渡されていない変数は親の変数フォームへ）
+      const parsed = bindScope(parseTemplate(file, content, ctx.diagnostics), scope);
+      if (!parsed) return;
+      const outer = ctx.result;
+
+      // _base があれば先にマージ
+      const base = normalizeLayer(parsed._base);
+      if (base) {
+        const reference = base.file;
+        await resolveFile(
+          resolveReferencePath(file, reference),
+          { file, content, reference, hasBindings: !!base.with },
+          extendScope(scope, base.with)
+        );
+      }
+
+      // _layers を順番にマージ（グロブは名前順に展開）
+      if (parsed._layers && Array.isArray(parsed._layers)) {
+        for (const layer of expandLayers(ctx, file, content, parsed._layers)) {
+          await resolveFile(layer.path, layer.referrer, extendScope(scope, layer.bindings));
+        }
+      }
+
+      // 最後に自分自身を適用
+      applyOwnContent(ctx, file, content, parsed, outer);
+    } finally {
+      leaveReference(ctx, file);
+    }
+  }
 }
 
 // 依存ファイルの内容を全て収集（変数抽出用）
 export async function collectAllContents(
   filename: string,
   files: FileData,
-  readFile: FileReader
+  readFile: FileReader,
+  fileList: string[] = Object.keys(files)
 ): Promise<string> {
   const contents: string[] = [];
   const visited = new Set<string>();
@@ -179,12 +1161,17 @@ export async function collectAllContents(
       const parsed = yaml.load(content) as ParsedYaml;
       if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return;
 
-      if (parsed._base) {
-        await collect(parsed._base);
+      const base = normalizeLayer(parsed._base);
+      if (base) {
+        await collect(resolveReferencePath(file, base.file));
       }
       if (parsed._layers && Array.isArray(parsed._layers)) {
-        for (const layerFile of parsed._layers) {
-          await collect(layerFile);
+        for (const layer of parsed._layers) {
+          const entry = normalizeLayer(layer);
+          if (!entry) continue;
+          for (const layerFile of expandReference(file, entry.file, fileList)) {
+            await collect(layerFile);
+          }
         }
       }
     } catch {
@@ -352,3 +1339,25 @@ export function excludeNegative(data: Record<string, unknown>): Record<string, u
 export function extractNegativePrompt(data: Record<string, unknown>): string {
   return formatNegativePrompt(data.negative);
 }
+
+// マージ結果に変数の値を適用して生成用のプロンプトを作る（negative は別に返す）
+// 画面表示と同じく、変数を展開したYAMLから空の値を除去してから negative を除外する
+export function renderPrompt(
+  data: Record<string, unknown>,
+  values: VariableValues
+): { prompt: string; negativePrompt: string } {
+  const resolvedYaml = cleanYamlString(resolveVariables(objectToYaml(data), values));
+  let prompt = resolvedYaml;
+  try {
+    const parsed = yaml.load(resolvedYaml) as Record<string, unknown>;
+    if (parsed && typeof parsed === 'object') {
+      prompt = yaml.dump(excludeNegative(parsed), { indent: 2, lineWidth: -1 });
+    }
+  } catch {
+    // パースできなければ展開したYAMLをそのまま使う
+  }
+  return {
+    prompt,
+    negativePrompt: resolveVariables(extractNegativePrompt(data), values),
+  };
+}
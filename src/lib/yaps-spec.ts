@@ -586,6 +586,127 @@ interaction: holding hands, looking at each other
 
 ---
 
+## Template Directives
+
+Keys starting with \`_\` are not part of the prompt. They control how template files are combined and are removed from the merged result.
+
+| Key | Type | Description |
+|-----|------|-------------|
+| \`_base\` | \`string\` / \`object\` | File to inherit from (merged first). A path or \`{ file, with }\` |
+| \`_layers\` | \`array\` | Files merged in order after \`_base\`. Items are paths (wildcards allowed) or \`{ file, when, with }\` |
+| \`_replace\` | \`array\` | Keys (any depth) or dotted paths that replace instead of deep-merging the values from the file's own \`_base\` / \`_layers\` |
+| \`_remove\` | \`array\` | Dotted paths removed from everything merged so far |
+| \`_append\` | \`object\` | Items added to the end of lists (\`path: [items]\`) |
+| \`_prepend\` | \`object\` | Items added to the beginning of lists (\`path: [items]\`) |
+| \`_vars\` | \`object\` | Variable declarations for the input form (see Variable Declarations) |
+| \`_generation\` | \`object\` | Values for the workflow's property overrides (see Generation Settings) |
+
+Application order: \`_base\` → \`_layers\` (top to bottom) → \`_remove\` → the file's own keys (with \`_replace\`) → \`_prepend\` / \`_append\`. Without directives, objects are deep-merged and arrays are overwritten. \`_remove\` / \`_prepend\` / \`_append\` act on everything merged so far, so a layer can remove inherited keys; a \`_remove\` path that matches no key produces a warning. \`_replace\` only acts on what the file's own \`_base\` / \`_layers\` brought in: a layer cannot replace the keys of the file that includes it.
+
+\`with\` passes values to the variables of the referenced file and the files it references in turn. They are filled in before the file is merged, so the same file can be used several times with different values. Variables without a value in \`with\` stay in the merged result. Values in \`with\` may contain the referencing file's own variables.
+
+\`\`\`yaml
+_base: ./character.yaml
+_layers:
+  - ./lighting/studio.yaml
+  - file: ./lighting/night.yaml
+    when: \${time|day} == night   # see Conditional Blocks
+  - file: ./backdrops/plain.yaml
+    with: { backdrop_color: navy }
+_replace: [appearance.hair]
+_remove: [appearance.extras]
+_append:
+  quality: [highres]
+  negative: [lowres]
+\`\`\`
+
+### Conditional Blocks
+
+\`_if\` and \`_cases\` are evaluated on the merged result with the current variable values, before the prompt is written out.
+
+| Key | Where | Description |
+|-----|-------|-------------|
+| \`_if\` | In a mapping below the root, or in a list item | Keeps the mapping only when the condition is true |
+| \`_cases\` | As the only key of a mapping | Replaced by the first case whose \`_if\` is true. A case without \`_if\` always matches; \`_value\` gives a case a scalar or list value |
+
+\`\`\`yaml
+outfit:
+  outer:
+    _if: \${season} == winter
+    type: down jacket
+lighting:
+  _cases:
+    - _if: \${time_of_day} == night
+      base: moonlight
+    - _if: \${time_of_day} in [dawn, dusk]
+      base: golden hour
+    - base: soft daylight
+mood:
+  _cases:
+    - _if: \${smile:bool|true}
+      _value: cheerful
+    - _value: calm
+\`\`\`
+
+Conditions (also used by \`when\` in \`_layers\`) compare variables, bare text and quoted strings with \`==\`, \`!=\`, \`<\`, \`<=\`, \`>\`, \`>=\` (numbers), \`in [a, b]\` and \`not in [a, b]\`, combined with \`!\`, \`&&\`, \`||\` and parentheses. A value on its own is true unless it is empty, \`false\`, \`0\`, \`no\` or \`off\`. Quote a condition that starts with \`!\`. A condition that cannot be evaluated is reported as an error and counts as false.
+
+### Variable Declarations
+
+\`_vars\` describes the variables of a template. It is merged like ordinary keys, so a child file or layer can override single fields of a declaration from its \`_base\` or \`_layers\`.
+
+| Field | Type | Description |
+|-------|------|-------------|
+| \`label\` | \`string\` | Name shown in the input form (a declaration that is only a string is its label) |
+| \`help\` | \`string\` | Help text shown under the name |
+| \`group\` | \`string\` | Fields with the same group are shown together under a heading |
+| \`order\` | \`number\` | Position in the form, lower first. Variables without \`order\` follow in the order they appear |
+| \`required\` | \`boolean\` | An empty field without a default value stops generation |
+| \`type\` | \`string\` | Same annotation as \`\${name:type}\` (\`number(0..2)\`, \`bool\`, ...), used instead of the one in the template |
+| \`options\` | \`array\` | Allowed values. The variable becomes an \`enum\` (a \`random\` variable picks from them) |
+
+\`\`\`yaml
+_vars:
+  hair_color:
+    label: Hair color
+    group: Appearance
+    order: 1
+    required: true
+    options: [black, blonde, silver]
+  weight:
+    label: LoRA weight
+    help: Lower values weaken the style
+    group: LoRA
+    type: number(0..1.5)
+  mood: Mood
+appearance:
+  hair:
+    color: \${hair_color}
+\`\`\`
+
+Declared variables are listed even when no \`\${...}\` uses them (for example, variables used only in conditions). Default values are written in the template (\`\${name|default}\`).
+
+### Generation Settings
+
+\`_generation\` sets the values of the property overrides configured for the ComfyUI workflow (image size, steps, sampler, LoRA strength, ...), so a template can carry its own settings. It is merged like ordinary keys.
+
+| Key | Applies to |
+|-----|------------|
+| \`property\` | Every override of the workflow with that property (\`width\`, \`steps\`, ...) |
+| \`nodeId.property\` | The override of that node only. Takes priority over a plain \`property\` key |
+
+\`\`\`yaml
+_generation:
+  width: 832
+  height: 1216
+  steps: \${steps:int(10..50)|30}
+  sampler_name: \${sampler:enum(euler,dpmpp_2m)|euler}
+  "12.strength_model": \${lora_weight:number(0..1.5)|0.8}
+\`\`\`
+
+Values may contain variables, so presets and batch axes can change them per image. Numeric values are sent as numbers. A value that is empty after variables are filled in leaves the override as it is. Template values take priority over the values in the generate panel and the workflow settings. Keys that match no override of the workflow are ignored.
+
+---
+
 ## Design Philosophy
 
 ### 1. base Pattern (pose, lighting)
@@ -681,6 +802,7 @@ These are not standard YAPS keys, but adding them to the dictionary enables auto
 | v1.0 | 2024-12-24 | Initial release |
 | v1.1 | 2024-12-28 | Dictionary sync, example value updates, added \`environment.color\` |
 | v1.2 | 2024-12-29 | Added \`texture\` key (generic texture attribute for hair, outfit items) |
+| v1.3 | 2026-10-19 | Added template directives (\`_remove\`, \`_append\`, \`_prepend\`, dotted \`_replace\` paths, conditional \`_layers\`) |
 
 ---
 
@@ -0,0 +1,94 @@
+// Minimal ZIP writer
+// Entries are stored without compression (images are already compressed),
+// file names are UTF-8. No ZIP64, so the archive must stay under 4 GB.
+
+import { crc32 } from './crc32';
+
+export interface ZipEntry {
+  name: string; // アーカイブ内のパス（区切りは "/"）
+  data: Uint8Array;
+  modified?: Date;
+}
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+const UTF8_FLAG = 0x0800;
+
+// MS-DOS形式の日時（2秒単位、1980年以降）
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    ...toDosDateTime(entry.modified ?? new Date()),
+  }));
+
+  const localSize = files.reduce((sum, f) => sum + LOCAL_HEADER_SIZE + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + CENTRAL_HEADER_SIZE + f.name.length, 0);
+  if (localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE > 0xffffffff || files.length > 0xffff) {
+    throw new Error('Archive is too large');
+  }
+
+  const output = new Uint8Array(localSize + centralSize + END_OF_CENTRAL_DIRECTORY_SIZE);
+  const view = new DataView(output.buffer);
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  // ローカルヘッダーとデータ
+  for (const file of files) {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true); // version needed
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, file.time, true);
+    view.setUint16(offset + 12, file.date, true);
+    view.setUint32(offset + 14, file.crc, true);
+    view.setUint32(offset + 18, file.data.length, true);
+    view.setUint32(offset + 22, file.data.length, true);
+    view.setUint16(offset + 26, file.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(file.name, offset + LOCAL_HEADER_SIZE);
+    output.set(file.data, offset + LOCAL_HEADER_SIZE + file.name.length);
+    offset += LOCAL_HEADER_SIZE + file.name.length + file.data.length;
+  }
+
+  // セントラルディレクトリ
+  const centralOffset = offset;
+  files.forEach((file, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true); // version made by
+    view.setUint16(offset + 6, 20, true); // version needed
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, file.time, true);
+    view.setUint16(offset + 14, file.date, true);
+    view.setUint32(offset + 16, file.crc, true);
+    view.setUint32(offset + 20, file.data.length, true);
+    view.setUint32(offset + 24, file.data.length, true);
+    view.setUint16(offset + 28, file.name.length, true);
+    // extra / comment / disk / attributes は 0
+    view.setUint32(offset + 42, localOffsets[i], true);
+    output.set(file.name, offset + CENTRAL_HEADER_SIZE);
+    offset += CENTRAL_HEADER_SIZE + file.name.length;
+  });
+
+  // 終端レコード
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output;
+}